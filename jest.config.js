@@ -0,0 +1,9 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: "ts-jest",
+  testEnvironment: "node",
+  roots: ["<rootDir>/src"],
+  testMatch: ["**/tests/**/*.test.ts"],
+  // Needs a MongoDB binary, run with npm run test:integration
+  testPathIgnorePatterns: ["/node_modules/", "/tests/integration/"],
+};
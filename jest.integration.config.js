@@ -0,0 +1,10 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: "ts-jest",
+  testEnvironment: "node",
+  roots: ["<rootDir>/src/tests/integration"],
+  testMatch: ["**/*.test.ts"],
+  // The first run downloads a MongoDB binary for mongodb-memory-server.
+  // Offline, set MONGOMS_SYSTEM_BINARY or MONGOMS_DOWNLOAD_DIR (.env.example)
+  testTimeout: 120000,
+};
@@ -3,11 +3,19 @@ import axios from "axios";
 import dns from "dns";
 import http from "http";
 import https from "https";
+import { examfinderUrl, finderPageUrl, goetheHost } from "../config/goethe";
+import { Exam, ExamfinderSchemaError, parseExamfinderResponse } from "./examfinder";
+import { Logger, logger } from "../utils/logger";
+import {
+  examfinderPollDuration,
+  examfinderPolls,
+  examfinderSchemaErrors,
+} from "../utils/metrics";
 
 // DNS Pre-resolution
-dns.resolve4("www.goethe.de", (err, addresses) => {
+dns.resolve4(goetheHost(), (err, addresses) => {
   if (!err && addresses.length > 0) {
-    console.log(`⚡ DNS pre-resolved: goethe.de -> ${addresses[0]}`);
+    logger.debug("DNS pre-resolved", { host: goetheHost(), address: addresses[0] });
   }
 });
 
@@ -26,30 +34,23 @@ const httpsAgent = new https.Agent({
 axios.defaults.httpAgent = httpAgent;
 axios.defaults.httpsAgent = httpsAgent;
 
-interface ExamData {
-  oid?: string;
-  modules?: any[];
-  bookFromStamp?: string;
-  bookToStamp?: string;
-  eventName?: string;
-  locationName?: string;
-  [key: string]: any;
-}
-
-interface ApiResponse {
-  DATA?: ExamData[];
-  [key: string]: any;
-}
-
 interface PollingOptions {
   interval?: number;
-  onOidFound?: (oid: string, exam: ExamData) => Promise<void>;
+  onOidFound?: (oid: string, exam: Exam) => Promise<void>;
   onTimeout?: () => void;
+  // Called once, after the first successful API response
+  onFirstPoll?: () => void;
   maxDurationMs?: number;
+  // Only exams passing the filter trigger onOidFound
+  filter?: (exam: Exam) => boolean;
+  // Replaces the category query parameter of the examfinder URL
+  category?: string;
+  // Exam level whose finder page is opened to capture the API URL
+  level?: string;
 }
 
 class ExamApiMonitor {
-  private apiUrl: string | null = "https://www.goethe.de/rest/examfinder/exams/institute/O%2010000366?category=E006&type=ER&countryIsoCode=pk&locationName=&count=10&start=1&langId=1&timezone=47&isODP=0&sortField=startDate&sortOrder=ASC&dataMode=0&langIsoCodes=en";
+  private apiUrl: string | null = examfinderUrl();
   private timeoutInterval: NodeJS.Timeout | null = null;
   private isPolling = false;
   private shouldStopPolling = false;
@@ -58,13 +59,32 @@ class ExamApiMonitor {
   private consecutiveErrors = 0;
   private maxConsecutiveErrors = 5;
   private lastSuccessfulPoll: Date | null = null;
+  private category: string | null = null;
+  // Picks the finder page the API URL is captured from
+  private level: string | null = null;
+  // Set while the examfinder response doesn't parse
+  private lastSchemaError: string | null = null;
+
+  // Sessions pass a child logger carrying their scheduleId
+  constructor(private log: Logger = logger) {}
+
+  private withCategory(apiUrl: string): string {
+    if (!this.category) return apiUrl;
+    try {
+      const url = new URL(apiUrl);
+      url.searchParams.set("category", this.category);
+      return url.toString();
+    } catch {
+      return apiUrl;
+    }
+  }
 
   async captureApiUrl(
     maxRetries = 30,
     retryDelay = 5000
   ): Promise<string | null> {
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      console.log(`🌐 Attempt ${attempt}/${maxRetries}: Capturing API URL...`);
+      this.log.info("Capturing API URL", { attempt, maxRetries });
       let browser = null;
 
       try {
@@ -101,15 +121,13 @@ class ExamApiMonitor {
           });
 
           try {
-            await page.goto("https://www.goethe.de/ins/in/en/spr/prf/gzb2.cfm", {
+            await page.goto(finderPageUrl(this.level || undefined), {
               waitUntil: "networkidle0",
               timeout: 20000,
             });
 
           } catch (err) {
-
-            console.log("Error capturing url:", err)
-
+            this.log.debug("Finder page did not settle", { error: (err as Error).message });
           }
 
           await new Promise((r) => setTimeout(r, 3000));
@@ -122,13 +140,13 @@ class ExamApiMonitor {
         await browser.close();
 
         if (apiUrl) {
-          console.log(`✅ API URL captured: ${apiUrl}`);
-          this.apiUrl = apiUrl;
+          this.log.info("API URL captured", { apiUrl });
+          this.apiUrl = this.withCategory(apiUrl);
           this.consecutiveErrors = 0;
-          return apiUrl;
+          return this.apiUrl;
         }
       } catch (err) {
-        console.error(`❌ Error capturing API URL (attempt ${attempt})`);
+        this.log.warn("Error capturing API URL", { attempt, err });
         if (browser) await browser.close().catch(() => { });
       }
 
@@ -138,18 +156,23 @@ class ExamApiMonitor {
       }
     }
 
-    console.error(`❌ Failed to capture API URL after ${maxRetries} attempts`);
+    this.log.error("Failed to capture API URL", { attempts: maxRetries });
     return null;
   }
 
-  private async directApiCall(): Promise<ApiResponse | null> {
+  private async directApiCall(): Promise<unknown> {
     if (!this.apiUrl) return null;
+    const endTimer = examfinderPollDuration.startTimer();
     try {
       const response = await axios.get(this.apiUrl, { timeout: 5000 });
+      endTimer({ result: "success" });
+      examfinderPolls.inc({ result: "success" });
       this.consecutiveErrors = 0;
       this.lastSuccessfulPoll = new Date();
       return response.data;
     } catch {
+      endTimer({ result: "error" });
+      examfinderPolls.inc({ result: "error" });
       this.consecutiveErrors++;
       return null;
     }
@@ -157,51 +180,61 @@ class ExamApiMonitor {
 
   private async checkAndRecaptureApiUrl(): Promise<boolean> {
     if (this.consecutiveErrors >= this.maxConsecutiveErrors) {
-      console.warn(
-        `⚠️ ${this.consecutiveErrors} consecutive errors → recapturing API URL...`
-      );
+      this.log.warn("Too many consecutive errors, recapturing API URL", {
+        consecutiveErrors: this.consecutiveErrors,
+      });
       this.apiUrl = null;
       const newUrl = await this.captureApiUrl(5, 3000);
       if (newUrl) {
-        console.log("✅ Successfully recaptured API URL");
+        this.log.info("Recaptured API URL");
         this.consecutiveErrors = 0;
         return true;
       }
-      console.error("❌ Failed to recapture API URL");
+      this.log.error("Failed to recapture API URL");
       return false;
     }
     return true;
   }
 
-  // MODIFIED: Simple polling for ANY exam with OID (no date/time filtering)
+  // Polls until an exam with an OID passes the filter (any exam without one)
   async startPolling(options: PollingOptions = {}) {
     const {
       interval = 1000, // Very aggressive 1 second polling
       onOidFound,
       onTimeout,
       maxDurationMs = 30 * 60 * 1000, // 30 minutes default
+      filter,
+      category,
+      level,
+      onFirstPoll,
     } = options;
 
+    let polledOnce = false;
+
+    this.category = category || null;
+    this.level = level || null;
+    if (this.apiUrl) this.apiUrl = this.withCategory(this.apiUrl);
+
     this.shouldStopPolling = false;
     this.processingOid = false;
     this.processedOids.clear();
 
     if (!this.apiUrl) {
-      console.log("📡 Capturing API URL before polling...");
+      this.log.info("Capturing API URL before polling");
       await this.captureApiUrl();
       if (!this.apiUrl) {
-        console.error("❌ Could not capture API URL. Exiting polling.");
+        this.log.error("Could not capture API URL, not polling");
         if (onTimeout) await onTimeout();
         return;
       }
     }
 
-    console.log(`🚀 Starting OID polling (checking every ${interval}ms)...`);
+    this.log.info("Starting OID polling", { intervalMs: interval, category, level });
 
     this.isPolling = true;
 
     this.timeoutInterval = setTimeout(async () => {
-      console.log("⏰ Max polling duration reached");
+      this.log.warn("Max polling duration reached", { maxDurationMs });
       this.shouldStopPolling = true;
       this.stopPolling();
       if (onTimeout) await onTimeout();
@@ -221,22 +254,33 @@ class ExamApiMonitor {
       try {
         const data = await this.directApiCall();
 
-        if (!data?.DATA) {
+        if (!data) {
           setTimeout(rapidPoll, interval);
           return;
         }
 
-        // SIMPLIFIED: Just check for ANY exam with OID
-        const examsWithOid = data.DATA.filter((exam) => exam.oid);
+        const exams = parseExamfinderResponse(data);
+        this.lastSchemaError = null;
+
+        if (!polledOnce) {
+          polledOnce = true;
+          onFirstPoll?.();
+        }
+
+        const examsWithOid = exams.filter(
+          (exam) => exam.oid && (!filter || filter(exam))
+        );
 
         if (examsWithOid.length > 0) {
-          // Take the first exam with OID
+          // Take the first matching exam with OID
           const exam = examsWithOid[0];
 
           if (!this.processedOids.has(exam.oid!)) {
-            console.log(`🎯 OID FOUND: ${exam.oid}`);
-            console.log(`📍 Location: ${exam.locationName || "Unknown"}`);
-            console.log(`📅 Event: ${exam.eventName || "Unknown"}`);
+            this.log.info("OID found", {
+              oid: exam.oid,
+              locationName: exam.locationName,
+              eventName: exam.eventName,
+            });
 
             this.processedOids.add(exam.oid!);
             this.processingOid = true;
@@ -254,13 +298,24 @@ class ExamApiMonitor {
             return this.stopPolling();
           }
         } else {
-          console.log(
-            `⏳ Polling... (${data.DATA.length} exams, no OID found yet)`
-          );
+          this.log.debug("No matching OID yet", { exams: exams.length });
         }
       } catch (err) {
-        this.consecutiveErrors++;
-        console.error("❌ Polling error:", err);
+        if (err instanceof ExamfinderSchemaError) {
+          examfinderSchemaErrors.inc();
+          // A new URL won't fix the response shape, keep polling and say why
+          if (this.lastSchemaError !== err.message) {
+            this.log.error("examfinder response changed", {
+              path: err.path,
+              expected: err.expected,
+              error: err.message,
+            });
+          }
+          this.lastSchemaError = err.message;
+        } else {
+          this.consecutiveErrors++;
+          this.log.error("Polling error", { err });
+        }
       }
 
       setTimeout(rapidPoll, interval);
@@ -274,7 +329,7 @@ class ExamApiMonitor {
     if (this.isPolling) {
       this.isPolling = false;
       this.shouldStopPolling = true;
-      console.log("🛑 Polling stopped");
+      this.log.info("Polling stopped");
     }
   }
 
@@ -299,6 +354,7 @@ class ExamApiMonitor {
       processedOids: Array.from(this.processedOids),
       consecutiveErrors: this.consecutiveErrors,
       lastSuccessfulPoll: this.lastSuccessfulPoll,
+      lastSchemaError: this.lastSchemaError,
     };
   }
 
@@ -310,5 +366,5 @@ class ExamApiMonitor {
   }
 }
 
-export const examMonitor = new ExamApiMonitor();
+// One instance per monitoring session, see ExamScheduler
 export { ExamApiMonitor };
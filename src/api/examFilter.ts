@@ -0,0 +1,40 @@
+import { DateTime } from "luxon";
+import { ScheduleTarget } from "../models/scheduleSchema";
+import { Exam } from "./examfinder";
+
+export const matchesTarget = (
+  exam: Exam,
+  target?: ScheduleTarget | null
+): boolean => {
+  if (!target) return true;
+
+  if (target.level && exam.level !== target.level) return false;
+
+  if (target.category && exam.category !== target.category) return false;
+
+  if (target.locationName) {
+    const wanted = target.locationName.trim().toLowerCase();
+    if (!exam.locationName.toLowerCase().includes(wanted)) return false;
+  }
+
+  if (target.startDateFrom && exam.startDate < target.startDateFrom) return false;
+  if (target.startDateTo && exam.startDate > target.startDateTo) return false;
+
+  return true;
+};
+
+const formatDay = (date: Date) =>
+  DateTime.fromJSDate(date, { zone: "utc" }).toFormat("dd.MM.yyyy");
+
+export const describeTarget = (target?: ScheduleTarget | null): string => {
+  const parts: string[] = [];
+  if (target?.level) parts.push(`Level ${target.level}`);
+  if (target?.category) parts.push(`Category ${target.category}`);
+  if (target?.locationName) parts.push(`Location "${target.locationName}"`);
+  if (target?.startDateFrom || target?.startDateTo) {
+    const from = target.startDateFrom ? formatDay(target.startDateFrom) : "any";
+    const to = target.startDateTo ? formatDay(target.startDateTo) : "any";
+    parts.push(`Exam date ${from} – ${to}`);
+  }
+  return parts.length ? parts.join(", ") : "Any exam";
+};
@@ -0,0 +1,264 @@
+import { DateTime } from "luxon";
+
+/**
+ * Typed model of the examfinder REST response (see goethe.json and
+ * goethe-api-2025-09-18.json). Only the fields the bot relies on are
+ * checked, a missing or retyped one throws ExamfinderSchemaError naming it.
+ */
+
+export const EXAM_MODULE_KINDS = ["reading", "listening", "writing", "speaking"] as const;
+export type ExamModuleKind = (typeof EXAM_MODULE_KINDS)[number];
+
+// Module "type" codes as sent by the API, B2 durations: 40/65/75/15 minutes
+const MODULE_TYPES: Record<string, ExamModuleKind> = {
+  "0011": "listening",
+  "0012": "reading",
+  "0013": "writing",
+  "0014": "speaking",
+};
+
+export interface ExamModule {
+  // null for a type code we don't know yet
+  kind: ExamModuleKind | null;
+  type: string;
+  ceId: string;
+  // 00:00 UTC of the module day, speaking is often not scheduled yet
+  date: Date | null;
+  // "HH:mm", local time of the exam centre
+  startTime: string | null;
+  endTime: string | null;
+}
+
+export interface Exam {
+  // Only sent once booking has opened
+  oid: string | null;
+  eventName: string;
+  category: string;
+  // "B2"
+  level: string;
+  locationName: string;
+  locationId: string;
+  instituteId: string;
+  moduleId: string;
+  offerKey: string | null;
+  // First and last exam day at 00:00 UTC
+  startDate: Date;
+  endDate: Date;
+  // When booking opens, derived from the local time until bookFromStamp is sent
+  bookFrom: Date | null;
+  bookTo: Date;
+  publishTo: Date;
+  isSingleBooking: boolean;
+  isModular: boolean;
+  bookable: boolean;
+  // "Book", "Bookable from 07.10.2025"
+  availabilityText: string;
+  price: string | null;
+  modules: ExamModule[];
+  // Modules that can be booked now, seats per module only show at checkout
+  availableModules: ExamModuleKind[];
+}
+
+const describe = (value: unknown): string => {
+  if (value === undefined) return "nothing";
+  const json = JSON.stringify(value);
+  return json.length > 60 ? `${json.slice(0, 57)}...` : json;
+};
+
+export class ExamfinderSchemaError extends Error {
+  constructor(
+    public readonly path: string,
+    public readonly expected: string,
+    public readonly received: unknown
+  ) {
+    super(
+      `examfinder response changed at ${path}: expected ${expected}, got ${describe(received)}`
+    );
+    this.name = "ExamfinderSchemaError";
+  }
+}
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+// Reads typed fields of one raw object, errors carry the full path
+const reader = (raw: RawObject, path: string) => {
+  const fail = (key: string, expected: string): never => {
+    throw new ExamfinderSchemaError(`${path}.${key}`, expected, raw[key]);
+  };
+  const isMissing = (key: string) => raw[key] === undefined || raw[key] === null;
+
+  const string = (key: string): string =>
+    typeof raw[key] === "string" ? (raw[key] as string) : fail(key, "a string");
+
+  const optionalString = (key: string): string | null =>
+    isMissing(key) ? null : string(key);
+
+  const boolean = (key: string): boolean =>
+    typeof raw[key] === "boolean" ? (raw[key] as boolean) : fail(key, "a boolean");
+
+  const number = (key: string): number =>
+    typeof raw[key] === "number" ? (raw[key] as number) : fail(key, "a number");
+
+  const stamp = (key: string): Date => {
+    const parsed = DateTime.fromISO(string(key), { setZone: true });
+    return parsed.isValid ? parsed.toUTC().toJSDate() : fail(key, "an ISO timestamp");
+  };
+
+  const optionalStamp = (key: string): Date | null =>
+    isMissing(key) ? null : stamp(key);
+
+  const day = (key: string, format: string): Date => {
+    const parsed = DateTime.fromFormat(string(key), format, { zone: "utc" });
+    return parsed.isValid ? parsed.toJSDate() : fail(key, `a ${format} date`);
+  };
+
+  const optionalDay = (key: string, format: string): Date | null =>
+    isMissing(key) ? null : day(key, format);
+
+  const time = (key: string): string | null => {
+    if (isMissing(key)) return null;
+    const match = string(key).match(/^(\d{2}:\d{2})(:\d{2}(\.\d+)?)?$/);
+    return match ? match[1] : fail(key, "an HH:mm:ss time");
+  };
+
+  const array = (key: string): unknown[] =>
+    Array.isArray(raw[key]) ? (raw[key] as unknown[]) : fail(key, "an array");
+
+  return {
+    string,
+    optionalString,
+    boolean,
+    number,
+    stamp,
+    optionalStamp,
+    day,
+    optionalDay,
+    time,
+    array,
+  };
+};
+
+/**
+ * bookFromStamp is only sent once booking has opened. Before that the local
+ * bookFrom date and time are converted with the centre's UTC offset, which
+ * the bookTo fields give away (bookTo + bookToTime is bookToStamp locally).
+ */
+const parseBookFrom = (raw: RawObject, path: string): Date | null => {
+  const read = reader(raw, path);
+  const stamp = read.optionalStamp("bookFromStamp");
+  if (stamp) return stamp;
+
+  const bookFrom = read.optionalString("bookFrom");
+  const bookFromTime = read.time("bookFromTime");
+  const bookTo = read.optionalString("bookTo");
+  const bookToTime = read.time("bookToTime");
+  if (!bookFrom || !bookFromTime || !bookTo || !bookToTime) return null;
+
+  const localTo = DateTime.fromFormat(`${bookTo} ${bookToTime}`, "dd.MM.yyyy HH:mm", { zone: "utc" });
+  const localFrom = DateTime.fromFormat(`${bookFrom} ${bookFromTime}`, "dd.MM.yyyy HH:mm", { zone: "utc" });
+  if (!localTo.isValid || !localFrom.isValid) return null;
+
+  const offsetMs = localTo.toMillis() - read.stamp("bookToStamp").getTime();
+  return new Date(localFrom.toMillis() - offsetMs);
+};
+
+const stripHtml = (value: string) =>
+  value.replace(/<br\s*\/?>/gi, " ").replace(/<[^>]*>/g, "").replace(/\s+/g, " ").trim();
+
+const parseModule = (raw: unknown, path: string): ExamModule => {
+  if (!isObject(raw)) throw new ExamfinderSchemaError(path, "an object", raw);
+  const read = reader(raw, path);
+
+  // Unscheduled modules come with "00:00:00.000" times
+  const date = read.optionalDay("date", "yyyy-MM-dd");
+  const type = read.string("type");
+  return {
+    kind: MODULE_TYPES[type] || null,
+    type,
+    ceId: read.string("ceId"),
+    date,
+    startTime: date ? read.time("startTime") : null,
+    endTime: date ? read.time("endTime") : null,
+  };
+};
+
+const parseLevel = (raw: RawObject, path: string): string => {
+  const levels = raw.languageLevelArray;
+  if (Array.isArray(levels) && levels.length > 0) {
+    if (!levels.every((part) => typeof part === "string")) {
+      throw new ExamfinderSchemaError(
+        `${path}.languageLevelArray`,
+        "an array of strings",
+        levels
+      );
+    }
+    return levels.join("").toUpperCase();
+  }
+  return reader(raw, path).string("languagelevelText").trim().toUpperCase();
+};
+
+export const parseExam = (raw: unknown, path = "exam"): Exam => {
+  if (!isObject(raw)) throw new ExamfinderSchemaError(path, "an object", raw);
+  const read = reader(raw, path);
+
+  const oid = read.optionalString("oid") || null;
+  const modules = read
+    .array("modules")
+    .map((module, index) => parseModule(module, `${path}.modules[${index}]`));
+  // 1 = "Book", 11 = "Bookable from ..."
+  const availability = read.number("availability");
+  const bookable =
+    !!oid && availability === 1 && read.optionalString("buttonDisabled") !== "disabled";
+
+  return {
+    oid,
+    eventName: read.string("eventName"),
+    category: read.string("category"),
+    level: parseLevel(raw, path),
+    locationName: read.string("locationName").trim(),
+    locationId: read.string("locationId"),
+    instituteId: read.string("instituteId"),
+    moduleId: read.string("moduleId"),
+    offerKey: read.optionalString("offerKey"),
+    startDate:
+      read.optionalDay("startDateForAccessibility", "yyyy-MM-dd") ||
+      read.day("startDate", "dd.MM.yyyy"),
+    endDate: read.day("endDate", "dd.MM.yyyy"),
+    bookFrom: parseBookFrom(raw, path),
+    bookTo: read.stamp("bookToStamp"),
+    publishTo: read.stamp("publishToStamp"),
+    isSingleBooking: read.boolean("isSingleBooking"),
+    isModular: read.boolean("isModular"),
+    bookable,
+    availabilityText: stripHtml(read.string("availabilityText")),
+    price: read.optionalString("price")?.trim() || null,
+    modules,
+    availableModules: bookable
+      ? modules
+          .map((module) => module.kind)
+          .filter((kind): kind is ExamModuleKind => kind !== null)
+      : [],
+  };
+};
+
+export const parseExams = (raw: unknown, path = "DATA"): Exam[] => {
+  if (!Array.isArray(raw)) throw new ExamfinderSchemaError(path, "an array", raw);
+  return raw.map((exam, index) => parseExam(exam, `${path}[${index}]`));
+};
+
+/**
+ * Exams of one examfinder response. Throws ExamfinderSchemaError when the
+ * response no longer has the expected shape.
+ */
+export const parseExamfinderResponse = (body: unknown): Exam[] => {
+  if (!isObject(body)) throw new ExamfinderSchemaError("response", "an object", body);
+  if (body.SUCCESS === false) {
+    throw new Error(
+      `examfinder request failed: ${describe(body.APIREQUESTERROR ?? "no details")}`
+    );
+  }
+  return parseExams(body.DATA);
+};
@@ -0,0 +1,104 @@
+import crypto from "crypto";
+import axios from "axios";
+import dotenv from "dotenv";
+import { examfinderUrl } from "../config/goethe";
+import { EXAM_CATEGORIES } from "../models/scheduleSchema";
+import { Exam, parseExamfinderResponse } from "./examfinder";
+
+dotenv.config();
+
+export interface UpcomingExam extends Exam {
+  // Short stable id, fits into callback data
+  key: string;
+  bookFrom: Date;
+}
+
+export interface UpcomingOptions {
+  // Only exams whose booking opens within this many days
+  withinDays?: number;
+  level?: string;
+  now?: Date;
+}
+
+export const UPCOMING_WINDOW_DAYS =
+  parseInt(process.env.UPCOMING_WINDOW_DAYS || "", 10) || 14;
+
+// The finder lists the whole season, one page per category is enough
+const PAGE_SIZE = 100;
+const CACHE_MS = 60 * 1000;
+
+let cache: { fetchedAt: number; exams: Exam[] } | null = null;
+
+export const examKey = (exam: Exam): string =>
+  crypto
+    .createHash("sha1")
+    .update(`${exam.instituteId}|${exam.locationId}|${exam.moduleId}|${exam.startDate.toISOString()}`)
+    .digest("hex")
+    .slice(0, 12);
+
+/**
+ * All exams of every category, cached for a minute so a burst of /upcoming
+ * taps doesn't hit goethe.de each time.
+ */
+export const fetchExams = async (): Promise<Exam[]> => {
+  if (cache && Date.now() - cache.fetchedAt < CACHE_MS) return cache.exams;
+
+  const responses = await Promise.all(
+    EXAM_CATEGORIES.map((category) =>
+      axios.get(examfinderUrl(category, PAGE_SIZE), { timeout: 10000 })
+    )
+  );
+
+  const exams = new Map<string, Exam>();
+  for (const response of responses) {
+    for (const exam of parseExamfinderResponse(response.data)) {
+      exams.set(examKey(exam), exam);
+    }
+  }
+
+  cache = { fetchedAt: Date.now(), exams: Array.from(exams.values()) };
+  return cache.exams;
+};
+
+export const clearExamCache = () => {
+  cache = null;
+};
+
+/**
+ * Exams whose booking window opens after now and within the next days,
+ * soonest first.
+ */
+export const selectUpcoming = (
+  exams: Exam[],
+  { withinDays = UPCOMING_WINDOW_DAYS, level, now = new Date() }: UpcomingOptions = {}
+): UpcomingExam[] => {
+  const until = now.getTime() + withinDays * 24 * 60 * 60 * 1000;
+
+  return exams
+    .filter(
+      (exam): exam is Exam & { bookFrom: Date } =>
+        !!exam.bookFrom &&
+        exam.bookFrom.getTime() > now.getTime() &&
+        exam.bookFrom.getTime() <= until &&
+        (!level || exam.level === level.toUpperCase())
+    )
+    .map((exam) => ({ ...exam, key: examKey(exam) }))
+    .sort(
+      (a, b) =>
+        a.bookFrom.getTime() - b.bookFrom.getTime() ||
+        a.startDate.getTime() - b.startDate.getTime()
+    );
+};
+
+export const getUpcomingExams = async (
+  options: UpcomingOptions = {}
+): Promise<UpcomingExam[]> => selectUpcoming(await fetchExams(), options);
+
+export const findUpcomingExam = async (
+  key: string,
+  now = new Date()
+): Promise<UpcomingExam | null> => {
+  const exam = (await fetchExams()).find((e) => examKey(e) === key);
+  if (!exam?.bookFrom || exam.bookFrom <= now) return null;
+  return { ...exam, key, bookFrom: exam.bookFrom };
+};
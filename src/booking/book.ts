@@ -1,6 +1,8 @@
 import { Page } from "puppeteer";
 import dotenv from "dotenv";
 import type TelegramBot from "node-telegram-bot-api";
+import { checkoutUrl } from "../config/goethe";
+import { Logger, logger } from "../utils/logger";
 
 dotenv.config();
 
@@ -15,21 +17,21 @@ const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
 
 const sendLog = (
   bot: TelegramBot,
-  chatId: string | null,
+  chatIds: string[],
   browserNumber: number,
-  message: string
+  message: string,
+  log: Logger
 ) => {
-  if (!chatId) return;
-
   const fullMessage = `[Browser ${browserNumber}] ${message}`;
 
   // Fire and forget - don't block on telegram messages
   setImmediate(() => {
-    try {
-      bot.sendMessage(chatId, fullMessage, { parse_mode: "Markdown" });
-      console.log(fullMessage);
-    } catch (error) {
-      console.error("Failed to send Telegram message:", error);
+    for (const chatId of chatIds) {
+      bot
+        .sendMessage(chatId, fullMessage, { parse_mode: "Markdown" })
+        .catch((error) =>
+          log.warn("Failed to send Telegram message", { telegramId: chatId, err: error })
+        );
     }
   });
 };
@@ -44,11 +46,16 @@ const startBooking = async (
   oid: string,
   bot: TelegramBot,
   displayInfo: DisplayInfo,
-  chatId: string | null,
+  // Subscribed members of the schedule's workspace
+  chatIds: string[],
+  parentLog: Logger = logger,
   timeoutMs = 5 * 60 * 60 * 1000 // 5 hours for retry loop
 ) => {
+  const log = parentLog.child({ browserNumber, oid });
+  const notify = (message: string) =>
+    sendLog(bot, chatIds, browserNumber, message, log);
   const startTime = Date.now();
-  const bookingUrl = `https://www.goethe.de/coe?lang=en&oid=${oid}`;
+  const bookingUrl = checkoutUrl(oid);
   const SLOW_PAGE_TIMEOUT = 5 * 60 * 1000;
 
   try {
@@ -59,12 +66,9 @@ const startBooking = async (
       pageTitle.includes("options")
     ) {
       // SUCCESS - Page loaded correctly!
-      console.log(`✅ Browser ${browserNumber}: Page loaded successfully!`);
+      log.info("Booking page loaded", { elapsedMs: Date.now() - startTime });
 
-      sendLog(
-        bot,
-        chatId,
-        browserNumber,
+      notify(
         `✅ **PAGE LOADED SUCCESSFULLY!**\n\n` +
         `🖥️ **Display:** ${displayInfo.display}\n` +
         `🔗 **noVNC URL:** ${displayInfo.noVncUrl}\n` +
@@ -77,24 +81,19 @@ const startBooking = async (
       );
 
       // Keep browser open indefinitely for manual booking
-      console.log(
-        `🖥️ Browser ${browserNumber}: Keeping browser open for manual booking...`
-      );
+      log.info("Keeping browser open for manual booking");
       await delay(1800000)
 
       return;
     }
 
     // Error detected - start retry loop
-    console.log(
-      `⚠️ Browser ${browserNumber}: Error detected in page title: ${pageTitle}`
-    );
-    console.log(`🔄 Browser ${browserNumber}: Starting 5-hour retry loop...`);
+    log.warn("Booking page shows an error, starting retry loop", {
+      pageTitle,
+      timeoutMs,
+    });
 
-    sendLog(
-      bot,
-      chatId,
-      browserNumber,
+    notify(
       `⚠️ Error detected, starting retry loop...\n` +
       `Page title: ${pageTitle}\n` +
       `Will retry for 5 hours.`
@@ -106,11 +105,8 @@ const startBooking = async (
       const elapsed = Date.now() - startTime;
 
       if (elapsed > timeoutMs) {
-        console.log(`⏰ Browser ${browserNumber}: 5 hour timeout reached`);
-        sendLog(
-          bot,
-          chatId,
-          browserNumber,
+        log.warn("Retry loop timed out", { attempts });
+        notify(
           "⏰ Retry timeout reached (5 hours). Stopping retries."
         );
         return;
@@ -131,16 +127,14 @@ const startBooking = async (
         if (
           !retryPageTitle.includes("options")
         ) {
-          console.log(
-            `⚠️ Browser ${browserNumber}: Still seeing error (attempt ${attempts}): ${retryPageTitle}`
-          );
+          log.debug("Booking page still shows an error", {
+            attempt: attempts,
+            pageTitle: retryPageTitle,
+          });
 
           // Notify every 20 attempts
           if (attempts % 20 === 0) {
-            sendLog(
-              bot,
-              chatId,
-              browserNumber,
+            notify(
               `⚠️ Still retrying...\n` +
               `Attempt: ${attempts}\n` +
               `Error: ${retryPageTitle}\n` +
@@ -153,14 +147,12 @@ const startBooking = async (
         }
 
         // SUCCESS - Error resolved!
-        console.log(
-          `✅ Browser ${browserNumber}: Page loaded successfully after ${attempts} attempts!`
-        );
+        log.info("Booking page loaded after retrying", {
+          attempts,
+          elapsedMs: elapsed,
+        });
 
-        sendLog(
-          bot,
-          chatId,
-          browserNumber,
+        notify(
           `✅ **PAGE LOADED SUCCESSFULLY!**\n\n` +
           `🖥️ **Display:** ${displayInfo.display}\n` +
           `🔗 **noVNC URL:** ${displayInfo.noVncUrl}\n` +
@@ -174,23 +166,18 @@ const startBooking = async (
         );
 
         // Keep browser open indefinitely for manual booking
-        console.log(
-          `🖥️ Browser ${browserNumber}: Keeping browser open for manual booking...`
-        );
+        log.info("Keeping browser open for manual booking");
         await delay(1800000)
         return
       } catch (navError) {
-        console.error(
-          `❌ Browser ${browserNumber}: Navigation error (attempt ${attempts}):`,
-          (navError as Error).message
-        );
+        log.warn("Navigation to booking page failed", {
+          attempt: attempts,
+          error: (navError as Error).message,
+        });
 
         // Notify on critical errors every 30 attempts
         if (attempts % 30 === 0) {
-          sendLog(
-            bot,
-            chatId,
-            browserNumber,
+          notify(
             `❌ Navigation error\n` +
             `Attempt: ${attempts}\n` +
             `Elapsed: ${Math.round(elapsed / 60000)} min\n` +
@@ -200,11 +187,8 @@ const startBooking = async (
       }
     }
   } catch (err) {
-    console.error(`❌ Browser ${browserNumber}: Unexpected error:`, err);
-    sendLog(
-      bot,
-      chatId,
-      browserNumber,
+    log.error("Unexpected booking error", { err });
+    notify(
       `❌ Unexpected error: ${(err as Error).message}\n\n` +
       `🖥️ Display: ${displayInfo.display}\n` +
       `🔗 noVNC: ${displayInfo.noVncUrl}\n\n` +
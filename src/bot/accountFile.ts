@@ -0,0 +1,334 @@
+import { AccountDocument, isValidEmail } from "../models/accountSchema";
+import { MODULE_NAMES, ModuleName } from "./callbacks";
+
+/**
+ * Bulk account files: CSV or JSON documents uploaded to the bot, and the
+ * export going the other way. Exports never contain passwords, they have to
+ * be filled in before an export can be imported again.
+ */
+
+export type AccountFileFormat = "csv" | "json";
+
+export const REDACTED = "[redacted]";
+export const MAX_IMPORT_BYTES = 512 * 1024;
+export const MAX_IMPORT_ROWS = 500;
+
+export interface ImportRow {
+  // Spreadsheet row for CSV (the header is row 1), position for JSON
+  row: number;
+  email: string;
+  password: string;
+  modules: Record<ModuleName, boolean>;
+  status: boolean;
+  firstName?: string;
+  lastName?: string;
+}
+
+export interface RowResult {
+  row: number;
+  email?: string;
+  ok: boolean;
+  // What happened to the row, or why it was skipped
+  message: string;
+}
+
+export type ParsedAccountFile =
+  | { rows: ImportRow[]; problems: RowResult[] }
+  | { error: string };
+
+const TRUE_VALUES = ["true", "yes", "y", "1", "x", "on", "active", "✅"];
+const FALSE_VALUES = ["false", "no", "n", "0", "off", "inactive", "❌"];
+
+export const detectFormat = (
+  fileName?: string,
+  mimeType?: string
+): AccountFileFormat | null => {
+  const name = (fileName || "").toLowerCase();
+  if (name.endsWith(".csv") || mimeType === "text/csv") return "csv";
+  if (name.endsWith(".json") || mimeType === "application/json") return "json";
+  return null;
+};
+
+/**
+ * RFC 4180 style: quoted fields may hold the delimiter, line breaks and ""
+ * for a quote.
+ */
+export const parseCsv = (text: string, delimiter = ","): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+};
+
+// "First Name", "first_name" and "firstName" are the same column
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[^a-z]/g, "");
+
+const parseBoolean = (value: unknown): boolean | null | undefined => {
+  if (typeof value === "boolean") return value;
+  if (value === undefined || value === null) return undefined;
+  const text = String(value).trim().toLowerCase();
+  if (text === "") return undefined;
+  if (TRUE_VALUES.includes(text)) return true;
+  if (FALSE_VALUES.includes(text)) return false;
+  return null;
+};
+
+const text = (value: unknown) =>
+  value === undefined || value === null ? "" : String(value).trim();
+
+// A "modules" list (array, object or "read;write") plus read/hear/... columns
+const parseModules = (
+  fields: Record<string, unknown>
+): Record<ModuleName, boolean> | { error: string } => {
+  const modules = { read: false, hear: false, write: false, speak: false };
+  const listed = fields.modules;
+
+  let names: string[] = [];
+  if (Array.isArray(listed)) {
+    names = listed.map((name) => text(name));
+  } else if (listed && typeof listed === "object") {
+    names = Object.entries(listed)
+      .filter(([, enabled]) => parseBoolean(enabled))
+      .map(([name]) => name);
+  } else if (text(listed)) {
+    names = text(listed).split(/[\s,;|]+/);
+  }
+
+  for (const name of names.map((n) => n.toLowerCase()).filter(Boolean)) {
+    if (!MODULE_NAMES.includes(name as ModuleName)) {
+      return { error: `Unknown module "${name}" (use ${MODULE_NAMES.join(", ")})` };
+    }
+    modules[name as ModuleName] = true;
+  }
+
+  for (const name of MODULE_NAMES) {
+    const enabled = parseBoolean(fields[name]);
+    if (enabled === null) {
+      return { error: `${name} must be yes or no, got "${text(fields[name])}"` };
+    }
+    if (enabled) modules[name] = true;
+  }
+
+  return modules;
+};
+
+const toImportRow = (
+  row: number,
+  record: Record<string, unknown>
+): ImportRow | RowResult => {
+  const fields: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    fields[normalizeKey(key)] = value;
+  }
+
+  const email = text(fields.email);
+  const fail = (message: string): RowResult => ({
+    row,
+    email: email || undefined,
+    ok: false,
+    message,
+  });
+
+  if (!email) return fail("Email is missing");
+  if (!isValidEmail(email)) return fail("Invalid email format");
+
+  const password = text(fields.password);
+  if (!password) return fail("Password is missing");
+  if (password === REDACTED) return fail("Password is redacted, fill in the real one");
+
+  const modules = parseModules(fields);
+  if ("error" in modules) return fail(modules.error);
+
+  const status = parseBoolean(fields.status ?? fields.active);
+  if (status === null) return fail("Status must be active or inactive");
+
+  return {
+    row,
+    email,
+    password,
+    modules,
+    status: status ?? true,
+    firstName: text(fields.firstname) || undefined,
+    lastName: text(fields.lastname) || undefined,
+  };
+};
+
+const readRecords = (
+  content: string,
+  format: AccountFileFormat
+): { records: { row: number; record: unknown }[] } | { error: string } => {
+  const body = content.replace(/^\uFEFF/, "");
+
+  if (format === "json") {
+    let data: any;
+    try {
+      data = JSON.parse(body);
+    } catch (error) {
+      return { error: `Not valid JSON: ${(error as Error).message}` };
+    }
+    // An export is { accounts: [...] }, a plain array works too
+    const list = Array.isArray(data) ? data : data?.accounts;
+    if (!Array.isArray(list)) {
+      return { error: "The JSON must be a list of accounts or { \"accounts\": [...] }" };
+    }
+    return { records: list.map((record, index) => ({ row: index + 1, record })) };
+  }
+
+  // Spreadsheets set to a German locale save with semicolons
+  const headerLine = body.split(/\r?\n/, 1)[0];
+  const delimiter = headerLine.includes(";") && !headerLine.includes(",") ? ";" : ",";
+  const [header, ...lines] = parseCsv(body, delimiter);
+  const columns = (header || []).map(normalizeKey);
+  if (!columns.includes("email") || !columns.includes("password")) {
+    return { error: "The CSV needs a header row with at least the email and password columns" };
+  }
+
+  const records = lines
+    .map((values, index) => ({
+      row: index + 2,
+      record: Object.fromEntries(columns.map((column, i) => [column, values[i]])),
+      empty: values.every((value) => value.trim() === ""),
+    }))
+    .filter((line) => !line.empty)
+    .map(({ row, record }) => ({ row, record }));
+  return { records };
+};
+
+/**
+ * Reads and validates every row. Rows with problems are reported and left
+ * out, a file we can't read at all is an error.
+ */
+export const parseAccountFile = (
+  content: string,
+  format: AccountFileFormat
+): ParsedAccountFile => {
+  const read = readRecords(content, format);
+  if ("error" in read) return read;
+
+  const { records } = read;
+  if (records.length === 0) return { error: "The file has no accounts in it" };
+  if (records.length > MAX_IMPORT_ROWS) {
+    return {
+      error: `The file has ${records.length} accounts, import at most ${MAX_IMPORT_ROWS} at a time`,
+    };
+  }
+
+  const rows: ImportRow[] = [];
+  const problems: RowResult[] = [];
+  const seen = new Map<string, number>();
+
+  for (const { row, record } of records) {
+    if (!record || typeof record !== "object" || Array.isArray(record)) {
+      problems.push({ row, ok: false, message: "Not an account object" });
+      continue;
+    }
+
+    const parsed = toImportRow(row, record as Record<string, unknown>);
+    if (!("password" in parsed)) {
+      problems.push(parsed);
+      continue;
+    }
+
+    const key = parsed.email.toLowerCase();
+    const firstRow = seen.get(key);
+    if (firstRow !== undefined) {
+      problems.push({
+        row,
+        email: parsed.email,
+        ok: false,
+        message: `Duplicate of row ${firstRow}`,
+      });
+      continue;
+    }
+
+    seen.set(key, row);
+    rows.push(parsed);
+  }
+
+  return { rows, problems };
+};
+
+export const formatRowResult = ({ row, email, ok, message }: RowResult) =>
+  `Row ${row}: ${ok ? "✅" : "❌"} ${email || "-"}${ok ? "" : ` – ${message}`}`;
+
+// Quotes where needed, and keeps spreadsheets from running cells as formulas
+const csvCell = (value: string) => {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+const EXPORT_COLUMNS = [
+  "email",
+  "password",
+  "modules",
+  "status",
+  "firstName",
+  "lastName",
+  "profileComplete",
+] as const;
+
+/**
+ * Same columns the import reads, with every password replaced by
+ * [redacted].
+ */
+export const exportAccounts = (
+  accounts: AccountDocument[],
+  format: AccountFileFormat,
+  now: Date = new Date()
+): string => {
+  const rows = accounts.map((account) => ({
+    email: account.email,
+    password: REDACTED,
+    modules: MODULE_NAMES.filter((name) => account.modules?.[name]),
+    status: account.status ? "active" : "inactive",
+    firstName: account.firstName || "",
+    lastName: account.lastName || "",
+    profileComplete: Boolean(account.hasCompleteProfile),
+  }));
+
+  if (format === "json") {
+    return JSON.stringify({ exportedAt: now.toISOString(), accounts: rows }, null, 2);
+  }
+
+  const lines = rows.map((row) =>
+    EXPORT_COLUMNS.map((column) => {
+      const value = row[column];
+      return csvCell(Array.isArray(value) ? value.join(";") : String(value));
+    }).join(",")
+  );
+  return [EXPORT_COLUMNS.join(","), ...lines].join("\n") + "\n";
+};
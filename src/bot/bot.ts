@@ -0,0 +1,21 @@
+import dotenv from "dotenv";
+import TelegramBot from "node-telegram-bot-api";
+import { telegramSendFailures } from "../utils/metrics";
+
+dotenv.config();
+
+const token = process.env.TELEGRAM_TOKEN || "";
+
+// Counts failed sends for /metrics, callers still see the rejection
+class MeteredBot extends TelegramBot {
+  sendMessage(
+    ...args: Parameters<TelegramBot["sendMessage"]>
+  ): ReturnType<TelegramBot["sendMessage"]> {
+    return super.sendMessage(...args).catch((error) => {
+      telegramSendFailures.inc();
+      throw error;
+    });
+  }
+}
+
+export const bot: TelegramBot = new MeteredBot(token, { polling: true });
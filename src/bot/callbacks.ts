@@ -0,0 +1,77 @@
+/**
+ * Every inline keyboard button the bot sends, with the arguments it carries.
+ * Buttons are encoded as "action:arg1:arg2" and must fit Telegram's 64 byte
+ * callback_data limit.
+ */
+export type ModuleName = "read" | "hear" | "write" | "speak";
+export const MODULE_NAMES: ModuleName[] = ["read", "hear", "write", "speak"];
+export type AccountEdit = "modules" | "password" | "status" | "profile";
+export const ACCOUNT_EDITS: AccountEdit[] = ["modules", "password", "status", "profile"];
+
+export interface CallbackArgs {
+  cancel: [];
+  // Main menu
+  add_account: [];
+  view_accounts: [];
+  remove_account: [];
+  toggle_account: [];
+  edit_account: [];
+  edit_profile: [];
+  import_accounts: [];
+  export_accounts: [];
+  schedule_scraping: [];
+  view_schedules: [];
+  remove_schedule: [];
+  // Module selection
+  toggle_module: [module: ModuleName];
+  confirm_modules: [];
+  // Schedule exam targeting, "any" clears the level/category
+  target_level: [level: string];
+  target_category: [category: string];
+  target_location: [];
+  target_dates: [];
+  target_repeat: [];
+  confirm_target: [];
+  // Upcoming exams, examKey() of the exam to schedule
+  upcoming_schedule: [key: string];
+  // Account and schedule pickers, pages count from 0
+  account_page: [page: string];
+  pick_account: [accountId: string];
+  confirm_remove_account: [accountId: string];
+  // Buttons of the account detail view
+  account_edit: [edit: AccountEdit, accountId: string];
+  schedule_page: [page: string];
+  pick_schedule: [scheduleId: string];
+  confirm_remove_schedule: [scheduleId: string];
+}
+
+export type CallbackAction = keyof CallbackArgs;
+
+export interface CallbackPayload<A extends CallbackAction = CallbackAction> {
+  action: A;
+  args: CallbackArgs[A];
+}
+
+const MAX_CALLBACK_BYTES = 64;
+
+export const encodeCallback = <A extends CallbackAction>(
+  action: A,
+  ...args: CallbackArgs[A]
+): string => {
+  const data = [action, ...args].join(":");
+  if (Buffer.byteLength(data, "utf8") > MAX_CALLBACK_BYTES) {
+    throw new Error(`Callback data too long for action ${action}: ${data}`);
+  }
+  return data;
+};
+
+/**
+ * Splits raw callback_data into its action and arguments. The arguments are
+ * not validated here, each handler checks the ones it uses.
+ */
+export const parseCallback = (data: string | undefined): CallbackPayload | null => {
+  if (!data) return null;
+  const [action, ...args] = data.split(":");
+  if (!action) return null;
+  return { action: action as CallbackAction, args: args as any };
+};
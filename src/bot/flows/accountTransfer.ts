@@ -0,0 +1,235 @@
+import mongoose from "mongoose";
+import Account, { EMAIL_COLLATION } from "../../models/accountSchema";
+import {
+  AccountFileFormat,
+  detectFormat,
+  exportAccounts,
+  formatRowResult,
+  ImportRow,
+  MAX_IMPORT_BYTES,
+  MAX_IMPORT_ROWS,
+  parseAccountFile,
+  REDACTED,
+  RowResult,
+} from "../accountFile";
+import { bot } from "../bot";
+import { cancelOptions, clearInlineKeyboard, showMainMenu } from "../menu";
+import { BotContext, BotFlow } from "../router";
+import { clearUserState, setUserState, STATES } from "../states";
+import { getMembership, Membership } from "../workspaces";
+
+// Telegram rejects longer messages, bigger reports are sent as a file
+const MAX_REPORT_LENGTH = 3500;
+
+const startImport = async (chatId: number, userId: string, messageId?: number) => {
+  await setUserState(userId, STATES.IMPORTING_ACCOUNTS);
+
+  await clearInlineKeyboard(chatId, messageId);
+
+  await bot.sendMessage(
+    chatId,
+    `📥 Import accounts\n\n` +
+    `Send a .csv or .json file with up to ${MAX_IMPORT_ROWS} accounts. A CSV needs a header row:\n\n` +
+    `email,password,modules,status,firstName,lastName\n` +
+    `priya@example.com,welcome123,read;write,active,Priya,Sharma\n\n` +
+    `modules lists read, hear, write and speak, status is active or inactive (active if left out). ` +
+    `JSON is a list of objects with the same fields.\n\n` +
+    `A file from /export works too once its ${REDACTED} passwords are filled in.\n` +
+    `Or click Cancel to return to the main menu.`,
+    cancelOptions
+  );
+};
+
+const downloadDocument = async (fileId: string): Promise<string> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of bot.getFileStream(fileId)) {
+    size += chunk.length;
+    if (size > MAX_IMPORT_BYTES) {
+      throw new Error(`File is larger than ${MAX_IMPORT_BYTES / 1024} KB`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+};
+
+const importRow = async (
+  row: ImportRow,
+  { user, workspace }: Membership
+): Promise<RowResult> => {
+  try {
+    await Account.create({
+      user: user._id,
+      workspace: workspace._id,
+      email: row.email,
+      password: row.password,
+      status: row.status,
+      modules: row.modules,
+      firstName: row.firstName,
+      lastName: row.lastName,
+    });
+    return { row: row.row, email: row.email, ok: true, message: "Added" };
+  } catch (error) {
+    if (error instanceof mongoose.Error.ValidationError) {
+      const problems = Object.values(error.errors).map((err) => err.message);
+      return { row: row.row, email: row.email, ok: false, message: problems.join(", ") };
+    }
+    console.error(`Error importing account from row ${row.row}:`, error);
+    return { row: row.row, email: row.email, ok: false, message: "Could not be saved, try again" };
+  }
+};
+
+const sendImportReport = async (chatId: number, results: RowResult[]) => {
+  const added = results.filter((result) => result.ok).length;
+  const summary =
+    `📥 Import finished: ${added} added, ${results.length - added} skipped` +
+    (added > 0 ? `\nAdded accounts need a candidate profile before they can book.` : "");
+  const lines = results
+    .sort((a, b) => a.row - b.row)
+    .map(formatRowResult)
+    .join("\n");
+
+  const report = `${summary}\n\n${lines}`;
+  if (report.length <= MAX_REPORT_LENGTH) {
+    await bot.sendMessage(chatId, report);
+    return;
+  }
+
+  await bot.sendDocument(
+    chatId,
+    Buffer.from(report + "\n", "utf8"),
+    { caption: summary },
+    { filename: "import-report.txt", contentType: "text/plain" }
+  );
+};
+
+const handleImportMessage = async ({ chatId, userId, message }: BotContext) => {
+  const document = message?.document;
+  if (!document) {
+    await bot.sendMessage(
+      chatId,
+      "Please send the accounts as a .csv or .json file, or click Cancel to return to the main menu."
+    );
+    return;
+  }
+
+  const format = detectFormat(document.file_name, document.mime_type);
+  if (!format) {
+    await bot.sendMessage(chatId, "❌ Only .csv and .json files can be imported.");
+    return;
+  }
+  if ((document.file_size || 0) > MAX_IMPORT_BYTES) {
+    await bot.sendMessage(
+      chatId,
+      `❌ The file is larger than ${MAX_IMPORT_BYTES / 1024} KB. Please split it up.`
+    );
+    return;
+  }
+
+  let content: string;
+  try {
+    content = await downloadDocument(document.file_id);
+  } catch (error) {
+    console.error("Error downloading import file:", error);
+    await bot.sendMessage(
+      chatId,
+      `❌ Couldn't read the file: ${(error as Error).message}. Please send it again.`
+    );
+    return;
+  }
+
+  const parsed = parseAccountFile(content, format);
+  if ("error" in parsed) {
+    await bot.sendMessage(chatId, `❌ ${parsed.error}. Please fix the file and send it again.`);
+    return;
+  }
+
+  const membership = (await getMembership(userId))!;
+  await clearUserState(userId);
+  await bot.sendMessage(chatId, `⏳ Importing ${parsed.rows.length} account(s)...`);
+
+  // Same check as adding a single account
+  const existing = await Account.find({
+    email: { $in: parsed.rows.map((row) => row.email) },
+  })
+    .collation(EMAIL_COLLATION)
+    .select("email");
+  const taken = new Set(existing.map((account) => account.email.toLowerCase()));
+
+  const results: RowResult[] = [...parsed.problems];
+  for (const row of parsed.rows) {
+    if (taken.has(row.email.toLowerCase())) {
+      results.push({
+        row: row.row,
+        email: row.email,
+        ok: false,
+        message: "An account with this email already exists",
+      });
+      continue;
+    }
+    results.push(await importRow(row, membership));
+  }
+
+  await sendImportReport(chatId, results);
+  showMainMenu(chatId, "What would you like to do next?");
+};
+
+const handleExport = async ({ chatId, userId }: BotContext, formatArg?: string) => {
+  const format = (formatArg || "csv").trim().toLowerCase();
+  if (format !== "csv" && format !== "json") {
+    await bot.sendMessage(chatId, "❌ Usage: /export [csv|json]");
+    return;
+  }
+
+  const { workspace } = (await getMembership(userId))!;
+  const accounts = await Account.find({ workspace: workspace._id }).sort({ createdAt: 1 });
+  if (accounts.length === 0) {
+    await bot.sendMessage(chatId, "❌ Your workspace has no accounts to export.");
+    return;
+  }
+
+  const date = new Date().toISOString().slice(0, 10);
+  await bot.sendDocument(
+    chatId,
+    Buffer.from(exportAccounts(accounts, format as AccountFileFormat), "utf8"),
+    {
+      caption:
+        `📤 ${accounts.length} account(s) from ${workspace.name}. Passwords are redacted, ` +
+        `fill them in before importing the file somewhere else.`,
+    },
+    {
+      filename: `accounts-${date}.${format}`,
+      contentType: format === "csv" ? "text/csv" : "application/json",
+    }
+  );
+};
+
+export const accountTransferFlow: BotFlow = {
+  name: "accountTransfer",
+  // Importing adds accounts, exports are redacted so operators may take one
+  access: "owner",
+  commands: [
+    { command: "import", handler: (ctx) => startImport(ctx.chatId, ctx.userId) },
+    { command: "export", argument: "optional", access: "operator", handler: handleExport },
+  ],
+  callbacks: [
+    {
+      action: "import_accounts",
+      states: [STATES.IDLE],
+      handler: (ctx) => startImport(ctx.chatId, ctx.userId, ctx.messageId),
+    },
+    {
+      action: "export_accounts",
+      states: [STATES.IDLE],
+      access: "operator",
+      handler: async (ctx) => {
+        await clearInlineKeyboard(ctx.chatId, ctx.messageId);
+        await handleExport(ctx);
+        await showMainMenu(ctx.chatId, "What would you like to do next?");
+      },
+    },
+  ],
+  messages: [{ state: STATES.IMPORTING_ACCOUNTS, handler: handleImportMessage }],
+  // Printed by the import prompt
+  advertises: ["export"],
+};
@@ -0,0 +1,1085 @@
+import mongoose from "mongoose";
+import Account, {
+  AccountDocument,
+  EMAIL_COLLATION,
+  isValidEmail,
+  PHONE_COUNTRY_CODE_REGEX,
+  PHONE_NUMBER_REGEX,
+  validateDateOfBirth,
+  validatePassword,
+} from "../../models/accountSchema";
+import { encryptSecret } from "../../security/encryption";
+import { bot } from "../bot";
+import {
+  ACCOUNT_EDITS,
+  AccountEdit,
+  encodeCallback,
+  MODULE_NAMES,
+  ModuleName,
+} from "../callbacks";
+import { cancelOptions, clearInlineKeyboard, showMainMenu } from "../menu";
+import { paginate, pickerKeyboard, pickerLabel, showPicker } from "../picker";
+import { BotContext, BotFlow } from "../router";
+import { clearUserState, getUserState, setUserState, STATES } from "../states";
+import { getMembership } from "../workspaces";
+
+const startAddAccount = async (
+  chatId: number,
+  userId: string,
+  messageId: number
+) => {
+  await setUserState(userId, STATES.ADDING_ACCOUNT);
+
+  await clearInlineKeyboard(chatId, messageId);
+
+  await bot.sendMessage(
+    chatId,
+    `Please provide your account details in the following format:\n\nemail:password\n\nExample:\njohn.doe@example.com:welcome123\n\nOr click Cancel to return to the main menu.`,
+    cancelOptions
+  );
+};
+
+const handleAddAccountMessage = async (
+  chatId: number,
+  userId: string,
+  text: string | undefined
+) => {
+  if (!text) return;
+
+  const entry = text.trim();
+  const fields = entry.split(":");
+
+  if (fields.length !== 2) {
+    await bot.sendMessage(
+      chatId,
+      "Invalid format. Please ensure your entry follows the specified format:\nemail:password"
+    );
+    return;
+  }
+
+  const [email, password] = fields.map((field) => field.trim());
+
+  if (!password) {
+    await bot.sendMessage(
+      chatId,
+      "All fields are required. Please provide: email:password"
+    );
+    return;
+  }
+  if (!isValidEmail(email)) {
+    await bot.sendMessage(
+      chatId,
+      "Invalid email format. Please provide a valid email address."
+    );
+    return;
+  }
+  // Encrypted below, which the model's password check lets through
+  const invalid = validatePassword(password);
+  if (invalid) {
+    await bot.sendMessage(chatId, `❌ ${invalid}. Please send email:password again.`);
+    return;
+  }
+
+  try {
+    const existingAccount = await Account.findOne({ email }).collation(EMAIL_COLLATION);
+    if (existingAccount) {
+      await bot.sendMessage(
+        chatId,
+        "An account with this email already exists. Please use a different email."
+      );
+      return;
+    }
+
+    // Conversation state is persisted, so never keep the password in plaintext
+    await setUserState(userId, STATES.SELECTING_MODULES, {
+      email,
+      password: encryptSecret(password),
+      modules: {
+        read: false,
+        hear: false,
+        write: false,
+        speak: false,
+      },
+    });
+
+    await showModuleSelection(chatId, userId);
+  } catch (error) {
+    console.error("Error checking existing account:", error);
+    await bot.sendMessage(chatId, "❌ There was an error. Please try again.");
+  }
+};
+
+const showModuleSelection = async (chatId: number, userId: string) => {
+  const userState = await getUserState(userId);
+  const modules = userState.modules || {
+    read: false,
+    hear: false,
+    write: false,
+    speak: false,
+  };
+
+  const moduleButtons = [
+    [
+      {
+        text: `📖 Read ${modules.read ? "✅" : "❌"}`,
+        callback_data: encodeCallback("toggle_module", "read"),
+      },
+      {
+        text: `👂 Hear ${modules.hear ? "✅" : "❌"}`,
+        callback_data: encodeCallback("toggle_module", "hear"),
+      },
+    ],
+    [
+      {
+        text: `✏️ Write ${modules.write ? "✅" : "❌"}`,
+        callback_data: encodeCallback("toggle_module", "write"),
+      },
+      {
+        text: `🗣️ Speak ${modules.speak ? "✅" : "❌"}`,
+        callback_data: encodeCallback("toggle_module", "speak"),
+      },
+    ],
+    [
+      { text: "✅ Confirm Selection", callback_data: encodeCallback("confirm_modules") },
+      { text: "Cancel", callback_data: encodeCallback("cancel") },
+    ],
+  ];
+
+  const selectedCount = Object.values(modules).filter(Boolean).length;
+  const moduleStatus =
+    selectedCount > 0
+      ? `\n\n🎯 Selected modules: ${selectedCount}/4`
+      : "\n\n⚠️ No modules selected yet";
+
+  await bot.sendMessage(
+    chatId,
+    `🔧 **Module Selection**\n\nPlease select the modules you want to enable for this account:${moduleStatus}\n\n` +
+    `📖 **Read** - Enable reading capabilities\n` +
+    `👂 **Hear** - Enable hearing capabilities\n` +
+    `✏️ **Write** - Enable writing capabilities\n` +
+    `🗣️ **Speak** - Enable speaking capabilities\n\n` +
+    `Click the modules to toggle them on/off, then click "Confirm Selection" when ready.`,
+    {
+      parse_mode: "Markdown",
+      reply_markup: {
+        inline_keyboard: moduleButtons,
+      },
+    }
+  );
+};
+
+const handleModuleToggle = async (
+  chatId: number,
+  userId: string,
+  module: ModuleName
+) => {
+  if (!MODULE_NAMES.includes(module)) return;
+
+  const userState = await getUserState(userId);
+  const modules = { ...userState.modules };
+  modules[module] = !modules[module];
+
+  await setUserState(userId, STATES.SELECTING_MODULES, {
+    ...userState,
+    modules,
+  });
+
+  await showModuleSelection(chatId, userId);
+};
+
+const handleModuleSelectionMessage = async (
+  chatId: number,
+  userId: string,
+  text: string | undefined
+) => {
+  await bot.sendMessage(
+    chatId,
+    "Please use the buttons above to select modules, or click Cancel to return to the main menu."
+  );
+};
+
+const createAccountWithModules = async (
+  chatId: number,
+  userId: string,
+  userState: any
+) => {
+  try {
+    const membership = await getMembership(userId);
+    if (!membership) {
+      throw new Error(`No user with Telegram id ${userId}`);
+    }
+    const { user, workspace } = membership;
+
+    const { modules } = userState;
+
+    const newAccount = await Account.create({
+      user: user._id,
+      workspace: workspace._id,
+      email: userState.email,
+      password: userState.password,
+      status: true,
+      modules: {
+        read: modules.read,
+        hear: modules.hear,
+        write: modules.write,
+        speak: modules.speak,
+      },
+    });
+
+    await clearUserState(userId);
+
+    const enabledModules = Object.entries(modules)
+      .filter(([_, enabled]) => enabled)
+      .map(([module, _]) => module)
+      .join(", ");
+
+    const modulesList = enabledModules || "None";
+
+    await bot.sendMessage(
+      chatId,
+      `✅ Successfully created account!\n\n` +
+      `📧 Email: ${userState.email}\n` +
+      `🔧 Enabled Modules: ${modulesList}`
+    );
+
+    // The checkout forms need the candidate's details, collect them now
+    await startProfileWizard(chatId, userId, newAccount);
+  } catch (error) {
+    console.error("Error saving account:", error);
+    await clearUserState(userId);
+    await bot.sendMessage(
+      chatId,
+      "❌ There was an error saving your account. Please try again."
+    );
+    showMainMenu(chatId);
+  }
+};
+
+const viewAccounts = async (
+  chatId: number,
+  userId: string,
+  messageId: number
+) => {
+  try {
+    await clearInlineKeyboard(chatId, messageId);
+    await bot.sendMessage(
+      chatId,
+      "🔍 Getting your accounts from the database, please wait..."
+    );
+
+    const membership = await getMembership(userId);
+    if (!membership) {
+      await bot.sendMessage(
+        chatId,
+        "❌ User not found. Please start with /start command."
+      );
+      return;
+    }
+    const { workspace } = membership;
+
+    const accounts = await Account.find({ workspace: workspace._id });
+
+    if (accounts && accounts.length > 0) {
+      const accountList = accounts
+        .map((account, index) => {
+          let modules: string[] = [];
+          if (account.modules?.hear) modules.push("hear");
+          if (account.modules?.read) modules.push("read");
+          if (account.modules?.write) modules.push("write");
+          if (account.modules?.speak) modules.push("speak");
+          const enabledModules = modules.length ? modules.join(", ") : "None";
+          const status = account.status ? "✅ Active" : "❌ Inactive";
+          const profile = account.hasCompleteProfile
+            ? `✅ ${account.firstName} ${account.lastName}`
+            : "⚠️ Incomplete";
+
+          return (
+            `${index + 1}. **ID:** \`${account._id}\`\n` +
+            `   📧 **Email:** ${account.email}\n` +
+            `   🔧 **Modules:** ${enabledModules}\n` +
+            `   📌 **Status:** ${status}\n` +
+            `   👤 **Profile:** ${profile}\n`
+          );
+        })
+        .join("\n");
+
+      await bot.sendMessage(
+        chatId,
+        `📋 **Accounts in ${workspace.name}:**\n\n${accountList}`,
+        {
+          parse_mode: "Markdown",
+        }
+      );
+    } else {
+      await bot.sendMessage(chatId, "❌ Your workspace has no accounts yet.");
+    }
+
+    await showMainMenu(chatId, "What would you like to do next?");
+  } catch (error) {
+    console.error("Error viewing accounts:", error);
+    await bot.sendMessage(
+      chatId,
+      "❌ There was an error retrieving your accounts. Please try again."
+    );
+    showMainMenu(chatId);
+  }
+};
+
+type AccountPickerState =
+  | typeof STATES.REMOVING_ACCOUNT
+  | typeof STATES.TOGGLING_ACCOUNT
+  | typeof STATES.SELECTING_PROFILE_ACCOUNT
+  | typeof STATES.EDITING_ACCOUNT;
+
+// The state the picker was opened in decides what picking an account does
+const ACCOUNT_PICKER_TITLES: Record<AccountPickerState, string> = {
+  [STATES.REMOVING_ACCOUNT]: "🗑️ Choose the account you wish to remove:",
+  [STATES.TOGGLING_ACCOUNT]: "⚡ Choose the account you wish to toggle (enable/disable):",
+  [STATES.SELECTING_PROFILE_ACCOUNT]:
+    "👤 Choose the account whose candidate profile you want to edit:",
+  [STATES.EDITING_ACCOUNT]: "✏️ Choose the account you want to edit:",
+};
+
+const ACCOUNT_PICKER_STATES = Object.keys(ACCOUNT_PICKER_TITLES) as AccountPickerState[];
+
+const startAccountPicker = async (
+  chatId: number,
+  userId: string,
+  messageId: number,
+  state: AccountPickerState
+) => {
+  await setUserState(userId, state);
+
+  await clearInlineKeyboard(chatId, messageId);
+
+  await showAccountPicker(chatId, userId, 0);
+};
+
+const showAccountPicker = async (
+  chatId: number,
+  userId: string,
+  page: number,
+  messageId?: number
+) => {
+  const { state } = await getUserState(userId);
+  // Only members with a role get here, so the user exists
+  const { workspace } = (await getMembership(userId))!;
+
+  const accounts = await Account.find({ workspace: workspace._id })
+    .select("email status")
+    .sort({ email: 1 });
+
+  if (accounts.length === 0) {
+    await clearUserState(userId);
+    await clearInlineKeyboard(chatId, messageId);
+    await bot.sendMessage(chatId, "❌ Your workspace has no accounts yet.");
+    showMainMenu(chatId, "What would you like to do next?");
+    return;
+  }
+
+  const current = paginate(accounts, page);
+  const keyboard = pickerKeyboard(
+    current,
+    (account) => ({
+      text: pickerLabel(`${account.status ? "🟢" : "🔴"} ${account.email}`),
+      callback_data: encodeCallback("pick_account", String(account._id)),
+    }),
+    (target) => encodeCallback("account_page", String(target))
+  );
+
+  const pageInfo =
+    current.pageCount > 1
+      ? `Page ${current.page + 1} of ${current.pageCount} (${accounts.length} accounts)\n\n`
+      : "";
+
+  await showPicker(
+    chatId,
+    `${ACCOUNT_PICKER_TITLES[state as AccountPickerState]}\n\n${pageInfo}` +
+    `Or click Cancel to return to the main menu.`,
+    keyboard,
+    messageId
+  );
+};
+
+// Button data can be stale or forged, so the id is checked again
+const findWorkspaceAccount = async (userId: string, accountId: string) => {
+  if (!mongoose.Types.ObjectId.isValid(accountId)) return null;
+
+  const { workspace } = (await getMembership(userId))!;
+  return Account.findOne({ _id: accountId, workspace: workspace._id });
+};
+
+const handlePickAccount = async (
+  { chatId, userId, messageId }: BotContext,
+  accountId: string
+) => {
+  const account = await findWorkspaceAccount(userId, accountId);
+  if (!account) {
+    await bot.sendMessage(chatId, "❌ That account isn't in your workspace anymore.");
+    await showAccountPicker(chatId, userId, 0, messageId);
+    return;
+  }
+
+  const { state } = await getUserState(userId);
+  if (state === STATES.REMOVING_ACCOUNT) {
+    await confirmRemoveAccount(chatId, account, messageId);
+    return;
+  }
+  if (state === STATES.EDITING_ACCOUNT) {
+    await showAccountDetail(chatId, account, messageId);
+    return;
+  }
+
+  await clearInlineKeyboard(chatId, messageId);
+  if (state === STATES.TOGGLING_ACCOUNT) {
+    await toggleAccount(chatId, userId, account);
+  } else {
+    await startProfileWizard(chatId, userId, account);
+  }
+};
+
+const handlePickerMessage = async (chatId: number) => {
+  await bot.sendMessage(
+    chatId,
+    "Please pick an account with the buttons above, or click Cancel to return to the main menu."
+  );
+};
+
+const confirmRemoveAccount = async (
+  chatId: number,
+  account: AccountDocument,
+  messageId?: number
+) => {
+  await showPicker(
+    chatId,
+    `🗑️ Remove ${account.email}?\n\n` +
+    `Its login and candidate profile are deleted, schedules won't book with it anymore.`,
+    [
+      [
+        {
+          text: "🗑️ Yes, remove it",
+          callback_data: encodeCallback("confirm_remove_account", String(account._id)),
+        },
+      ],
+      [{ text: "◀️ Back", callback_data: encodeCallback("account_page", "0") }],
+      [{ text: "Cancel", callback_data: encodeCallback("cancel") }],
+    ],
+    messageId
+  );
+};
+
+const removeAccount = async (
+  { chatId, userId, messageId }: BotContext,
+  accountId: string
+) => {
+  try {
+    await clearInlineKeyboard(chatId, messageId);
+
+    const account = await findWorkspaceAccount(userId, accountId);
+    if (!account) {
+      await clearUserState(userId);
+      await bot.sendMessage(
+        chatId,
+        "❌ Account not found in your workspace. It may already be removed."
+      );
+      showMainMenu(chatId);
+      return;
+    }
+
+    await Account.deleteOne({ _id: account._id });
+
+    await clearUserState(userId);
+    await bot.sendMessage(
+      chatId,
+      `✅ Successfully removed account: ${account.email}`
+    );
+    showMainMenu(chatId, "What would you like to do next?");
+  } catch (error) {
+    console.error("Error removing account:", error);
+    await clearUserState(userId);
+    await bot.sendMessage(
+      chatId,
+      "❌ There was an error removing the account. Please try again."
+    );
+    showMainMenu(chatId);
+  }
+};
+
+const toggleAccount = async (
+  chatId: number,
+  userId: string,
+  account: AccountDocument
+) => {
+  try {
+    account.status = !account.status;
+    await account.save();
+
+    const statusText = account.status ? "🟢 enabled" : "🔴 disabled";
+    await clearUserState(userId);
+    await bot.sendMessage(
+      chatId,
+      `✅ Successfully ${statusText} the account: ${account.email}`
+    );
+    showMainMenu(chatId, "What would you like to do next?");
+  } catch (error) {
+    console.error("Error toggling account status:", error);
+    await clearUserState(userId);
+    await bot.sendMessage(
+      chatId,
+      "❌ There was an error toggling the account status. Please try again."
+    );
+    showMainMenu(chatId);
+  }
+};
+
+const showAccountDetail = async (
+  chatId: number,
+  account: AccountDocument,
+  messageId?: number,
+  notice?: string
+) => {
+  const id = String(account._id);
+  const modules = MODULE_NAMES.filter((name) => account.modules?.[name]);
+  const profile = account.hasCompleteProfile
+    ? `✅ ${account.firstName} ${account.lastName}`
+    : "⚠️ Incomplete";
+
+  await showPicker(
+    chatId,
+    (notice ? `${notice}\n\n` : "") +
+    `✏️ ${account.email}\n\n` +
+    `📌 Status: ${account.status ? "✅ Active" : "❌ Inactive"}\n` +
+    `🔧 Modules: ${modules.length ? modules.join(", ") : "None"}\n` +
+    `👤 Profile: ${profile}\n\n` +
+    `What would you like to change?`,
+    [
+      [
+        { text: "🔧 Modules", callback_data: encodeCallback("account_edit", "modules", id) },
+        { text: "🔑 Password", callback_data: encodeCallback("account_edit", "password", id) },
+      ],
+      [
+        {
+          text: account.status ? "🔴 Disable" : "🟢 Enable",
+          callback_data: encodeCallback("account_edit", "status", id),
+        },
+        {
+          text: "👤 Candidate profile",
+          callback_data: encodeCallback("account_edit", "profile", id),
+        },
+      ],
+      [{ text: "◀️ Back", callback_data: encodeCallback("account_page", "0") }],
+      [{ text: "Cancel", callback_data: encodeCallback("cancel") }],
+    ],
+    messageId
+  );
+};
+
+/**
+ * Saves an edited account. Validation problems are returned as a list for
+ * the user, anything else is thrown.
+ */
+const saveAccount = async (account: AccountDocument): Promise<string | null> => {
+  try {
+    await account.save();
+    return null;
+  } catch (error) {
+    if (error instanceof mongoose.Error.ValidationError) {
+      return Object.values(error.errors)
+        .map((err) => `• ${err.message}`)
+        .join("\n");
+    }
+    throw error;
+  }
+};
+
+const handleAccountEdit = async (
+  { chatId, userId, messageId }: BotContext,
+  edit: AccountEdit,
+  accountId: string
+) => {
+  if (!ACCOUNT_EDITS.includes(edit)) return;
+
+  const account = await findWorkspaceAccount(userId, accountId);
+  if (!account) {
+    await bot.sendMessage(chatId, "❌ That account isn't in your workspace anymore.");
+    await showAccountPicker(chatId, userId, 0, messageId);
+    return;
+  }
+
+  if (edit === "status") {
+    account.status = !account.status;
+    const problems = await saveAccount(account);
+    if (problems) account.status = !account.status;
+    await showAccountDetail(
+      chatId,
+      account,
+      messageId,
+      problems
+        ? `❌ The account could not be saved:\n${problems}`
+        : `✅ Account ${account.status ? "🟢 enabled" : "🔴 disabled"}.`
+    );
+    return;
+  }
+
+  await clearInlineKeyboard(chatId, messageId);
+
+  if (edit === "modules") {
+    await setUserState(userId, STATES.SELECTING_MODULES, {
+      accountId,
+      modules: {
+        read: Boolean(account.modules?.read),
+        hear: Boolean(account.modules?.hear),
+        write: Boolean(account.modules?.write),
+        speak: Boolean(account.modules?.speak),
+      },
+    });
+    await showModuleSelection(chatId, userId);
+  } else if (edit === "password") {
+    await setUserState(userId, STATES.CHANGING_PASSWORD, { accountId });
+    await bot.sendMessage(
+      chatId,
+      `🔑 Send the new password for ${account.email}.\n\n` +
+      `Your message is deleted from the chat once it's read. Or click Cancel to return to the main menu.`,
+      cancelOptions
+    );
+  } else {
+    await startProfileWizard(chatId, userId, account);
+  }
+};
+
+const updateAccountModules = async (
+  chatId: number,
+  userId: string,
+  userState: any
+) => {
+  const account = await findWorkspaceAccount(userId, userState.accountId);
+  if (!account) {
+    await clearUserState(userId);
+    await bot.sendMessage(chatId, "❌ Account not found. It may have been removed.");
+    showMainMenu(chatId);
+    return;
+  }
+
+  const { modules } = userState;
+  account.modules = {
+    read: modules.read,
+    hear: modules.hear,
+    write: modules.write,
+    speak: modules.speak,
+  };
+
+  const problems = await saveAccount(account);
+  await setUserState(userId, STATES.EDITING_ACCOUNT);
+  await showAccountDetail(
+    chatId,
+    account,
+    undefined,
+    problems
+      ? `❌ The modules could not be saved:\n${problems}`
+      : "✅ Modules updated. Schedules use them from their next run."
+  );
+};
+
+const handleChangePasswordMessage = async ({
+  chatId,
+  userId,
+  text,
+  message,
+}: BotContext) => {
+  if (!text) return;
+
+  // Don't leave the password in the chat history
+  if (message) {
+    await bot.deleteMessage(chatId, message.message_id).catch((error) => {
+      console.error("Error deleting password message:", error);
+    });
+  }
+
+  const invalid = validatePassword(text);
+  if (invalid) {
+    await bot.sendMessage(chatId, `❌ ${invalid}. Please send another password.`);
+    return;
+  }
+
+  const userState = await getUserState(userId);
+  const account = await findWorkspaceAccount(userId, userState.accountId);
+  if (!account) {
+    await clearUserState(userId);
+    await bot.sendMessage(chatId, "❌ Account not found. It may have been removed.");
+    showMainMenu(chatId);
+    return;
+  }
+
+  // Encrypted by the model before it is stored
+  account.password = text;
+  const problems = await saveAccount(account);
+  if (problems) {
+    await bot.sendMessage(
+      chatId,
+      `❌ The password could not be saved:\n${problems}\n\nPlease send another password.`
+    );
+    return;
+  }
+
+  await setUserState(userId, STATES.EDITING_ACCOUNT);
+  await showAccountDetail(
+    chatId,
+    account,
+    undefined,
+    "✅ Password changed. Schedules use it from their next login."
+  );
+};
+
+interface ProfileStep {
+  path: string;
+  label: string;
+  prompt: string;
+  example: string;
+  current: (account: AccountDocument) => string | undefined;
+  parse: (text: string) => { value: any } | { error: string };
+}
+
+const requireText =
+  (label: string, maxLength: number) =>
+    (text: string): { value: any } | { error: string } => {
+      if (!text) return { error: `${label} cannot be empty.` };
+      if (text.length > maxLength) {
+        return { error: `${label} must be at most ${maxLength} characters.` };
+      }
+      return { value: text };
+    };
+
+const profileSteps: ProfileStep[] = [
+  {
+    path: "firstName",
+    label: "First name",
+    prompt: "👤 Enter the candidate's first name exactly as on the passport:",
+    example: "Priya",
+    current: (account) => account.firstName,
+    parse: requireText("First name", 100),
+  },
+  {
+    path: "lastName",
+    label: "Last name",
+    prompt: "👤 Enter the candidate's last name:",
+    example: "Sharma",
+    current: (account) => account.lastName,
+    parse: requireText("Last name", 100),
+  },
+  {
+    path: "details.dob",
+    label: "Date of birth",
+    prompt: "🎂 Enter the date of birth as DD.MM.YYYY:",
+    example: "04.11.1998",
+    current: (account) => {
+      const dob = account.details?.dob;
+      if (!dob?.day || !dob?.month || !dob?.year) return undefined;
+      return `${String(dob.day).padStart(2, "0")}.${String(dob.month).padStart(2, "0")}.${dob.year}`;
+    },
+    parse: (text) => {
+      const match = text.match(/^(\d{1,2})[./-](\d{1,2})[./-](\d{4})$/);
+      if (!match) return { error: "Invalid format. Please use DD.MM.YYYY" };
+
+      const [day, month, year] = match.slice(1).map(Number);
+      const error = validateDateOfBirth(day, month, year);
+      if (error) return { error: `${error}.` };
+
+      return { value: { day, month, year } };
+    },
+  },
+  {
+    path: "details.address.street",
+    label: "Street",
+    prompt: "🏠 Enter the street name:",
+    example: "MG Road",
+    current: (account) => account.details?.address?.street,
+    parse: requireText("Street", 200),
+  },
+  {
+    path: "details.address.houseNo",
+    label: "House number",
+    prompt: "🏠 Enter the house number:",
+    example: "12B",
+    current: (account) => account.details?.address?.houseNo,
+    parse: requireText("House number", 20),
+  },
+  {
+    path: "details.address.postalCode",
+    label: "Postal code",
+    prompt: "📮 Enter the postal code:",
+    example: "400001",
+    current: (account) => account.details?.address?.postalCode,
+    parse: (text) =>
+      /^[A-Za-z0-9 -]{3,10}$/.test(text)
+        ? { value: text }
+        : { error: "Invalid postal code." },
+  },
+  {
+    path: "details.address.city",
+    label: "City",
+    prompt: "🏙️ Enter the city (also used as place of birth):",
+    example: "Mumbai",
+    current: (account) => account.details?.address?.city,
+    parse: requireText("City", 100),
+  },
+  {
+    path: "details.phone",
+    label: "Phone",
+    prompt: "📱 Enter the mobile number with country code:",
+    example: "+91 9876543210",
+    current: (account) => {
+      const phone = account.details?.phone;
+      if (!phone?.countryCode || !phone?.number) return undefined;
+      return `${phone.countryCode} ${phone.number}`;
+    },
+    parse: (text) => {
+      const [countryCode, ...rest] = text.split(/\s+/);
+      const number = rest.join("").replace(/[-()]/g, "");
+
+      if (!PHONE_COUNTRY_CODE_REGEX.test(countryCode)) {
+        return {
+          error: "Invalid country code. Start with + followed by 1-4 digits, e.g. +91 9876543210",
+        };
+      }
+      if (!PHONE_NUMBER_REGEX.test(number)) {
+        return { error: "Invalid phone number. It must contain 6-14 digits." };
+      }
+
+      return { value: { countryCode, number } };
+    },
+  },
+];
+
+const startProfileWizard = async (
+  chatId: number,
+  userId: string,
+  account: AccountDocument
+) => {
+  await setUserState(userId, STATES.EDITING_PROFILE, {
+    accountId: account._id!.toString(),
+    step: 0,
+    profile: {},
+  });
+
+  await bot.sendMessage(
+    chatId,
+    `👤 Candidate Profile for ${account.email}\n\n` +
+    `The booking forms need the candidate's name, date of birth, address and phone. ` +
+    `I'll ask for each field in turn.\n\n` +
+    `Send - to keep a field's current value, or click Cancel to stop (nothing is saved until the last step).`
+  );
+
+  await showProfileStep(chatId, 0, account);
+};
+
+const showProfileStep = async (
+  chatId: number,
+  stepIndex: number,
+  account: AccountDocument
+) => {
+  const step = profileSteps[stepIndex];
+  const current = step.current(account);
+
+  await bot.sendMessage(
+    chatId,
+    `(${stepIndex + 1}/${profileSteps.length}) ${step.prompt}\n\n` +
+    `Example: ${step.example}` +
+    (current ? `\nCurrent: ${current} (send - to keep)` : ""),
+    {
+      reply_markup: {
+        inline_keyboard: [[{ text: "Cancel", callback_data: encodeCallback("cancel") }]],
+      },
+    }
+  );
+};
+
+const handleProfileStepMessage = async (
+  chatId: number,
+  userId: string,
+  text: string | undefined
+) => {
+  if (!text) return;
+
+  const userState = await getUserState(userId);
+  const account = await findWorkspaceAccount(userId, userState.accountId);
+  if (!account) {
+    await clearUserState(userId);
+    await bot.sendMessage(chatId, "❌ Account not found. It may have been removed.");
+    showMainMenu(chatId);
+    return;
+  }
+
+  const step = profileSteps[userState.step];
+  const input = text.trim();
+  const profile = { ...userState.profile };
+
+  if (input === "-") {
+    if (!step.current(account)) {
+      await bot.sendMessage(
+        chatId,
+        `❌ ${step.label} has no current value yet. Please enter one.`
+      );
+      return;
+    }
+  } else {
+    const parsed = step.parse(input);
+    if ("error" in parsed) {
+      await bot.sendMessage(chatId, `❌ ${parsed.error}`);
+      return;
+    }
+    profile[step.path] = parsed.value;
+  }
+
+  const nextStep = userState.step + 1;
+  if (nextStep < profileSteps.length) {
+    await setUserState(userId, STATES.EDITING_PROFILE, {
+      ...userState,
+      step: nextStep,
+      profile,
+    });
+    await showProfileStep(chatId, nextStep, account);
+    return;
+  }
+
+  await saveProfile(chatId, userId, account, profile);
+};
+
+const saveProfile = async (
+  chatId: number,
+  userId: string,
+  account: AccountDocument,
+  profile: Record<string, any>
+) => {
+  for (const [path, value] of Object.entries(profile)) {
+    account.set(path, value);
+  }
+
+  const problems = await saveAccount(account);
+  if (problems) {
+    await clearUserState(userId);
+    await bot.sendMessage(
+      chatId,
+      `❌ The profile could not be saved:\n${problems}\n\nPlease start again from "Candidate profile".`
+    );
+    showMainMenu(chatId);
+    return;
+  }
+
+  await clearUserState(userId);
+
+  const summary = profileSteps
+    .map((step) => `• ${step.label}: ${step.current(account) || "—"}`)
+    .join("\n");
+
+  await bot.sendMessage(
+    chatId,
+    `✅ Candidate profile saved for ${account.email}\n\n${summary}`
+  );
+  showMainMenu(chatId, "What would you like to do next?");
+};
+
+export const accountsFlow: BotFlow = {
+  name: "accounts",
+  // Candidate logins are managed by owners, operators may look at them
+  access: "owner",
+  callbacks: [
+    {
+      action: "add_account",
+      states: [STATES.IDLE],
+      handler: (ctx) => startAddAccount(ctx.chatId, ctx.userId, ctx.messageId!),
+    },
+    {
+      action: "view_accounts",
+      states: [STATES.IDLE],
+      access: "operator",
+      handler: (ctx) => viewAccounts(ctx.chatId, ctx.userId, ctx.messageId!),
+    },
+    {
+      action: "remove_account",
+      states: [STATES.IDLE],
+      handler: (ctx) =>
+        startAccountPicker(ctx.chatId, ctx.userId, ctx.messageId!, STATES.REMOVING_ACCOUNT),
+    },
+    {
+      action: "toggle_account",
+      states: [STATES.IDLE],
+      handler: (ctx) =>
+        startAccountPicker(ctx.chatId, ctx.userId, ctx.messageId!, STATES.TOGGLING_ACCOUNT),
+    },
+    {
+      action: "edit_profile",
+      states: [STATES.IDLE],
+      handler: (ctx) =>
+        startAccountPicker(ctx.chatId, ctx.userId, ctx.messageId!, STATES.SELECTING_PROFILE_ACCOUNT),
+    },
+    {
+      action: "edit_account",
+      states: [STATES.IDLE],
+      handler: (ctx) =>
+        startAccountPicker(ctx.chatId, ctx.userId, ctx.messageId!, STATES.EDITING_ACCOUNT),
+    },
+    {
+      action: "account_edit",
+      states: [STATES.EDITING_ACCOUNT],
+      handler: (ctx, { args: [edit, accountId] }) => handleAccountEdit(ctx, edit, accountId),
+    },
+    {
+      action: "account_page",
+      states: ACCOUNT_PICKER_STATES,
+      handler: (ctx, { args: [page] }) =>
+        showAccountPicker(ctx.chatId, ctx.userId, Number(page), ctx.messageId),
+    },
+    {
+      action: "pick_account",
+      states: ACCOUNT_PICKER_STATES,
+      handler: (ctx, { args: [accountId] }) => handlePickAccount(ctx, accountId),
+    },
+    {
+      action: "confirm_remove_account",
+      states: [STATES.REMOVING_ACCOUNT],
+      handler: (ctx, { args: [accountId] }) => removeAccount(ctx, accountId),
+    },
+    {
+      action: "toggle_module",
+      states: [STATES.SELECTING_MODULES],
+      handler: (ctx, { args: [module] }) =>
+        handleModuleToggle(ctx.chatId, ctx.userId, module),
+    },
+    {
+      action: "confirm_modules",
+      states: [STATES.SELECTING_MODULES],
+      handler: async (ctx) => {
+        const userState = await getUserState(ctx.userId);
+        // Set when the modules of an existing account are being edited
+        if (userState.accountId) {
+          await updateAccountModules(ctx.chatId, ctx.userId, userState);
+        } else {
+          await createAccountWithModules(ctx.chatId, ctx.userId, userState);
+        }
+      },
+    },
+  ],
+  messages: [
+    {
+      state: STATES.ADDING_ACCOUNT,
+      handler: (ctx) => handleAddAccountMessage(ctx.chatId, ctx.userId, ctx.text),
+    },
+    {
+      state: STATES.SELECTING_MODULES,
+      handler: (ctx) =>
+        handleModuleSelectionMessage(ctx.chatId, ctx.userId, ctx.text),
+    },
+    ...ACCOUNT_PICKER_STATES.map((state) => ({
+      state,
+      handler: (ctx: BotContext) => handlePickerMessage(ctx.chatId),
+    })),
+    {
+      state: STATES.CHANGING_PASSWORD,
+      handler: handleChangePasswordMessage,
+    },
+    {
+      state: STATES.EDITING_PROFILE,
+      handler: (ctx) => handleProfileStepMessage(ctx.chatId, ctx.userId, ctx.text),
+    },
+  ],
+};
@@ -0,0 +1,242 @@
+import User, { USER_ROLES, UserRole } from "../../models/userSchema";
+import Invite from "../../models/inviteSchema";
+import Workspace from "../../models/workspaceSchema";
+import { formatLocalAndUtc, isValidTimezone } from "../../utils/timezone";
+import { bot } from "../bot";
+import { showMainMenu } from "../menu";
+import {
+  INVITE_TTL_HOURS,
+  isUserRole,
+  OWNER_TELEGRAM_IDS,
+  ROLE_DESCRIPTIONS,
+} from "../roles";
+import { BotContext, BotFlow } from "../router";
+import { clearUserState, getUserState } from "../states";
+import { getMembership } from "../workspaces";
+
+const welcome = (chatId: number, username: string | undefined, role: UserRole, isNew: boolean) =>
+  showMainMenu(
+    chatId,
+    isNew
+      ? `Welcome ${username || "User"}! You joined as ${role} (${ROLE_DESCRIPTIONS[role]}).\n\nChoose an option:`
+      : `Welcome back, ${username || "User"}!\n\nChoose an option:`
+  );
+
+const handleStart = async (
+  { chatId, userId, username }: BotContext,
+  code?: string
+) => {
+  await clearUserState(userId);
+
+  try {
+    let user = await User.findOne({ telegramId: userId });
+    if (user?.role) {
+      await welcome(chatId, username, user.role, false);
+      return;
+    }
+
+    if (!user) {
+      user = new User({
+        telegramId: userId,
+        username: username || `user_${userId}`,
+      });
+    }
+
+    if (OWNER_TELEGRAM_IDS.has(userId)) {
+      user.role = "owner";
+      await user.save();
+      await welcome(chatId, username, "owner", true);
+      return;
+    }
+
+    if (!code) {
+      await bot.sendMessage(
+        chatId,
+        "🔒 This bot is invite-only. Ask an owner for an invite code and send /start <code>."
+      );
+      return;
+    }
+
+    // Saved first so the invite can point at the user
+    await user.save();
+    const invite = await Invite.redeem(code, user._id);
+    if (!invite) {
+      await bot.sendMessage(
+        chatId,
+        "❌ That invite code is unknown, already used or expired. Ask an owner for a new one."
+      );
+      return;
+    }
+
+    user.role = invite.role;
+    user.invitedBy = invite.createdBy;
+    await user.save();
+    if (invite.workspace) {
+      await Workspace.addMember(invite.workspace, user._id);
+    }
+    await welcome(chatId, username, invite.role, true);
+  } catch (error) {
+    console.error("Error in /start command:", error);
+    await bot.sendMessage(
+      chatId,
+      "Sorry, there was an error. Please try again."
+    );
+  }
+};
+
+const handleInvite = async ({ chatId, userId }: BotContext, roleArg?: string) => {
+  const role = (roleArg || "viewer").trim().toLowerCase();
+  if (!isUserRole(role)) {
+    await bot.sendMessage(
+      chatId,
+      `❌ Unknown role "${roleArg}". Use one of ${USER_ROLES.join(", ")}, e.g. /invite operator`
+    );
+    return;
+  }
+
+  const { user: owner, workspace } = (await getMembership(userId))!;
+  const invite = await Invite.create({
+    code: Invite.generateCode(),
+    role,
+    createdBy: owner._id,
+    workspace: workspace._id,
+    expiresAt: new Date(Date.now() + INVITE_TTL_HOURS * 60 * 60 * 1000),
+  });
+
+  await bot.sendMessage(
+    chatId,
+    `🎟️ Invite for a new ${role} (${ROLE_DESCRIPTIONS[role]}) in ${workspace.name}\n\n` +
+    `Send this to them, it works once within ${INVITE_TTL_HOURS} hours:\n` +
+    `/start ${invite.code}`
+  );
+};
+
+// Owners only manage the members of their own workspace
+const handleUsers = async ({ chatId, userId }: BotContext) => {
+  const { workspace } = (await getMembership(userId))!;
+  const users = await User.find({
+    _id: { $in: workspace.members.map((member) => member.user) },
+    role: { $ne: null },
+  }).sort({ createdAt: 1 });
+
+  let message = `👥 Members of ${workspace.name} (${users.length})\n\n`;
+  for (const user of users) {
+    message += `• ${user.username || "unknown"} (${user.telegramId}): ${user.role}\n`;
+  }
+  message +=
+    `\nChange a role with /setrole <telegramId> <${USER_ROLES.join("|")}|none>\n` +
+    `Invite someone with /invite <role>`;
+
+  await bot.sendMessage(chatId, message);
+};
+
+const handleSetRole = async ({ chatId, userId }: BotContext, arg?: string) => {
+  const [telegramId, roleArg] = (arg || "").split(/[\s_]+/);
+  const role = (roleArg || "").toLowerCase();
+  if (!telegramId || !(role === "none" || isUserRole(role))) {
+    await bot.sendMessage(
+      chatId,
+      `❌ Usage: /setrole <telegramId> <${USER_ROLES.join("|")}|none>`
+    );
+    return;
+  }
+
+  if (telegramId === userId) {
+    await bot.sendMessage(chatId, "❌ You can't change your own role.");
+    return;
+  }
+
+  const { workspace } = (await getMembership(userId))!;
+  const user = await User.findOne({ telegramId });
+  if (!user || !workspace.isMember(user._id)) {
+    await bot.sendMessage(
+      chatId,
+      `❌ No member of ${workspace.name} has Telegram id ${telegramId}. See /users for the members.`
+    );
+    return;
+  }
+
+  user.role = role === "none" ? null : role;
+  await user.save();
+
+  await bot.sendMessage(
+    chatId,
+    role === "none"
+      ? `✅ ${user.username || telegramId} no longer has access.`
+      : `✅ ${user.username || telegramId} is now ${role}.`
+  );
+};
+
+const handleCancel = async ({ chatId, userId }: BotContext) => {
+  await clearUserState(userId);
+  showMainMenu(chatId, "Operation cancelled. Choose an option:");
+};
+
+const handleState = async ({ chatId, userId }: BotContext) => {
+  const state = await getUserState(userId);
+  bot.sendMessage(
+    chatId,
+    `Current state:\n${JSON.stringify(state, null, 2)}`
+  );
+};
+
+const handleTimezone = async (
+  { chatId, userId, username }: BotContext,
+  zone?: string
+) => {
+  let user = await User.findOne({ telegramId: userId });
+  if (!user) {
+    user = await User.create({
+      telegramId: userId,
+      username: username || `user_${userId}`,
+    });
+  }
+
+  if (!zone) {
+    await bot.sendMessage(
+      chatId,
+      `🌍 Your timezone: ${user.timezone}\n` +
+      `🕒 Now: ${formatLocalAndUtc(new Date(), user.timezone)}\n\n` +
+      `Schedule times are entered and shown in this timezone.\n` +
+      `Change it with /timezone <IANA zone>, e.g.\n` +
+      `/timezone Asia/Kolkata\n` +
+      `/timezone Europe/Berlin\n` +
+      `/timezone UTC`
+    );
+    return;
+  }
+
+  const normalized = zone.trim();
+  if (!isValidTimezone(normalized)) {
+    await bot.sendMessage(
+      chatId,
+      `❌ "${zone}" is not a valid timezone. Use an IANA name like Asia/Kolkata or Europe/Berlin.`
+    );
+    return;
+  }
+
+  user.timezone = normalized;
+  await user.save();
+
+  await bot.sendMessage(
+    chatId,
+    `✅ Timezone set to ${normalized}\n` +
+    `🕒 Now: ${formatLocalAndUtc(new Date(), normalized)}`
+  );
+};
+
+export const adminFlow: BotFlow = {
+  name: "admin",
+  commands: [
+    { command: "start", argument: "optional", access: "anyone", handler: handleStart },
+    { command: "cancel", access: "anyone", handler: handleCancel },
+    { command: "state", handler: handleState },
+    { command: "timezone", argument: "optional", handler: handleTimezone },
+    { command: "invite", argument: "optional", access: "owner", handler: handleInvite },
+    { command: "users", access: "owner", handler: handleUsers },
+    { command: "setrole", argument: "required", access: "owner", handler: handleSetRole },
+  ],
+  callbacks: [{ action: "cancel", access: "anyone", handler: handleCancel }],
+  // Printed by /users and /setrole
+  advertises: ["setrole", "invite", "users"],
+};
@@ -0,0 +1,1334 @@
+import mongoose from "mongoose";
+import { DateTime } from "luxon";
+import User from "../../models/userSchema";
+import Schedule, {
+  EXAM_CATEGORIES,
+  EXAM_LEVELS,
+  ScheduleTarget,
+} from "../../models/scheduleSchema";
+import { examScheduler } from "../../schedulers/scheduler";
+import ScheduleRun, { IScheduleRun } from "../../models/scheduleRunSchema";
+import { browserPool } from "../../browsers/prewarmedBrowserPool";
+import { describeTarget } from "../../api/examFilter";
+import {
+  DEFAULT_TIMEZONE,
+  formatLocal,
+  formatLocalAndUtc,
+  parseLocalDateTime,
+} from "../../utils/timezone";
+import { bot } from "../bot";
+import { encodeCallback } from "../callbacks";
+import {
+  describeRecurrence,
+  isRecurring,
+  parseRecurrence,
+  RECURRENCE_HELP,
+} from "../../schedulers/recurrence";
+import { cancelOptions, clearInlineKeyboard, showMainMenu } from "../menu";
+import { paginate, pickerKeyboard, pickerLabel, showPicker } from "../picker";
+import { BotContext, BotFlow } from "../router";
+import {
+  clearUserState,
+  getUserState,
+  setUserState,
+  STATES,
+} from "../states";
+import { getMembership, inWorkspace } from "../workspaces";
+
+const handleDeleteCommand = async (
+  { chatId, userId }: BotContext,
+  scheduleId?: string
+) => {
+  if (!scheduleId) return;
+
+  // Same confirmation as picking the schedule under "Remove schedule"
+  await setUserState(userId, STATES.REMOVING_SCHEDULE);
+  await confirmRemoveSchedule({ chatId, userId }, scheduleId);
+};
+
+const handleScheduleHelp = async ({ chatId }: BotContext) => {
+  const helpMessage =
+    `📚 **Schedule Control Commands**\n\n` +
+    `**Basic Commands:**\n` +
+    `• \`/status_<scheduleId>\` - View schedule status\n` +
+    `• \`/retry_<scheduleId>\` - Retry a failed schedule\n` +
+    `• \`/target_<scheduleId>\` - Choose which exams to book\n` +
+    `• \`/history_<scheduleId>\` - Show past attempts\n` +
+    `• \`/upcoming [level]\` - Exams whose booking opens soon, schedule one with a tap\n` +
+    `• \`/timezone <zone>\` - Set the timezone for schedule times\n` +
+    `• \`/pause_<scheduleId>\` - Pause monitoring\n` +
+    `• \`/resume_<scheduleId>\` - Resume paused monitoring\n` +
+    `• \`/stop_<scheduleId>\` - Stop schedule completely\n\n` +
+    `**Workspaces:**\n` +
+    `• Schedules and accounts are shared by everyone in your workspace\n` +
+    `• \`/workspace\` - See the members and who gets notified\n` +
+    `• \`/notifications on|off\` - Get or mute this workspace's run messages\n\n` +
+    `**How Retries Work:**\n` +
+    `• Each schedule has a maximum of 5 retry attempts\n` +
+    `• Failed schedules can be retried manually or automatically\n` +
+    `• Use /retry command to immediately retry a failed schedule\n` +
+    `• /retry counts as one of them, once all are used it starts a fresh set\n` +
+    `• Check retry count with /status command\n\n` +
+    `**Recurring Schedules:**\n` +
+    `• Add a repeat rule with the 🔁 Repeat button or /target command\n` +
+    `• After each run the schedule moves to its next occurrence\n` +
+    `• /stop ends the whole series\n\n` +
+    `**Schedule States:**\n` +
+    `• **pending** - Waiting to start\n` +
+    `• **running** - Currently monitoring/processing\n` +
+    `• **paused** - Temporarily paused\n` +
+    `• **failed** - Failed (can retry)\n` +
+    `• **success** - Completed successfully\n` +
+    `• **stopped** - Manually stopped\n\n` +
+    `**Tips:**\n` +
+    `• You can pause a schedule and resume it later\n` +
+    `• Failed schedules show available commands in status\n` +
+    `• Copy schedule ID from "View schedules" menu`;
+
+  await bot.sendMessage(chatId, helpMessage, { parse_mode: "Markdown" });
+};
+
+const handlePauseCommand = async (
+  { chatId, userId }: BotContext,
+  scheduleId?: string
+) => {
+  if (!scheduleId) return;
+
+  try {
+    await bot.sendMessage(chatId, "⏸️ Pausing schedule...");
+
+    const schedule = await Schedule.findById(scheduleId);
+    if (!schedule) {
+      await bot.sendMessage(chatId, "❌ Schedule not found.");
+      return;
+    }
+
+    const membership = await getMembership(userId);
+    if (!inWorkspace(membership, schedule.workspace)) {
+      await bot.sendMessage(
+        chatId,
+        "❌ You don't have permission to pause this schedule."
+      );
+      return;
+    }
+
+    await examScheduler.pauseSchedule(scheduleId);
+    await bot.sendMessage(
+      chatId,
+      `⏸️ Schedule "${schedule.name}" paused successfully!\n\n` +
+      `Use /resume_${scheduleId} to resume.`
+    );
+  } catch (error) {
+    console.error("Error pausing schedule:", error);
+    await bot.sendMessage(
+      chatId,
+      `❌ Failed to pause schedule: ${(error as Error).message}`
+    );
+  }
+};
+
+const handleResumeCommand = async (
+  { chatId, userId }: BotContext,
+  scheduleId?: string
+) => {
+  if (!scheduleId) return;
+
+  try {
+    await bot.sendMessage(chatId, "▶️ Resuming schedule...");
+
+    const schedule = await Schedule.findById(scheduleId);
+    if (!schedule) {
+      await bot.sendMessage(chatId, "❌ Schedule not found.");
+      return;
+    }
+
+    const membership = await getMembership(userId);
+    if (!inWorkspace(membership, schedule.workspace)) {
+      await bot.sendMessage(
+        chatId,
+        "❌ You don't have permission to resume this schedule."
+      );
+      return;
+    }
+
+    await examScheduler.resumeSchedule(scheduleId);
+    await bot.sendMessage(
+      chatId,
+      `▶️ Schedule "${schedule.name}" resumed successfully!`
+    );
+  } catch (error) {
+    console.error("Error resuming schedule:", error);
+    await bot.sendMessage(
+      chatId,
+      `❌ Failed to resume schedule: ${(error as Error).message}`
+    );
+  }
+};
+
+const handleStopCommand = async (
+  { chatId, userId }: BotContext,
+  scheduleId?: string
+) => {
+  if (!scheduleId) return;
+
+  try {
+    await bot.sendMessage(chatId, "🛑 Stopping schedule...");
+
+    const schedule = await Schedule.findById(scheduleId);
+    if (!schedule) {
+      await bot.sendMessage(chatId, "❌ Schedule not found.");
+      return;
+    }
+
+    const membership = await getMembership(userId);
+    if (!inWorkspace(membership, schedule.workspace)) {
+      await bot.sendMessage(
+        chatId,
+        "❌ You don't have permission to stop this schedule."
+      );
+      return;
+    }
+
+    await examScheduler.stopSchedule(scheduleId);
+    await bot.sendMessage(
+      chatId,
+      `🛑 Schedule "${schedule.name}" stopped completely.`
+    );
+  } catch (error) {
+    console.error("Error stopping schedule:", error);
+    await bot.sendMessage(
+      chatId,
+      `❌ Failed to stop schedule: ${(error as Error).message}`
+    );
+  }
+};
+
+const handleStatusCommand = async (
+  { chatId, userId }: BotContext,
+  scheduleId?: string
+) => {
+  if (!scheduleId) return;
+
+  try {
+    if (!mongoose.Types.ObjectId.isValid(scheduleId)) {
+      await bot.sendMessage(chatId, "❌ Invalid schedule ID.");
+      return;
+    }
+
+    const { schedule, session } = await examScheduler.getScheduleInfo(
+      scheduleId
+    );
+    if (!schedule) {
+      await bot.sendMessage(chatId, "❌ Schedule not found.");
+      return;
+    }
+
+    const membership = await getMembership(userId);
+    if (!inWorkspace(membership, schedule.workspace)) {
+      await bot.sendMessage(
+        chatId,
+        "❌ You don't have permission to view this schedule."
+      );
+      return;
+    }
+
+    const retryInfo = `${schedule.retryCount || 0}/${schedule.maxRetries ?? 5}`;
+    const zone = membership.user.timezone;
+
+    let messageText =
+      `📊 **Schedule Status**\n\n` +
+      `📋 **Name:** ${schedule.name}\n` +
+      `🆔 **ID:** \`${schedule._id}\`\n` +
+      `⏰ **Target:** ${formatLocalAndUtc(schedule.runAt, zone)}\n` +
+      `🎯 **Exams:** ${describeTarget(schedule.target)}\n` +
+      `🔁 **Repeats:** ${describeRecurrence(schedule.recurrence)}\n` +
+      `📌 **Status:** ${schedule.status || "pending"}${schedule.completed ? " (completed)" : ""}\n` +
+      `🔁 **Retries:** ${retryInfo}\n` +
+      `📅 **Last Run:** ${formatLocal(schedule.lastRun, zone)}\n`;
+
+    if (schedule.lastError) {
+      messageText += `⚠️ **Last Error:** ${schedule.lastError}\n`;
+    }
+
+    if (session) {
+      const pool = browserPool.getLeaseStatus(scheduleId);
+      const monitor = session.monitor.getStatus();
+      const runningFor = Math.round(
+        (Date.now() - session.startedAt.getTime()) / 1000
+      );
+
+      messageText +=
+        `\n🔧 **Live Session**\n` +
+        `   🔄 **Phase:** ${session.status} (for ${runningFor}s)\n` +
+        `   🔥 **Browsers:** ${pool.readyBrowsers} ready, ${pool.warmingBrowsers} warming` +
+        `${session.browsersPrewarmed ? " ✅" : ""}\n` +
+        `   📡 **Polling:** ${monitor.isPolling ? "active" : "idle"}\n` +
+        `   🕒 **Last Poll:** ${formatLocal(monitor.lastSuccessfulPoll, zone)}\n`;
+
+      if (monitor.consecutiveErrors > 0) {
+        messageText += `   ⚠️ **Poll Errors:** ${monitor.consecutiveErrors} in a row\n`;
+      }
+    } else {
+      messageText += `\n🔧 **Live Session:** none\n`;
+    }
+
+    const commands = [];
+    if (schedule.status === "failed") commands.push(`/retry_${schedule._id}`);
+    if (schedule.status === "running" || schedule.status === "pending") {
+      commands.push(`/pause_${schedule._id}`);
+    }
+    if (schedule.status === "paused") commands.push(`/resume_${schedule._id}`);
+    if (!schedule.completed) commands.push(`/stop_${schedule._id}`);
+    commands.push(`/history_${schedule._id}`);
+
+    if (commands.length > 0) {
+      messageText += `\n**Commands:** ${commands.join(" | ")}`;
+    }
+
+    await bot.sendMessage(chatId, messageText, { parse_mode: "Markdown" });
+  } catch (error) {
+    console.error("Error getting schedule status:", error);
+    await bot.sendMessage(
+      chatId,
+      `❌ Failed to get schedule status: ${(error as Error).message}`
+    );
+  }
+};
+
+const handleRetryCommand = async (
+  { chatId, userId }: BotContext,
+  scheduleId?: string
+) => {
+  if (!scheduleId) return;
+
+  try {
+    if (!mongoose.Types.ObjectId.isValid(scheduleId)) {
+      await bot.sendMessage(chatId, "❌ Invalid schedule ID.");
+      return;
+    }
+
+    const schedule = await Schedule.findById(scheduleId);
+    if (!schedule) {
+      await bot.sendMessage(chatId, "❌ Schedule not found.");
+      return;
+    }
+
+    const membership = await getMembership(userId);
+    if (!inWorkspace(membership, schedule.workspace)) {
+      await bot.sendMessage(
+        chatId,
+        "❌ You don't have permission to retry this schedule."
+      );
+      return;
+    }
+
+    await bot.sendMessage(chatId, "🔁 Retrying schedule...");
+
+    const retried = await examScheduler.retrySchedule(scheduleId);
+    const startsNow = retried.runAt.getTime() <= Date.now();
+
+    await bot.sendMessage(
+      chatId,
+      `🔁 Schedule "${retried.name}" has been requeued.\n\n` +
+      (startsNow
+        ? `Monitoring is starting now, you'll be notified as it progresses.`
+        : `It will start monitoring 2 minutes before ${formatLocalAndUtc(retried.runAt, membership.user.timezone)}.`) +
+      `\n\nUse /status_${scheduleId} to follow it.`
+    );
+  } catch (error) {
+    console.error("Error retrying schedule:", error);
+    await bot.sendMessage(
+      chatId,
+      `❌ Failed to retry schedule: ${(error as Error).message}`
+    );
+  }
+};
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`;
+};
+
+const RUN_STATUS_EMOJI: Record<string, string> = {
+  running: "🔄",
+  success: "✅",
+  failed: "❌",
+  timeout: "⏰",
+  paused: "⏸️",
+  stopped: "🛑",
+};
+
+const formatRun = (run: IScheduleRun, index: number, zone: string) => {
+  const { phases } = run;
+  const since = (date?: Date) =>
+    date ? `+${formatDuration(date.getTime() - run.startedAt.getTime())}` : "-";
+  const duration = formatDuration(
+    (run.endedAt || new Date()).getTime() - run.startedAt.getTime()
+  );
+
+  let text =
+    `${index + 1}. ${RUN_STATUS_EMOJI[run.status] || "•"} **${run.status}** - attempt ${run.attempt} (${run.trigger})\n` +
+    `   🕒 ${formatLocal(run.startedAt, zone)}, ${run.endedAt ? "took" : "running for"} ${duration}\n` +
+    `   ⏱️ Warmed ${since(phases?.warmupCompletedAt)}, first poll ${since(phases?.firstPollAt)}, ` +
+    `OID ${since(phases?.oidFoundAt)}, page ${since(phases?.navigatedAt)}\n`;
+
+  if (run.browsersWarmed !== undefined) {
+    text += `   🔥 Browsers warmed: ${run.browsersWarmed}\n`;
+  }
+
+  if (run.oid) {
+    const exam = [run.exam?.level, run.exam?.locationName, run.exam?.eventName]
+      .filter(Boolean)
+      .join(", ");
+    text += `   🆔 OID: \`${run.oid}\`${exam ? ` (${exam})` : ""}\n`;
+  }
+
+  if (run.browsers?.length) {
+    const reached = run.browsers.filter((b) => b.reachedPage).length;
+    text += `   🌐 Booking page: ${reached}/${run.browsers.length} browsers\n`;
+  }
+
+  if (run.error) {
+    const errorPreview =
+      run.error.length > 80 ? run.error.substring(0, 80) + "..." : run.error;
+    text += `   ⚠️ ${errorPreview}\n`;
+  }
+
+  return text;
+};
+
+const handleHistoryCommand = async (
+  { chatId, userId }: BotContext,
+  scheduleId?: string
+) => {
+  if (!scheduleId) return;
+
+  try {
+    if (!mongoose.Types.ObjectId.isValid(scheduleId)) {
+      await bot.sendMessage(chatId, "❌ Invalid schedule ID.");
+      return;
+    }
+
+    const membership = await getMembership(userId);
+    const schedule = membership
+      ? await Schedule.findOne({ _id: scheduleId, workspace: membership.workspace._id })
+      : null;
+    if (!schedule) {
+      await bot.sendMessage(chatId, "❌ Schedule not found.");
+      return;
+    }
+
+    const runs = await ScheduleRun.findForSchedule(scheduleId, 10);
+    if (runs.length === 0) {
+      await bot.sendMessage(
+        chatId,
+        `📜 "${schedule.name}" has not run yet.`
+      );
+      return;
+    }
+
+    const messageText =
+      `📜 **Run History: ${schedule.name}**\n` +
+      `_Last ${runs.length} attempts, newest first_\n\n` +
+      runs.map((run, index) => formatRun(run, index, membership!.user.timezone)).join("\n");
+
+    await bot.sendMessage(chatId, messageText, { parse_mode: "Markdown" });
+  } catch (error) {
+    console.error("Error getting schedule history:", error);
+    await bot.sendMessage(
+      chatId,
+      `❌ Failed to get schedule history: ${(error as Error).message}`
+    );
+  }
+};
+
+const startScheduleScraping = async (
+  chatId: number,
+  userId: string,
+  messageId: number
+) => {
+  const user = await User.findOne({ telegramId: userId });
+  const timezone = user?.timezone || DEFAULT_TIMEZONE;
+
+  await setUserState(userId, STATES.SETTING_SCHEDULE, { timezone });
+
+  await clearInlineKeyboard(chatId, messageId);
+
+  await bot.sendMessage(
+    chatId,
+    `⏰ Please enter the schedule details in your timezone (${timezone}) using this format:\n\n` +
+    "YYYY-MM-DD HH:MM ScheduleName\n\n" +
+    "Example:\n" +
+    "2024-12-25 09:30 Christmas Booking\n" +
+    "2025-01-15 14:00 January Session\n\n" +
+    "Use /timezone to change your timezone.\n" +
+    "Or click Cancel to return to the main menu.",
+    cancelOptions
+  );
+};
+
+const handleScheduleCreation = async (
+  chatId: number,
+  userId: string,
+  text: string | undefined
+) => {
+  if (!text) return;
+
+  const input = text.trim();
+  const parts = input.split(" ");
+
+  if (parts.length < 3) {
+    await bot.sendMessage(
+      chatId,
+      "❌ Invalid format. Please use: YYYY-MM-DD HH:MM ScheduleName"
+    );
+    return;
+  }
+
+  const datePart = parts[0];
+  const timePart = parts[1];
+  const nameParts = parts.slice(2);
+  const scheduleName =
+    nameParts.join(" ") || `Schedule ${new Date().toLocaleString()}`;
+
+  const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+  if (!dateRegex.test(datePart)) {
+    await bot.sendMessage(
+      chatId,
+      "❌ Invalid date format. Please use YYYY-MM-DD (e.g., 2024-12-25)"
+    );
+    return;
+  }
+
+  const timeRegex = /^([01]\d|2[0-3]):([0-5]\d)$/;
+  if (!timeRegex.test(timePart)) {
+    await bot.sendMessage(
+      chatId,
+      "❌ Invalid time format. Please use HH:MM (e.g., 14:30)"
+    );
+    return;
+  }
+
+  const { timezone = DEFAULT_TIMEZONE } = await getUserState(userId);
+  const { dateTime: runAt, error } = parseLocalDateTime(
+    `${datePart} ${timePart}`,
+    timezone
+  );
+
+  if (!runAt) {
+    await bot.sendMessage(chatId, `❌ Invalid date/time: ${error}`);
+    return;
+  }
+
+  if (runAt.toJSDate() <= new Date()) {
+    await bot.sendMessage(
+      chatId,
+      "❌ Schedule time must be in the future. Please choose a later date/time."
+    );
+    return;
+  }
+
+  await setUserState(userId, STATES.SETTING_SCHEDULE_TARGET, {
+    schedule: { name: scheduleName, runAt: runAt.toUTC().toISO() },
+    target: {},
+    timezone,
+  });
+  await showTargetSelection(chatId, userId);
+};
+
+/**
+ * Target is kept in the wizard state with ISO date strings, as the state
+ * store round-trips through JSON.
+ */
+interface TargetDraft {
+  level?: ScheduleTarget["level"];
+  category?: ScheduleTarget["category"];
+  locationName?: string;
+  startDateFrom?: string;
+  startDateTo?: string;
+}
+
+const toTargetDraft = (target?: ScheduleTarget | null): TargetDraft => ({
+  level: target?.level,
+  category: target?.category,
+  locationName: target?.locationName,
+  startDateFrom: target?.startDateFrom?.toISOString(),
+  startDateTo: target?.startDateTo?.toISOString(),
+});
+
+const fromTargetDraft = (draft: TargetDraft = {}): ScheduleTarget => ({
+  level: draft.level,
+  category: draft.category,
+  locationName: draft.locationName,
+  startDateFrom: draft.startDateFrom ? new Date(draft.startDateFrom) : undefined,
+  startDateTo: draft.startDateTo ? new Date(draft.startDateTo) : undefined,
+});
+
+const showTargetSelection = async (chatId: number, userId: string) => {
+  const userState = await getUserState(userId);
+  const draft: TargetDraft = userState.target || {};
+  const mark = (selected: boolean, text: string) =>
+    selected ? `✅ ${text}` : text;
+
+  const keyboard = [
+    EXAM_LEVELS.map((level) => ({
+      text: mark(draft.level === level, level),
+      callback_data: encodeCallback("target_level", level),
+    })),
+    [
+      ...EXAM_CATEGORIES.map((category) => ({
+        text: mark(draft.category === category, category),
+        callback_data: encodeCallback("target_category", category),
+      })),
+      {
+        text: mark(!draft.level && !draft.category, "Any level/category"),
+        callback_data: encodeCallback("target_level", "any"),
+      },
+    ],
+    [
+      { text: "📍 Location", callback_data: encodeCallback("target_location") },
+      { text: "📆 Exam dates", callback_data: encodeCallback("target_dates") },
+    ],
+    [{ text: "🔁 Repeat", callback_data: encodeCallback("target_repeat") }],
+    [
+      { text: "✅ Save", callback_data: encodeCallback("confirm_target") },
+      { text: "Cancel", callback_data: encodeCallback("cancel") },
+    ],
+  ];
+
+  // Plain text, the location is user input and may break Markdown
+  await bot.sendMessage(
+    chatId,
+    `🎯 Exam targeting${userState.schedule ? ` for "${userState.schedule.name}"` : ""}\n\n` +
+    `Only exams matching all of these are booked:\n` +
+    `${describeTarget(fromTargetDraft(draft))}\n\n` +
+    `🔁 Repeats: ${describeRecurrence(userState.recurrence)}\n\n` +
+    `Tap a level or category to toggle it, then Save.`,
+    { reply_markup: { inline_keyboard: keyboard } }
+  );
+};
+
+const handleTargetLevel = async (
+  chatId: number,
+  userId: string,
+  level: string
+) => {
+  const userState = await getUserState(userId);
+  const target: TargetDraft = { ...userState.target };
+
+  if (level === "any") {
+    delete target.level;
+    delete target.category;
+  } else if (EXAM_LEVELS.includes(level as any)) {
+    target.level =
+      target.level === level ? undefined : (level as TargetDraft["level"]);
+  } else {
+    return;
+  }
+
+  await setUserState(userId, STATES.SETTING_SCHEDULE_TARGET, {
+    ...userState,
+    target,
+    awaiting: undefined,
+  });
+  await showTargetSelection(chatId, userId);
+};
+
+const handleTargetCategory = async (
+  chatId: number,
+  userId: string,
+  category: string
+) => {
+  if (!EXAM_CATEGORIES.includes(category as any)) return;
+
+  const userState = await getUserState(userId);
+  const target: TargetDraft = { ...userState.target };
+  target.category =
+    target.category === category
+      ? undefined
+      : (category as TargetDraft["category"]);
+
+  await setUserState(userId, STATES.SETTING_SCHEDULE_TARGET, {
+    ...userState,
+    target,
+    awaiting: undefined,
+  });
+  await showTargetSelection(chatId, userId);
+};
+
+const promptTargetInput = async (
+  chatId: number,
+  userId: string,
+  awaiting: "location" | "dates" | "recurrence"
+) => {
+  const userState = await getUserState(userId);
+  await setUserState(userId, STATES.SETTING_SCHEDULE_TARGET, {
+    ...userState,
+    awaiting,
+  });
+
+  await bot.sendMessage(
+    chatId,
+    awaiting === "location"
+      ? "📍 Enter the exam centre, e.g. New Delhi (matches part of the name).\n\nSend - for any location."
+      : awaiting === "dates"
+        ? "📆 Enter the accepted exam dates as DD.MM.YYYY - DD.MM.YYYY, or a single DD.MM.YYYY.\n\nSend - for any date."
+        : `🔁 How should this schedule repeat? Times are in ${userState.timezone || DEFAULT_TIMEZONE}.\n\n${RECURRENCE_HELP}`,
+    cancelOptions
+  );
+};
+
+const parseExamDay = (value: string) =>
+  DateTime.fromFormat(value.trim(), "dd.MM.yyyy", { zone: "utc" });
+
+const handleTargetMessage = async (
+  chatId: number,
+  userId: string,
+  text: string | undefined
+) => {
+  const userState = await getUserState(userId);
+  const input = text?.trim();
+
+  if (!userState.awaiting || !input) {
+    await bot.sendMessage(
+      chatId,
+      "Please use the buttons above to choose the exams, or click Cancel to return to the main menu."
+    );
+    return;
+  }
+
+  if (userState.awaiting === "recurrence") {
+    const result = parseRecurrence(input, userState.timezone || DEFAULT_TIMEZONE);
+    if (result.error !== undefined) {
+      await bot.sendMessage(chatId, `❌ ${result.error}\n\n${RECURRENCE_HELP}`);
+      return;
+    }
+
+    await setUserState(userId, STATES.SETTING_SCHEDULE_TARGET, {
+      ...userState,
+      recurrence: result.recurrence,
+      awaiting: undefined,
+    });
+    await showTargetSelection(chatId, userId);
+    return;
+  }
+
+  const target: TargetDraft = { ...userState.target };
+
+  if (userState.awaiting === "location") {
+    if (input === "-") {
+      delete target.locationName;
+    } else if (input.length > 100) {
+      await bot.sendMessage(chatId, "❌ Location is too long, please shorten it.");
+      return;
+    } else {
+      target.locationName = input;
+    }
+  } else if (input === "-") {
+    delete target.startDateFrom;
+    delete target.startDateTo;
+  } else {
+    const [fromText, toText = fromText] = input.split(/\s*-\s*/);
+    const from = parseExamDay(fromText);
+    const to = parseExamDay(toText);
+
+    if (!from.isValid || !to.isValid) {
+      await bot.sendMessage(
+        chatId,
+        "❌ Invalid dates. Please use DD.MM.YYYY - DD.MM.YYYY (e.g., 01.11.2025 - 30.11.2025)"
+      );
+      return;
+    }
+    if (to < from) {
+      await bot.sendMessage(chatId, "❌ The end date must not be before the start date.");
+      return;
+    }
+
+    target.startDateFrom = from.toISO()!;
+    target.startDateTo = to.toISO()!;
+  }
+
+  await setUserState(userId, STATES.SETTING_SCHEDULE_TARGET, {
+    ...userState,
+    target,
+    awaiting: undefined,
+  });
+  await showTargetSelection(chatId, userId);
+};
+
+const confirmTarget = async (chatId: number, userId: string) => {
+  const userState = await getUserState(userId);
+  const target = fromTargetDraft(userState.target);
+
+  try {
+    const membership = await getMembership(userId);
+    if (!membership) {
+      await clearUserState(userId);
+      await bot.sendMessage(
+        chatId,
+        "❌ User not found. Please start with /start command."
+      );
+      showMainMenu(chatId);
+      return;
+    }
+    const { user, workspace } = membership;
+
+    // Editing the target of an existing schedule
+    if (userState.scheduleId) {
+      const schedule = await Schedule.findOne({
+        _id: userState.scheduleId,
+        workspace: workspace._id,
+      });
+      await clearUserState(userId);
+
+      if (!schedule) {
+        await bot.sendMessage(chatId, "❌ Schedule not found.");
+        showMainMenu(chatId);
+        return;
+      }
+
+      schedule.target = target;
+      schedule.recurrence = userState.recurrence || undefined;
+      await schedule.save();
+
+      await bot.sendMessage(
+        chatId,
+        `✅ Exam targeting updated for "${schedule.name}"\n\n` +
+        `🎯 ${describeTarget(schedule.target)}\n` +
+        `🔁 ${describeRecurrence(schedule.recurrence)}`
+      );
+      showMainMenu(chatId, "What would you like to do next?");
+      return;
+    }
+
+    const { name, runAt } = userState.schedule;
+    const newSchedule = await Schedule.create({
+      name,
+      runAt: new Date(runAt),
+      createdBy: user._id,
+      workspace: workspace._id,
+      completed: false,
+      target,
+      recurrence: userState.recurrence || undefined,
+    });
+
+    await clearUserState(userId);
+
+    const displayTime = formatLocalAndUtc(newSchedule.runAt, user.timezone);
+
+    await bot.sendMessage(
+      chatId,
+      `✅ Schedule created successfully!\n\n` +
+      `📝 Name: ${name}\n` +
+      `⏰ Scheduled for: ${displayTime}\n` +
+      `🎯 Exams: ${describeTarget(newSchedule.target)}\n` +
+      `🔁 Repeats: ${describeRecurrence(newSchedule.recurrence)}\n` +
+      `🆔 ID: ${newSchedule._id}\n\n` +
+      (isRecurring(newSchedule.recurrence)
+        ? `All active accounts will run at every occurrence.\n`
+        : `All active accounts will run automatically at this time.\n`) +
+      `Use /target_${newSchedule._id} to change the exams later.`
+    );
+
+    showMainMenu(chatId, "What would you like to do next?");
+  } catch (error) {
+    console.error("Schedule creation error:", error);
+    await clearUserState(userId);
+    await bot.sendMessage(
+      chatId,
+      "❌ Failed to save schedule. Please try again."
+    );
+    showMainMenu(chatId);
+  }
+};
+
+const handleTargetCommand = async (
+  { chatId, userId }: BotContext,
+  scheduleId?: string
+) => {
+  if (!scheduleId) return;
+
+  if (!mongoose.Types.ObjectId.isValid(scheduleId)) {
+    await bot.sendMessage(chatId, "❌ Invalid schedule ID.");
+    return;
+  }
+
+  const membership = await getMembership(userId);
+  const schedule = membership
+    ? await Schedule.findOne({ _id: scheduleId, workspace: membership.workspace._id })
+    : null;
+  if (!schedule) {
+    await bot.sendMessage(chatId, "❌ Schedule not found.");
+    return;
+  }
+
+  if (schedule.completed) {
+    await bot.sendMessage(chatId, "❌ This schedule has already completed.");
+    return;
+  }
+
+  // The running poller was started with the old filter
+  const { session } = await examScheduler.getScheduleInfo(scheduleId);
+  if (session) {
+    await bot.sendMessage(
+      chatId,
+      `❌ "${schedule.name}" is monitoring right now. Use /stop_${scheduleId} first, or wait for it to finish.`
+    );
+    return;
+  }
+
+  await setUserState(userId, STATES.SETTING_SCHEDULE_TARGET, {
+    scheduleId,
+    target: toTargetDraft(schedule.target),
+    recurrence: isRecurring(schedule.recurrence)
+      ? {
+          kind: schedule.recurrence.kind,
+          weekdays: schedule.recurrence.weekdays,
+          time: schedule.recurrence.time,
+          cron: schedule.recurrence.cron,
+          timezone: schedule.recurrence.timezone,
+        }
+      : null,
+    timezone: membership!.user.timezone,
+  });
+  await showTargetSelection(chatId, userId);
+};
+
+const viewSchedules = async (
+  chatId: number,
+  userId: string,
+  messageId: number
+) => {
+  try {
+    await clearInlineKeyboard(chatId, messageId);
+    await bot.sendMessage(chatId, "🔍 Fetching your workspace's schedules...");
+
+    const membership = await getMembership(userId);
+    if (!membership) {
+      await bot.sendMessage(
+        chatId,
+        "❌ User not found. Please start with /start command."
+      );
+      showMainMenu(chatId);
+      return;
+    }
+    const { user, workspace } = membership;
+
+    // Get all schedules (not just incomplete ones)
+    const schedules = await Schedule.find({
+      workspace: workspace._id,
+    }).sort({ runAt: -1, createdAt: -1 });
+
+    if (schedules.length === 0) {
+      await bot.sendMessage(chatId, "📅 Your workspace has no schedules.");
+      showMainMenu(chatId, "What would you like to do next?");
+      return;
+    }
+
+    // Separate active and completed schedules
+    const activeSchedules = schedules.filter((s) => !s.completed);
+    const completedSchedules = schedules.filter((s) => s.completed);
+
+    let messageText = "";
+
+    // Active Schedules
+    if (activeSchedules.length > 0) {
+      messageText += `🔵 **Active Schedules (${activeSchedules.length})**\n\n`;
+
+      for (const [index, schedule] of activeSchedules.entries()) {
+        const runTime = formatLocalAndUtc(schedule.runAt, user.timezone);
+        const lastRun = formatLocal(schedule.lastRun, user.timezone);
+        const retryInfo =
+          schedule.retryCount !== undefined
+            ? `${schedule.retryCount}/${schedule.maxRetries || 5}`
+            : "0/5";
+
+        // Status emoji
+        let statusEmoji = "⏳";
+        if (schedule.status === "running") statusEmoji = "🔄";
+        else if (schedule.status === "paused") statusEmoji = "⏸️";
+        else if (schedule.status === "failed") statusEmoji = "❌";
+        else if (schedule.status === "pending") statusEmoji = "⏳";
+
+        messageText += `${index + 1}. ${statusEmoji} **${schedule.name}**\n`;
+        messageText += `   ⏰ **Target:** ${runTime}\n`;
+        messageText += `   🎯 **Exams:** ${describeTarget(schedule.target)}\n`;
+        if (isRecurring(schedule.recurrence)) {
+          messageText += `   🔁 **Repeats:** ${describeRecurrence(schedule.recurrence)}\n`;
+        }
+        messageText += `   🆔 **ID:** \`${schedule._id}\`\n`;
+        messageText += `   📊 **Status:** ${schedule.status || "pending"}\n`;
+        messageText += `   🔁 **Retries:** ${retryInfo}\n`;
+
+        if (schedule.lastRun) {
+          messageText += `   📅 *Last Run:* ${lastRun}\n`;
+        }
+
+        if (schedule.lastError) {
+          const errorPreview =
+            schedule.lastError.length > 50
+              ? schedule.lastError.substring(0, 50) + "..."
+              : schedule.lastError;
+          messageText += `   ⚠️ *Last Error:* ${errorPreview}\n`;
+        }
+
+        messageText += `   🔧 *Monitoring:* ${schedule.monitoringStarted ? "Yes" : "No"
+          }\n`;
+
+        // Quick action commands
+        messageText += `   **Commands:** `;
+        const commands = [];
+
+        if (schedule.status === "failed") {
+          commands.push(`/retry_${schedule._id}`);
+        }
+        if (schedule.status === "running" || schedule.status === "pending") {
+          commands.push(`/pause_${schedule._id}`);
+        }
+        if (schedule.status === "paused") {
+          commands.push(`/resume_${schedule._id}`);
+        }
+        commands.push(`/status_${schedule._id}`);
+        commands.push(`/target_${schedule._id}`);
+        commands.push(`/stop_${schedule._id}`);
+
+        messageText += commands.join(" | ") + "\n\n";
+      }
+    }
+
+    // Completed Schedules (show last 5)
+    if (completedSchedules.length > 0) {
+      messageText += `\n✅ **Completed Schedules (Last ${Math.min(
+        5,
+        completedSchedules.length
+      )})**\n\n`;
+
+      for (const [index, schedule] of completedSchedules
+        .slice(0, 5)
+        .entries()) {
+        const runTime = formatLocal(schedule.runAt, user.timezone);
+
+        // Status emoji for completed
+        let statusEmoji = "✅";
+        if (schedule.status === "stopped") statusEmoji = "🛑";
+        else if (schedule.status === "failed") statusEmoji = "❌";
+
+        messageText += `${index + 1}. ${statusEmoji} **${schedule.name}**\n`;
+        messageText += `   ⏰ **Target:** ${runTime}\n`;
+        messageText += `   📊 **Final Status:** ${schedule.status}\n`;
+
+        if (schedule.lastRun) {
+          messageText += `   📅 *Completed:* ${formatLocal(schedule.lastRun, user.timezone)}\n`;
+        }
+        messageText += `   📜 /history_${schedule._id}\n`;
+
+        messageText += "\n";
+      }
+
+      if (completedSchedules.length > 5) {
+        messageText += `_...and ${completedSchedules.length - 5
+          } more completed schedules_\n\n`;
+      }
+    }
+
+    messageText += `\n💡 **Tips:**\n`;
+    messageText += `• Use /status_<id> to view detailed status\n`;
+    messageText += `• Failed schedules can be retried up to 5 times\n`;
+    messageText += `• Type /schedulehelp for all commands\n`;
+    messageText += `• Use "Remove schedule" to delete schedules`;
+
+    await bot.sendMessage(chatId, messageText, { parse_mode: "Markdown" });
+
+    showMainMenu(chatId, "What would you like to do next?");
+  } catch (error) {
+    console.error("Error viewing schedules:", error);
+    await bot.sendMessage(
+      chatId,
+      "❌ Failed to retrieve schedules. Please try again."
+    );
+    showMainMenu(chatId);
+  }
+};
+
+const startRemoveSchedule = async (
+  chatId: number,
+  userId: string,
+  messageId: number
+) => {
+  await setUserState(userId, STATES.REMOVING_SCHEDULE);
+
+  await clearInlineKeyboard(chatId, messageId);
+
+  await showSchedulePicker(chatId, userId, 0);
+};
+
+const showSchedulePicker = async (
+  chatId: number,
+  userId: string,
+  page: number,
+  messageId?: number
+) => {
+  try {
+    // Only members with a role get here, so the user exists
+    const { user, workspace } = (await getMembership(userId))!;
+
+    const schedules = await Schedule.find({
+      workspace: workspace._id,
+      completed: false,
+    }).sort({ runAt: 1 });
+
+    if (schedules.length === 0) {
+      await clearUserState(userId);
+      await clearInlineKeyboard(chatId, messageId);
+      await bot.sendMessage(
+        chatId,
+        "📅 Your workspace has no active schedules to remove."
+      );
+      showMainMenu(chatId, "What would you like to do next?");
+      return;
+    }
+
+    const current = paginate(schedules, page);
+    const keyboard = pickerKeyboard(
+      current,
+      (schedule) => {
+        const runTime = DateTime.fromJSDate(schedule.runAt, {
+          zone: user.timezone,
+        }).toFormat("dd.MM. HH:mm");
+        return {
+          text: pickerLabel(`${runTime} ${schedule.name}`),
+          callback_data: encodeCallback("pick_schedule", String(schedule._id)),
+        };
+      },
+      (target) => encodeCallback("schedule_page", String(target))
+    );
+
+    const pageInfo =
+      current.pageCount > 1
+        ? `Page ${current.page + 1} of ${current.pageCount} (${schedules.length} schedules)\n\n`
+        : "";
+
+    await showPicker(
+      chatId,
+      `🗑️ Choose the schedule you wish to remove, times are in ${user.timezone}:\n\n${pageInfo}` +
+      `Or click Cancel to return to the main menu.`,
+      keyboard,
+      messageId
+    );
+  } catch (error) {
+    console.error("Error starting remove schedule:", error);
+    await clearUserState(userId);
+    await bot.sendMessage(
+      chatId,
+      "❌ Failed to load schedules. Please try again."
+    );
+    showMainMenu(chatId);
+  }
+};
+
+// Button data can be stale or forged, so the id is checked again
+const findWorkspaceSchedule = async (userId: string, scheduleId: string) => {
+  if (!mongoose.Types.ObjectId.isValid(scheduleId)) return null;
+
+  const { workspace } = (await getMembership(userId))!;
+  return Schedule.findOne({ _id: scheduleId, workspace: workspace._id });
+};
+
+const confirmRemoveSchedule = async (
+  { chatId, userId, messageId }: BotContext,
+  scheduleId: string
+) => {
+  const schedule = await findWorkspaceSchedule(userId, scheduleId);
+  if (!schedule) {
+    await bot.sendMessage(
+      chatId,
+      "❌ Schedule not found or it isn't in your workspace."
+    );
+    if (messageId) await showSchedulePicker(chatId, userId, 0, messageId);
+    else await clearUserState(userId);
+    return;
+  }
+
+  const { user } = (await getMembership(userId))!;
+
+  await showPicker(
+    chatId,
+    `🗑️ Remove the schedule "${schedule.name}"?\n\n` +
+    `⏰ ${formatLocalAndUtc(schedule.runAt, user.timezone)}\n` +
+    `📊 Status: ${schedule.status || "pending"}\n\n` +
+    `Its settings are deleted. To only stop it from running, use /stop_${schedule._id} instead.`,
+    [
+      [
+        {
+          text: "🗑️ Yes, remove it",
+          callback_data: encodeCallback("confirm_remove_schedule", String(schedule._id)),
+        },
+      ],
+      [{ text: "◀️ Back", callback_data: encodeCallback("schedule_page", "0") }],
+      [{ text: "Cancel", callback_data: encodeCallback("cancel") }],
+    ],
+    messageId
+  );
+};
+
+const handleRemoveScheduleMessage = async (chatId: number) => {
+  await bot.sendMessage(
+    chatId,
+    "Please pick a schedule with the buttons above, or click Cancel to return to the main menu."
+  );
+};
+
+const removeSchedule = async (
+  { chatId, userId, messageId }: BotContext,
+  scheduleId: string
+) => {
+  try {
+    await clearInlineKeyboard(chatId, messageId);
+
+    const schedule = await findWorkspaceSchedule(userId, scheduleId);
+    if (!schedule) {
+      await clearUserState(userId);
+      await bot.sendMessage(
+        chatId,
+        "❌ Schedule not found or it isn't in your workspace. It may already be removed."
+      );
+      showMainMenu(chatId);
+      return;
+    }
+
+    // Ends its session first, a monitored or paused schedule would keep
+    // polling and holding its browsers
+    await examScheduler.stopSchedule(schedule.id);
+    await Schedule.deleteOne({ _id: schedule._id });
+
+    await clearUserState(userId);
+    await bot.sendMessage(
+      chatId,
+      `✅ Successfully removed schedule: "${schedule.name}"`
+    );
+    showMainMenu(chatId, "What would you like to do next?");
+  } catch (error) {
+    console.error("Error removing schedule:", error);
+    await clearUserState(userId);
+    await bot.sendMessage(
+      chatId,
+      "❌ There was an error removing the schedule. Please try again."
+    );
+    showMainMenu(chatId);
+  }
+};
+
+export const schedulesFlow: BotFlow = {
+  name: "schedules",
+  // Viewers may only look
+  access: "operator",
+  commands: [
+    { command: "schedulehelp", access: "viewer", handler: handleScheduleHelp },
+    { command: "delete", argument: "required", handler: handleDeleteCommand },
+    { command: "pause", argument: "required", handler: handlePauseCommand },
+    { command: "resume", argument: "required", handler: handleResumeCommand },
+    { command: "stop", argument: "required", handler: handleStopCommand },
+    { command: "status", argument: "required", access: "viewer", handler: handleStatusCommand },
+    { command: "retry", argument: "required", handler: handleRetryCommand },
+    { command: "target", argument: "required", handler: handleTargetCommand },
+    { command: "history", argument: "required", access: "viewer", handler: handleHistoryCommand },
+  ],
+  callbacks: [
+    {
+      action: "schedule_scraping",
+      states: [STATES.IDLE],
+      handler: (ctx) =>
+        startScheduleScraping(ctx.chatId, ctx.userId, ctx.messageId!),
+    },
+    {
+      action: "view_schedules",
+      states: [STATES.IDLE],
+      access: "viewer",
+      handler: (ctx) => viewSchedules(ctx.chatId, ctx.userId, ctx.messageId!),
+    },
+    {
+      action: "remove_schedule",
+      states: [STATES.IDLE],
+      handler: (ctx) =>
+        startRemoveSchedule(ctx.chatId, ctx.userId, ctx.messageId!),
+    },
+    {
+      action: "schedule_page",
+      states: [STATES.REMOVING_SCHEDULE],
+      handler: (ctx, { args: [page] }) =>
+        showSchedulePicker(ctx.chatId, ctx.userId, Number(page), ctx.messageId),
+    },
+    {
+      action: "pick_schedule",
+      states: [STATES.REMOVING_SCHEDULE],
+      handler: (ctx, { args: [scheduleId] }) => confirmRemoveSchedule(ctx, scheduleId),
+    },
+    {
+      action: "confirm_remove_schedule",
+      states: [STATES.REMOVING_SCHEDULE],
+      handler: (ctx, { args: [scheduleId] }) => removeSchedule(ctx, scheduleId),
+    },
+    {
+      action: "target_level",
+      states: [STATES.SETTING_SCHEDULE_TARGET],
+      handler: (ctx, { args: [level] }) =>
+        handleTargetLevel(ctx.chatId, ctx.userId, level),
+    },
+    {
+      action: "target_category",
+      states: [STATES.SETTING_SCHEDULE_TARGET],
+      handler: (ctx, { args: [category] }) =>
+        handleTargetCategory(ctx.chatId, ctx.userId, category),
+    },
+    {
+      action: "target_location",
+      states: [STATES.SETTING_SCHEDULE_TARGET],
+      handler: (ctx) => promptTargetInput(ctx.chatId, ctx.userId, "location"),
+    },
+    {
+      action: "target_dates",
+      states: [STATES.SETTING_SCHEDULE_TARGET],
+      handler: (ctx) => promptTargetInput(ctx.chatId, ctx.userId, "dates"),
+    },
+    {
+      action: "target_repeat",
+      states: [STATES.SETTING_SCHEDULE_TARGET],
+      handler: (ctx) => promptTargetInput(ctx.chatId, ctx.userId, "recurrence"),
+    },
+    {
+      action: "confirm_target",
+      states: [STATES.SETTING_SCHEDULE_TARGET],
+      handler: (ctx) => confirmTarget(ctx.chatId, ctx.userId),
+    },
+  ],
+  messages: [
+    {
+      state: STATES.SETTING_SCHEDULE,
+      handler: (ctx) => handleScheduleCreation(ctx.chatId, ctx.userId, ctx.text),
+    },
+    {
+      state: STATES.SETTING_SCHEDULE_TARGET,
+      handler: (ctx) => handleTargetMessage(ctx.chatId, ctx.userId, ctx.text),
+    },
+    {
+      state: STATES.REMOVING_SCHEDULE,
+      handler: (ctx) => handleRemoveScheduleMessage(ctx.chatId),
+    },
+  ],
+  // Printed by viewSchedules and /schedulehelp
+  advertises: [
+    "schedulehelp",
+    "status",
+    "retry",
+    "target",
+    "history",
+    "upcoming",
+    "timezone",
+    "pause",
+    "resume",
+    "stop",
+    "workspace",
+    "notifications",
+  ],
+};
@@ -0,0 +1,177 @@
+import TelegramBot from "node-telegram-bot-api";
+import { DateTime } from "luxon";
+import User from "../../models/userSchema";
+import Schedule, {
+  EXAM_CATEGORIES,
+  EXAM_LEVELS,
+  ScheduleTarget,
+} from "../../models/scheduleSchema";
+import { describeTarget } from "../../api/examFilter";
+import {
+  findUpcomingExam,
+  getUpcomingExams,
+  UPCOMING_WINDOW_DAYS,
+  UpcomingExam,
+} from "../../api/upcomingExams";
+import { DEFAULT_TIMEZONE, formatLocalAndUtc } from "../../utils/timezone";
+import { bot } from "../bot";
+import { encodeCallback } from "../callbacks";
+import { BotContext, BotFlow } from "../router";
+import { getMembership } from "../workspaces";
+
+// Telegram keyboards get unwieldy beyond this
+const MAX_LISTED = 10;
+
+const formatDay = (date: Date) =>
+  DateTime.fromJSDate(date, { zone: "utc" }).toFormat("dd.MM.yyyy");
+
+const formatOpensIn = (date: Date, now = new Date()) => {
+  const minutes = Math.round((date.getTime() - now.getTime()) / 60000);
+  if (minutes < 60) return `${minutes} min`;
+  if (minutes < 48 * 60) return `${Math.round(minutes / 60)} h`;
+  return `${Math.round(minutes / (24 * 60))} days`;
+};
+
+const isOneOf = <T extends string>(values: readonly T[], value: string): value is T =>
+  (values as readonly string[]).includes(value);
+
+// Books exactly this exam: its level, category, centre and exam day
+const targetFor = (exam: UpcomingExam): ScheduleTarget => ({
+  level: isOneOf(EXAM_LEVELS, exam.level) ? exam.level : undefined,
+  category: isOneOf(EXAM_CATEGORIES, exam.category) ? exam.category : undefined,
+  locationName: exam.locationName,
+  startDateFrom: exam.startDate,
+  startDateTo: exam.startDate,
+});
+
+const scheduleName = (exam: UpcomingExam) =>
+  `${exam.level} ${exam.locationName} ${formatDay(exam.startDate)}`;
+
+const handleUpcomingCommand = async (
+  { chatId, userId }: BotContext,
+  level?: string
+) => {
+  if (level && !isOneOf(EXAM_LEVELS, level.toUpperCase())) {
+    await bot.sendMessage(
+      chatId,
+      `❌ Unknown level "${level}". Use one of ${EXAM_LEVELS.join(", ")}, e.g. /upcoming B2`
+    );
+    return;
+  }
+
+  const user = await User.findOne({ telegramId: userId });
+  const timezone = user?.timezone || DEFAULT_TIMEZONE;
+
+  let exams: UpcomingExam[];
+  try {
+    exams = await getUpcomingExams({ level });
+  } catch (error) {
+    console.error("Failed to load upcoming exams:", error);
+    await bot.sendMessage(
+      chatId,
+      "❌ Couldn't load exams from goethe.de right now. Please try again in a minute."
+    );
+    return;
+  }
+
+  if (exams.length === 0) {
+    await bot.sendMessage(
+      chatId,
+      `📭 No ${level ? `${level.toUpperCase()} ` : ""}exam opens for booking in the next ${UPCOMING_WINDOW_DAYS} days.`
+    );
+    return;
+  }
+
+  const listed = exams.slice(0, MAX_LISTED);
+  let message = `📅 Booking opens soon (next ${UPCOMING_WINDOW_DAYS} days)\n\n`;
+  for (const [index, exam] of listed.entries()) {
+    message +=
+      `${index + 1}. ${exam.eventName}, ${exam.locationName}\n` +
+      `   📆 Exam: ${formatDay(exam.startDate)}\n` +
+      `   🔓 Opens: ${formatLocalAndUtc(exam.bookFrom, timezone)} (in ${formatOpensIn(exam.bookFrom)})\n`;
+  }
+  if (exams.length > listed.length) {
+    message += `\n…and ${exams.length - listed.length} more. Narrow it down with /upcoming <level>.\n`;
+  }
+  message += `\nTap an exam to schedule a booking run for the moment its window opens.`;
+
+  const keyboard: TelegramBot.InlineKeyboardButton[][] = listed.map((exam, index) => [
+    {
+      text: `⏰ ${index + 1}. ${exam.locationName} ${formatDay(exam.startDate)}`,
+      callback_data: encodeCallback("upcoming_schedule", exam.key),
+    },
+  ]);
+
+  await bot.sendMessage(chatId, message, {
+    reply_markup: { inline_keyboard: keyboard },
+  });
+};
+
+const handleScheduleUpcoming = async (
+  { chatId, userId }: BotContext,
+  key: string
+) => {
+  // Only members with a role get here, so the user exists
+  const { user, workspace } = (await getMembership(userId))!;
+
+  const exam = await findUpcomingExam(key);
+  if (!exam) {
+    await bot.sendMessage(
+      chatId,
+      "❌ That exam is no longer upcoming, its booking window may already be open. Run /upcoming again."
+    );
+    return;
+  }
+
+  const existing = await Schedule.findOne({
+    workspace: workspace._id,
+    completed: false,
+    runAt: exam.bookFrom,
+    "target.locationName": exam.locationName,
+    "target.startDateFrom": exam.startDate,
+  });
+  if (existing) {
+    await bot.sendMessage(
+      chatId,
+      `ℹ️ "${existing.name}" already runs when this window opens.\n` +
+      `Use /status_${existing._id} to check on it.`
+    );
+    return;
+  }
+
+  const schedule = await Schedule.create({
+    name: scheduleName(exam),
+    runAt: exam.bookFrom,
+    createdBy: user._id,
+    workspace: workspace._id,
+    completed: false,
+    target: targetFor(exam),
+  });
+
+  await bot.sendMessage(
+    chatId,
+    `✅ Schedule created for the booking window!\n\n` +
+    `📝 Name: ${schedule.name}\n` +
+    `⏰ Scheduled for: ${formatLocalAndUtc(schedule.runAt, user.timezone)}\n` +
+    `🎯 Exams: ${describeTarget(schedule.target)}\n` +
+    `🆔 ID: ${schedule._id}\n\n` +
+    `Monitoring starts 2 minutes before the window opens.\n` +
+    `Use /target_${schedule._id} to change the exams or /status_${schedule._id} to follow it.`
+  );
+};
+
+export const upcomingFlow: BotFlow = {
+  name: "upcoming",
+  commands: [
+    { command: "upcoming", argument: "optional", handler: handleUpcomingCommand },
+  ],
+  callbacks: [
+    {
+      action: "upcoming_schedule",
+      access: "operator",
+      handler: (ctx, { args: [key] }) => handleScheduleUpcoming(ctx, key),
+    },
+  ],
+  // Printed in the confirmation and empty-list messages
+  advertises: ["upcoming", "status", "target"],
+};
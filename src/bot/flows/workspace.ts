@@ -0,0 +1,151 @@
+import Account from "../../models/accountSchema";
+import Invite from "../../models/inviteSchema";
+import Schedule from "../../models/scheduleSchema";
+import User, { roleAtLeast } from "../../models/userSchema";
+import Workspace from "../../models/workspaceSchema";
+import { bot } from "../bot";
+import { BotContext, BotFlow } from "../router";
+import { getMembership } from "../workspaces";
+
+const handleWorkspace = async ({ chatId, userId }: BotContext) => {
+  const { user, workspace } = (await getMembership(userId))!;
+
+  const [members, accounts, schedules] = await Promise.all([
+    User.find({ _id: { $in: workspace.members.map((member) => member.user) } }),
+    Account.countDocuments({ workspace: workspace._id }),
+    Schedule.countDocuments({ workspace: workspace._id, completed: false }),
+  ]);
+  const byId = new Map(members.map((member) => [member._id.toString(), member]));
+
+  let message =
+    `🏢 ${workspace.name}\n\n` +
+    `📋 ${accounts} account(s), ${schedules} active schedule(s)\n\n` +
+    `👥 Members (${workspace.members.length}), 🔔 = gets booking notifications\n`;
+  for (const member of workspace.members) {
+    const memberUser = byId.get(member.user.toString());
+    const you = member.user.equals(user._id) ? " (you)" : "";
+    message +=
+      `${member.subscribed ? "🔔" : "🔕"} ${memberUser?.username || "unknown"}` +
+      ` (${memberUser?.telegramId || "?"}): ${memberUser?.role || "no access"}${you}\n`;
+  }
+  message +=
+    `\nTurn your notifications on or off with /notifications on|off\n` +
+    `Owners bring people in with /invite <role>`;
+
+  await bot.sendMessage(chatId, message);
+};
+
+const handleNotifications = async ({ chatId, userId }: BotContext, setting?: string) => {
+  const { user, workspace } = (await getMembership(userId))!;
+  const member = workspace.members.find((m) => m.user.equals(user._id))!;
+
+  if (!setting) {
+    await bot.sendMessage(
+      chatId,
+      `${member.subscribed ? "🔔 You get" : "🔕 You don't get"} the monitoring and booking messages of ${workspace.name}.\n\n` +
+      `Change it with /notifications on or /notifications off`
+    );
+    return;
+  }
+
+  const value = setting.trim().toLowerCase();
+  if (value !== "on" && value !== "off") {
+    await bot.sendMessage(chatId, "❌ Usage: /notifications on|off");
+    return;
+  }
+
+  await Workspace.updateOne(
+    { _id: workspace._id, "members.user": user._id },
+    { $set: { "members.$.subscribed": value === "on" } }
+  );
+
+  await bot.sendMessage(
+    chatId,
+    value === "on"
+      ? `🔔 You'll get the monitoring and booking messages of ${workspace.name}.`
+      : `🔕 You won't get the monitoring and booking messages of ${workspace.name} anymore.`
+  );
+};
+
+// Members who already have a role move to another team with its invite
+const handleJoin = async ({ chatId, userId }: BotContext, code?: string) => {
+  if (!code) return;
+
+  const { user, workspace: current } = (await getMembership(userId))!;
+
+  // Nobody would hear about the bookings of a workspace left without members
+  if (current.members.length === 1) {
+    const [accounts, schedules] = await Promise.all([
+      Account.countDocuments({ workspace: current._id }),
+      Schedule.countDocuments({ workspace: current._id, completed: false }),
+    ]);
+    if (accounts > 0 || schedules > 0) {
+      await bot.sendMessage(
+        chatId,
+        `❌ You are the last member of ${current.name}, which still has ${accounts} account(s) ` +
+        `and ${schedules} open schedule(s). Invite someone to take it over (/invite) ` +
+        "or remove them before you join another workspace."
+      );
+      return;
+    }
+  }
+
+  const invite = await Invite.redeem(code, user._id);
+  if (!invite?.workspace) {
+    await bot.sendMessage(
+      chatId,
+      "❌ That invite code is unknown, already used or expired. Ask an owner of the workspace for a new one."
+    );
+    return;
+  }
+
+  const workspace = await Workspace.addMember(invite.workspace, user._id);
+  if (!workspace) {
+    await bot.sendMessage(chatId, "❌ That workspace no longer exists.");
+    return;
+  }
+
+  // Roles are global, an invite never takes rights away
+  const keepsRole = roleAtLeast(user.role, invite.role);
+  if (!keepsRole) user.role = invite.role;
+  user.invitedBy = invite.createdBy;
+  await user.save();
+
+  await bot.sendMessage(
+    chatId,
+    (keepsRole
+      ? `✅ You joined ${workspace.name} and keep your ${user.role} role.\n\n`
+      : `✅ You joined ${workspace.name} as ${invite.role}.\n\n`) +
+    `Accounts and schedules of ${current.name} stay there.`
+  );
+};
+
+const handleRenameWorkspace = async ({ chatId, userId }: BotContext, name?: string) => {
+  if (!name) return;
+
+  const { workspace } = (await getMembership(userId))!;
+
+  const trimmed = name.trim();
+  if (trimmed.length > 100) {
+    await bot.sendMessage(chatId, "❌ The name can be at most 100 characters.");
+    return;
+  }
+
+  const previous = workspace.name;
+  workspace.name = trimmed;
+  await workspace.save();
+
+  await bot.sendMessage(chatId, `✅ Renamed ${previous} to ${workspace.name}.`);
+};
+
+export const workspaceFlow: BotFlow = {
+  name: "workspace",
+  commands: [
+    { command: "workspace", handler: handleWorkspace },
+    { command: "notifications", argument: "optional", handler: handleNotifications },
+    { command: "join", argument: "required", handler: handleJoin },
+    { command: "renameworkspace", argument: "required", access: "owner", handler: handleRenameWorkspace },
+  ],
+  // Printed by /workspace
+  advertises: ["notifications", "invite"],
+};
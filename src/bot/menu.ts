@@ -0,0 +1,57 @@
+import TelegramBot from "node-telegram-bot-api";
+import { bot } from "./bot";
+import { encodeCallback } from "./callbacks";
+
+const mainMenuOptions: TelegramBot.SendMessageOptions = {
+  reply_markup: {
+    inline_keyboard: [
+      [
+        { text: "Add an account", callback_data: encodeCallback("add_account") },
+        { text: "View added accounts", callback_data: encodeCallback("view_accounts") },
+      ],
+      [
+        { text: "Remove an account", callback_data: encodeCallback("remove_account") },
+        { text: "Toggle account status", callback_data: encodeCallback("toggle_account") },
+      ],
+      [
+        { text: "✏️ Edit an account", callback_data: encodeCallback("edit_account") },
+        { text: "👤 Candidate profile", callback_data: encodeCallback("edit_profile") },
+      ],
+      [
+        { text: "📥 Import accounts", callback_data: encodeCallback("import_accounts") },
+        { text: "📤 Export accounts", callback_data: encodeCallback("export_accounts") },
+      ],
+      [
+        { text: "⏰ Schedule scraping", callback_data: encodeCallback("schedule_scraping") },
+        { text: "📅 View schedules", callback_data: encodeCallback("view_schedules") },
+      ],
+      [{ text: "🗑️ Remove schedule", callback_data: encodeCallback("remove_schedule") }],
+      [{ text: "Cancel", callback_data: encodeCallback("cancel") }],
+    ],
+  },
+};
+
+export const cancelOptions: TelegramBot.SendMessageOptions = {
+  reply_markup: {
+    inline_keyboard: [[{ text: "Cancel", callback_data: encodeCallback("cancel") }]],
+  },
+};
+
+export const showMainMenu = (chatId: number, message = "Choose an option:") => {
+  return bot.sendMessage(chatId, message, mainMenuOptions);
+};
+
+/**
+ * Removes the buttons from the menu message that was clicked, so it can't be
+ * used twice.
+ */
+export const clearInlineKeyboard = async (chatId: number, messageId?: number) => {
+  if (!messageId) return;
+  await bot.editMessageReplyMarkup(
+    { inline_keyboard: [] },
+    {
+      chat_id: chatId,
+      message_id: messageId,
+    }
+  );
+};
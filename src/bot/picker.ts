@@ -0,0 +1,86 @@
+import TelegramBot from "node-telegram-bot-api";
+import { bot } from "./bot";
+import { encodeCallback } from "./callbacks";
+
+/**
+ * Paged inline keyboards for choosing one of a workspace's accounts or
+ * schedules. Buttons carry the document's id, so nobody has to type one.
+ */
+
+export const PICKER_PAGE_SIZE = 8;
+
+// Button texts are cut off by the Telegram apps long before their limit
+const MAX_LABEL_LENGTH = 48;
+
+export interface PickerPage<T> {
+  items: T[];
+  // Zero based, clamped to the pages that exist
+  page: number;
+  pageCount: number;
+}
+
+export const paginate = <T>(
+  items: T[],
+  page: number,
+  pageSize = PICKER_PAGE_SIZE
+): PickerPage<T> => {
+  const pageCount = Math.max(1, Math.ceil(items.length / pageSize));
+  const current = Number.isInteger(page) ? Math.min(Math.max(page, 0), pageCount - 1) : 0;
+  return {
+    items: items.slice(current * pageSize, (current + 1) * pageSize),
+    page: current,
+    pageCount,
+  };
+};
+
+export const pickerLabel = (text: string) =>
+  text.length > MAX_LABEL_LENGTH ? `${text.slice(0, MAX_LABEL_LENGTH - 1)}…` : text;
+
+/**
+ * One button per item, then previous/next when there is more than one page
+ * and Cancel.
+ */
+export const pickerKeyboard = <T>(
+  { items, page, pageCount }: PickerPage<T>,
+  button: (item: T) => TelegramBot.InlineKeyboardButton,
+  pageCallback: (page: number) => string
+): TelegramBot.InlineKeyboardButton[][] => {
+  const keyboard = items.map((item) => [button(item)]);
+
+  const navigation: TelegramBot.InlineKeyboardButton[] = [];
+  if (page > 0) {
+    navigation.push({ text: "◀️ Previous", callback_data: pageCallback(page - 1) });
+  }
+  if (page < pageCount - 1) {
+    navigation.push({ text: "Next ▶️", callback_data: pageCallback(page + 1) });
+  }
+  if (navigation.length > 0) keyboard.push(navigation);
+
+  keyboard.push([{ text: "Cancel", callback_data: encodeCallback("cancel") }]);
+  return keyboard;
+};
+
+/**
+ * Sends the picker, or replaces the one that was clicked when paging or
+ * going back to it.
+ */
+export const showPicker = async (
+  chatId: number,
+  text: string,
+  keyboard: TelegramBot.InlineKeyboardButton[][],
+  messageId?: number
+) => {
+  const reply_markup = { inline_keyboard: keyboard };
+  if (!messageId) {
+    await bot.sendMessage(chatId, text, { reply_markup });
+    return;
+  }
+
+  try {
+    await bot.editMessageText(text, { chat_id: chatId, message_id: messageId, reply_markup });
+  } catch (error) {
+    // Clicking the page that is already shown
+    if ((error as Error).message?.includes("message is not modified")) return;
+    throw error;
+  }
+};
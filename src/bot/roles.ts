@@ -0,0 +1,45 @@
+import dotenv from "dotenv";
+import User, { roleAtLeast, USER_ROLES, UserRole } from "../models/userSchema";
+
+dotenv.config();
+
+/**
+ * Who may do what. Owners manage accounts, users and invites, operators
+ * create and run schedules, viewers only look at schedules and exams.
+ * Users without a role haven't joined yet and can only redeem an invite.
+ */
+
+// Route access, "anyone" also lets users without a role through
+export type RouteAccess = UserRole | "anyone";
+
+// Telegram ids that become owner on /start, to bootstrap a fresh install
+export const OWNER_TELEGRAM_IDS = new Set(
+  (process.env.BOT_OWNER_TELEGRAM_IDS || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean)
+);
+
+// How long an invite code can be redeemed
+export const INVITE_TTL_HOURS = parseInt(process.env.INVITE_TTL_HOURS || "", 10) || 72;
+
+export const isUserRole = (value: string): value is UserRole =>
+  (USER_ROLES as readonly string[]).includes(value);
+
+export const hasRole = (
+  role: UserRole | null | undefined,
+  required: RouteAccess
+): boolean => {
+  return required === "anyone" || roleAtLeast(role, required);
+};
+
+export const getUserRole = async (telegramId: string): Promise<UserRole | null> => {
+  const user = await User.findOne({ telegramId }).select("role").lean();
+  return (user?.role as UserRole | null | undefined) || null;
+};
+
+export const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  viewer: "sees schedules, their status and upcoming exams",
+  operator: "creates, runs and changes schedules",
+  owner: "manages accounts, users and invites",
+};
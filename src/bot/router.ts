@@ -0,0 +1,268 @@
+import TelegramBot from "node-telegram-bot-api";
+import { CallbackAction, CallbackPayload, parseCallback } from "./callbacks";
+import { showMainMenu } from "./menu";
+import { getUserRole, hasRole, RouteAccess } from "./roles";
+import { BotState, clearUserState, getUserState } from "./states";
+
+export interface BotContext {
+  chatId: number;
+  userId: string;
+  username?: string;
+  // Message the clicked inline keyboard belongs to
+  messageId?: number;
+  text?: string;
+  message?: TelegramBot.Message;
+}
+
+export interface CommandRoute {
+  // "pause" handles /pause_<arg> and /pause <arg>
+  command: string;
+  argument?: "required" | "optional";
+  // Defaults to the flow's access
+  access?: RouteAccess;
+  handler: (ctx: BotContext, arg?: string) => Promise<unknown>;
+}
+
+export interface CallbackRoute<A extends CallbackAction = CallbackAction> {
+  action: A;
+  // Only handle the button while the user is in one of these states
+  states?: BotState[];
+  access?: RouteAccess;
+  handler: (ctx: BotContext, payload: CallbackPayload<A>) => Promise<unknown>;
+}
+
+export type AnyCallbackRoute = {
+  [A in CallbackAction]: CallbackRoute<A>;
+}[CallbackAction];
+
+export interface MessageRoute {
+  state: BotState;
+  access?: RouteAccess;
+  handler: (ctx: BotContext) => Promise<unknown>;
+}
+
+/**
+ * A self-contained part of the bot. Flows only declare their routes, the
+ * router owns the Telegram listeners.
+ */
+export interface BotFlow {
+  name: string;
+  // Role needed for routes that don't set their own, "viewer" if unset
+  access?: RouteAccess;
+  commands?: CommandRoute[];
+  callbacks?: AnyCallbackRoute[];
+  messages?: MessageRoute[];
+  // Commands this flow prints in its messages, checked against the routes
+  advertises?: string[];
+}
+
+interface CompiledCommand {
+  route: CommandRoute;
+  pattern: RegExp;
+}
+
+export class BotRouter {
+  private commands: CompiledCommand[] = [];
+  private callbacks = new Map<CallbackAction, AnyCallbackRoute>();
+  private messages = new Map<BotState, MessageRoute>();
+  private advertised = new Map<string, string>();
+
+  use(flow: BotFlow): this {
+    const access = flow.access || "viewer";
+
+    for (const route of flow.commands || []) {
+      if (this.commands.some((c) => c.route.command === route.command)) {
+        throw new Error(`Command /${route.command} registered twice (${flow.name})`);
+      }
+      this.commands.push({
+        route: { ...route, access: route.access || access },
+        pattern: new RegExp(`^\\/${route.command}(?:@\\w+)?(?:[_\\s]+([\\s\\S]+))?$`),
+      });
+    }
+
+    for (const route of flow.callbacks || []) {
+      if (this.callbacks.has(route.action)) {
+        throw new Error(`Callback ${route.action} registered twice (${flow.name})`);
+      }
+      this.callbacks.set(route.action, { ...route, access: route.access || access });
+    }
+
+    for (const route of flow.messages || []) {
+      if (this.messages.has(route.state)) {
+        throw new Error(`State ${route.state} handled twice (${flow.name})`);
+      }
+      this.messages.set(route.state, { ...route, access: route.access || access });
+    }
+
+    for (const command of flow.advertises || []) {
+      this.advertised.set(command, flow.name);
+    }
+
+    return this;
+  }
+
+  /**
+   * Commands that are printed to users but have no handler.
+   */
+  missingCommands(): string[] {
+    return Array.from(this.advertised.keys()).filter(
+      (command) => !this.commands.some((c) => c.route.command === command)
+    );
+  }
+
+  hasCommand(command: string): boolean {
+    return this.commands.some((c) => c.route.command === command);
+  }
+
+  attach(bot: TelegramBot): void {
+    for (const command of this.missingCommands()) {
+      console.warn(
+        `⚠️ /${command} is advertised by the ${this.advertised.get(command)} flow but has no handler`
+      );
+    }
+
+    bot.on("message", (msg) => this.handleMessage(bot, msg));
+    bot.on("callback_query", (query) => this.handleCallback(bot, query));
+
+    console.log(
+      `🧭 Bot router attached: ${this.commands.length} commands, ${this.callbacks.size} callbacks, ${this.messages.size} message states`
+    );
+  }
+
+  private async handleMessage(bot: TelegramBot, msg: TelegramBot.Message) {
+    const userId = msg.from?.id?.toString();
+    if (!userId) return;
+
+    const ctx: BotContext = {
+      chatId: msg.chat.id,
+      userId,
+      username: msg.from?.username,
+      text: msg.text,
+      message: msg,
+    };
+
+    await this.run(bot, ctx, async () => {
+      if (msg.text && msg.text.startsWith("/")) {
+        await this.dispatchCommand(bot, ctx, msg.text.trim());
+        return;
+      }
+
+      const userState = await getUserState(userId);
+      const route = this.messages.get(userState.state as BotState);
+      if (!route) {
+        await showMainMenu(ctx.chatId, "Please use the menu buttons to navigate:");
+        return;
+      }
+      if (!(await this.authorize(bot, ctx, route.access!))) return;
+      await route.handler(ctx);
+    });
+  }
+
+  private async dispatchCommand(bot: TelegramBot, ctx: BotContext, text: string) {
+    for (const { route, pattern } of this.commands) {
+      const match = text.match(pattern);
+      if (!match) continue;
+
+      const arg = match[1]?.trim();
+      if (route.argument === "required" && !arg) {
+        await bot.sendMessage(
+          ctx.chatId,
+          `❌ /${route.command} needs an argument, e.g. /${route.command}_<id>`
+        );
+        return;
+      }
+      if (!route.argument && arg) continue;
+
+      if (!(await this.authorize(bot, ctx, route.access!))) return;
+      await route.handler(ctx, arg);
+      return;
+    }
+
+    await bot.sendMessage(
+      ctx.chatId,
+      "❓ Unknown command. Type /start for the menu or /schedulehelp for schedule commands."
+    );
+  }
+
+  private async handleCallback(bot: TelegramBot, query: TelegramBot.CallbackQuery) {
+    const chatId = query.message?.chat.id;
+    const messageId = query.message?.message_id;
+    if (!chatId || !messageId) return;
+
+    // Telegram refuses queries that are too old or already answered, the
+    // button should still work
+    await bot.answerCallbackQuery(query.id).catch((error) => {
+      console.error("Failed to answer callback query:", error.message);
+    });
+
+    const ctx: BotContext = {
+      chatId,
+      userId: query.from.id.toString(),
+      username: query.from.username,
+      messageId,
+    };
+
+    await this.run(bot, ctx, async () => {
+      const payload = parseCallback(query.data);
+      const route = payload && this.callbacks.get(payload.action);
+      if (!payload || !route) {
+        await showMainMenu(chatId);
+        return;
+      }
+
+      if (route.states) {
+        const userState = await getUserState(ctx.userId);
+        if (!route.states.includes(userState.state as BotState)) {
+          await showMainMenu(chatId, "Please use the menu to navigate:");
+          return;
+        }
+      }
+
+      if (!(await this.authorize(bot, ctx, route.access!))) return;
+
+      // The action was looked up from the payload, so the pair always matches
+      const handler = route.handler as CallbackRoute["handler"];
+      await handler(ctx, payload);
+    });
+  }
+
+  /**
+   * Checks the sender's role against the route, and tells them why not.
+   */
+  private async authorize(
+    bot: TelegramBot,
+    ctx: BotContext,
+    access: RouteAccess
+  ): Promise<boolean> {
+    if (access === "anyone") return true;
+
+    const role = await getUserRole(ctx.userId);
+    if (hasRole(role, access)) return true;
+
+    await bot.sendMessage(
+      ctx.chatId,
+      role
+        ? `🔒 This needs the ${access} role, you are ${role}. Ask an owner if you need more access.`
+        : "🔒 This bot is invite-only. Ask an owner for an invite code and send /start <code>."
+    );
+    return false;
+  }
+
+  private async run(bot: TelegramBot, ctx: BotContext, fn: () => Promise<void>) {
+    try {
+      await fn();
+    } catch (error) {
+      console.error("Error handling Telegram update:", error);
+      try {
+        await clearUserState(ctx.userId);
+        await bot.sendMessage(
+          ctx.chatId,
+          "❌ Sorry, there was an error. Please try again."
+        );
+        await showMainMenu(ctx.chatId);
+      } catch (replyError) {
+        console.error("Failed to report error to user:", replyError);
+      }
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import { stateStore, UserState } from "../state/stateStore";
+
+export const STATES = {
+  IDLE: "idle",
+  ADDING_ACCOUNT: "adding_account",
+  REMOVING_ACCOUNT: "removing_account",
+  TOGGLING_ACCOUNT: "toggling_account",
+  EDITING_ACCOUNT: "editing_account",
+  CHANGING_PASSWORD: "changing_password",
+  SELECTING_MODULES: "selecting_modules",
+  SETTING_SCHEDULE: "setting_schedule",
+  SETTING_SCHEDULE_TARGET: "setting_schedule_target",
+  VIEWING_SCHEDULES: "viewing_schedules",
+  REMOVING_SCHEDULE: "removing_schedule",
+  SELECTING_PROFILE_ACCOUNT: "selecting_profile_account",
+  EDITING_PROFILE: "editing_profile",
+  IMPORTING_ACCOUNTS: "importing_accounts",
+} as const;
+
+export type BotState = (typeof STATES)[keyof typeof STATES];
+
+export const getUserState = async (userId: string): Promise<UserState> => {
+  if (!userId) return { state: STATES.IDLE };
+  return (await stateStore.get(userId)) || { state: STATES.IDLE };
+};
+
+export const setUserState = async (
+  userId: string,
+  state: BotState,
+  data = {}
+) => {
+  const newState = {
+    ...data,
+    state,
+  };
+  await stateStore.set(userId, newState);
+};
+
+export const clearUserState = async (userId: string) => {
+  if (!userId) return;
+  await stateStore.clear(userId);
+};
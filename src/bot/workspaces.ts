@@ -0,0 +1,28 @@
+import mongoose from "mongoose";
+import User from "../models/userSchema";
+import Workspace from "../models/workspaceSchema";
+
+/**
+ * Accounts and schedules belong to a workspace, not to the user who added
+ * them. Every member sees and manages all of them, and subscribed members
+ * get the scheduler's notifications.
+ */
+
+// The user and the workspace they work in, null for unknown users
+export const getMembership = async (telegramId: string) => {
+  const user = await User.findOne({ telegramId });
+  if (!user) return null;
+
+  const workspace = await Workspace.ensureForUser(user);
+  return { user, workspace };
+};
+
+export type Membership = NonNullable<Awaited<ReturnType<typeof getMembership>>>;
+
+// Whether a document's workspace ref points at the member's workspace
+export const inWorkspace = (
+  membership: Membership | null,
+  workspaceId: mongoose.Types.ObjectId | undefined
+): membership is Membership => {
+  return !!membership && !!workspaceId && membership.workspace._id.equals(workspaceId);
+};
@@ -1,5 +1,10 @@
 import puppeteer, { Browser, Page } from "puppeteer";
 import { proxyPool, USE_PROXIES } from "../proxyPool";
+import dotenv from "dotenv";
+import { goetheUrl } from "../config/goethe";
+import { logger } from "../utils/logger";
+
+dotenv.config();
 
 interface PrewarmedBrowser {
   browser: Browser;
@@ -9,16 +14,32 @@ interface PrewarmedBrowser {
   isReady: boolean;
   createdAt: Date;
   proxyUsed?: string;
+  // Session (schedule id) the browser is reserved for
+  leaseId: string;
 }
 
 const activeDisplays = new Set<string>();
-const displayPool: string[] = Array.from({ length: 20 }, (_, i) => `:${i + 1}`);
+const DISPLAY_COUNT = 20;
+const displayPool: string[] = Array.from({ length: DISPLAY_COUNT }, (_, i) => `:${i + 1}`);
+
+// Browsers warmed per schedule. Displays go to whichever lease asks first, so
+// only DISPLAY_COUNT / BROWSERS_PER_LEASE schedules get a full set at the same
+// time. The default leaves room for two.
+const BROWSERS_PER_LEASE = Math.min(
+  parseInt(process.env.BROWSERS_PER_SCHEDULE || "", 10) || DISPLAY_COUNT / 2,
+  DISPLAY_COUNT
+);
+
+// System Chromium, the headful browsers need the displays set up for it
+export const CHROMIUM_EXECUTABLE = "/usr/bin/chromium-browser";
 
 class PrewarmedBrowserPool {
   private browsers: Map<number, PrewarmedBrowser> = new Map();
-  private warmingUp: Set<number> = new Set();
+  // browserNumber -> leaseId
+  private warmingUp: Map<number, string> = new Map();
   private displayAllocationLock = Promise.resolve();
-  private preNavigated = false;
+  private preNavigatedLeases = new Set<string>();
+  private nextBrowserNumber = 1;
 
   private async allocateDisplay(): Promise<string | null> {
     return new Promise((resolve) => {
@@ -26,14 +47,16 @@ class PrewarmedBrowserPool {
         for (const display of displayPool) {
           if (!activeDisplays.has(display)) {
             activeDisplays.add(display);
-            console.log(
-              `📺 Allocated ${display} (${activeDisplays.size}/${displayPool.length})`
-            );
+            logger.debug("Allocated display", {
+              display,
+              displaysInUse: activeDisplays.size,
+              displays: displayPool.length,
+            });
             resolve(display);
             return;
           }
         }
-        console.warn(`⚠️ All displays busy`);
+        logger.warn("All displays busy", { displays: displayPool.length });
         resolve(null);
       });
     });
@@ -42,16 +65,18 @@ class PrewarmedBrowserPool {
   private releaseDisplay(display: string): void {
     if (activeDisplays.has(display)) {
       activeDisplays.delete(display);
-      console.log(`♻️ Released ${display}`);
+      logger.debug("Released display", { display });
     }
   }
 
   private async prewarmBrowser(
     browserNumber: number,
-    display: string
+    display: string,
+    leaseId: string
   ): Promise<PrewarmedBrowser | null> {
+    const log = logger.child({ scheduleId: leaseId, browserNumber });
     try {
-      console.log(`🔥 Pre-warming browser ${browserNumber} on ${display}...`);
+      log.debug("Pre-warming browser", { display });
 
       let proxy: any = null;
       let proxyUrl = "";
@@ -59,7 +84,7 @@ class PrewarmedBrowserPool {
         proxy = proxyPool.getNextProxy();
         if (proxy) {
           proxyUrl = `${proxy.host}:${proxy.port}`;
-          console.log(`🔒 Proxy ${proxyUrl} → Browser ${browserNumber}`);
+          log.info("Using proxy", { proxy: proxyUrl });
         }
       }
 
@@ -114,7 +139,7 @@ class PrewarmedBrowserPool {
 
       const browser = await puppeteer.launch({
         headless: false,
-        executablePath: "/usr/bin/chromium-browser",
+        executablePath: CHROMIUM_EXECUTABLE,
         env: {
           DISPLAY: display,
           CHROME_DEVEL_SANDBOX: "/usr/local/sbin/chrome-devel-sandbox",
@@ -175,7 +200,7 @@ class PrewarmedBrowserPool {
         );
       });
 
-      console.log(`✅ Pre-warmed browser ${browserNumber}`);
+      log.info("Pre-warmed browser", { display, proxy: proxyUrl || undefined });
 
       return {
         browser,
@@ -185,33 +210,38 @@ class PrewarmedBrowserPool {
         isReady: true,
         createdAt: new Date(),
         proxyUsed: proxyUrl,
+        leaseId,
       };
     } catch (error) {
-      console.error(`❌ Pre-warm failed browser ${browserNumber}:`, error);
+      log.error("Pre-warm failed", { display, err: error });
       this.releaseDisplay(display);
       return null;
     }
   }
 
   // Pre-navigate browsers to Goethe domain for faster connection
-  async preNavigateBrowsers(): Promise<void> {
-    if (this.preNavigated) return;
+  async preNavigateBrowsers(leaseId: string): Promise<void> {
+    if (this.preNavigatedLeases.has(leaseId)) return;
     
-    const browsers = this.getAllReadyBrowsers();
-    
-    console.log(`🌐 Pre-navigating ${browsers.length} browsers to goethe.de...`);
+    const browsers = this.getLeaseBrowsers(leaseId);
+    const log = logger.child({ scheduleId: leaseId });
+
+    log.info("Pre-navigating browsers to goethe.de", { browsers: browsers.length });
     
     const navPromises = browsers.map(async (browser) => {
       try {
         // Pre-establish connection to Goethe domain
-        await browser.page.goto('https://www.goethe.de/', {
+        await browser.page.goto(goetheUrl("/"), {
           waitUntil: 'domcontentloaded',
           timeout: 10000
         });
-        console.log(`✅ Pre-navigated browser ${browser.browserNumber}`);
+        log.debug("Pre-navigated browser", { browserNumber: browser.browserNumber });
         return true;
       } catch (error) {
-        console.warn(`⚠️ Pre-navigation failed for browser ${browser.browserNumber}`);
+        log.warn("Pre-navigation failed", {
+          browserNumber: browser.browserNumber,
+          error: (error as Error).message,
+        });
         return false;
       }
     });
@@ -219,66 +249,123 @@ class PrewarmedBrowserPool {
     const results = await Promise.allSettled(navPromises);
     const successful = results.filter(r => r.status === 'fulfilled' && r.value).length;
     
-    console.log(`🌐 Pre-navigation complete: ${successful}/${browsers.length} successful`);
-    this.preNavigated = true;
+    log.info("Pre-navigation complete", { successful, browsers: browsers.length });
+    this.preNavigatedLeases.add(leaseId);
   }
 
-  // MODIFIED: Warm exactly 20 browsers (no user/account dependency)
-  async warmup20Browsers(): Promise<void> {
+  /**
+   * Warms browsers reserved for one session. Other sessions never see them,
+   * and releaseLease() only closes these. Returns the ready browsers, which
+   * can be fewer than requested when displays run out.
+   */
+  async acquireLease(
+    leaseId: string,
+    count = BROWSERS_PER_LEASE
+  ): Promise<PrewarmedBrowser[]> {
+    const log = logger.child({ scheduleId: leaseId });
     try {
-      console.log(`🔥 Warming up 20 browsers...`);
+      const missing =
+        count -
+        this.getLeaseBrowsers(leaseId).length -
+        Array.from(this.warmingUp.values()).filter((id) => id === leaseId).length;
+
+      log.info("Warming up browsers", { missing: Math.max(missing, 0), requested: count });
 
-      // Warm 20 browsers in parallel
+      // Warm the browsers in parallel
       const warmupPromises = [];
-      
-      for (let i = 1; i <= 20; i++) {
-        if (this.warmingUp.has(i) || this.browsers.has(i)) {
-          continue;
-        }
 
-        this.warmingUp.add(i);
+      for (let i = 0; i < missing; i++) {
+        const browserNumber = this.nextBrowserNumber++;
+        this.warmingUp.set(browserNumber, leaseId);
 
-        const warmupPromise = (async (browserNumber: number) => {
+        const warmupPromise = (async () => {
           try {
             const display = await this.allocateDisplay();
             if (!display) {
-              console.warn(`⚠️ No display for browser ${browserNumber}`);
-              this.warmingUp.delete(browserNumber);
+              log.warn("No display for browser", { browserNumber });
               return;
             }
 
-            const prewarmed = await this.prewarmBrowser(browserNumber, display);
+            const prewarmed = await this.prewarmBrowser(
+              browserNumber,
+              display,
+              leaseId
+            );
 
             if (prewarmed) {
               this.browsers.set(browserNumber, prewarmed);
-              console.log(
-                `✅ Browser ${browserNumber} warmed (${this.browsers.size}/20)`
-              );
+              log.debug("Browser warmed", {
+                browserNumber,
+                ready: this.getLeaseBrowsers(leaseId).length,
+                requested: count,
+              });
             } else {
               this.releaseDisplay(display);
             }
           } catch (error) {
-            console.error(`❌ Browser ${browserNumber} warmup failed:`, error);
+            log.error("Browser warmup failed", { browserNumber, err: error });
           } finally {
             this.warmingUp.delete(browserNumber);
           }
-        })(i);
+        })();
 
         warmupPromises.push(warmupPromise);
       }
 
       await Promise.all(warmupPromises);
 
-      console.log(
-        `🎉 Warming complete! ${this.browsers.size}/20 ready`
-      );
-      
-      // Pre-navigate all browsers after warming
-      await this.preNavigateBrowsers();
-      
+      const ready = this.getLeaseBrowsers(leaseId).length;
+      log.info("Warming complete", { ready, requested: count });
+      if (ready < count) {
+        log.warn("Lease got fewer browsers than requested", {
+          ready,
+          requested: count,
+          displaysInUse: activeDisplays.size,
+          displays: displayPool.length,
+        });
+      }
+
+      // Pre-navigate the lease's browsers after warming
+      await this.preNavigateBrowsers(leaseId);
     } catch (error) {
-      console.error(`❌ Warmup error:`, error);
+      log.error("Warmup error", { err: error });
+    }
+
+    return this.getLeaseBrowsers(leaseId);
+  }
+
+  getLeaseBrowsers(leaseId: string): PrewarmedBrowser[] {
+    return this.getAllReadyBrowsers().filter((b) => b.leaseId === leaseId);
+  }
+
+  async releaseLease(leaseId: string): Promise<void> {
+    const browserNumbers = Array.from(this.browsers.values())
+      .filter((b) => b.leaseId === leaseId)
+      .map((b) => b.browserNumber);
+
+    if (browserNumbers.length > 0) {
+      logger.info("Releasing lease browsers", {
+        scheduleId: leaseId,
+        browsers: browserNumbers.length,
+      });
     }
+
+    await Promise.allSettled(browserNumbers.map((num) => this.closeBrowser(num)));
+    this.preNavigatedLeases.delete(leaseId);
+  }
+
+  getLeaseStatus(leaseId: string) {
+    const browsers = Array.from(this.browsers.values()).filter(
+      (b) => b.leaseId === leaseId
+    );
+    return {
+      readyBrowsers: browsers.filter((b) => b.isReady).length,
+      warmingBrowsers: Array.from(this.warmingUp.values()).filter(
+        (id) => id === leaseId
+      ).length,
+      displays: browsers.map((b) => b.display),
+      preNavigated: this.preNavigatedLeases.has(leaseId),
+    };
   }
 
   // Get all ready browsers for simultaneous launch
@@ -290,7 +377,7 @@ class PrewarmedBrowserPool {
     const browser = this.browsers.get(browserNumber);
 
     if (browser && browser.isReady) {
-      console.log(`⚡ INSTANT: Got pre-warmed browser ${browserNumber}`);
+      logger.debug("Handing out pre-warmed browser", { browserNumber });
       return browser;
     }
 
@@ -309,15 +396,19 @@ class PrewarmedBrowserPool {
         await browser.browser.close();
         this.releaseDisplay(browser.display);
         this.browsers.delete(browserNumber);
-        console.log(`🔄 Closed browser ${browserNumber}`);
+        logger.debug("Closed browser", { browserNumber, scheduleId: browser.leaseId });
       } catch (error) {
-        console.error(`❌ Close error browser ${browserNumber}:`, error);
+        logger.error("Failed to close browser", {
+          browserNumber,
+          scheduleId: browser.leaseId,
+          err: error,
+        });
       }
     }
   }
 
   async closeAllBrowsers(): Promise<void> {
-    console.log(`🔄 Closing ${this.browsers.size} browsers...`);
+    logger.info("Closing all browsers", { browsers: this.browsers.size });
 
     const closePromises = Array.from(this.browsers.keys()).map((num) =>
       this.closeBrowser(num)
@@ -327,12 +418,17 @@ class PrewarmedBrowserPool {
 
     this.browsers.clear();
     activeDisplays.clear();
-    this.preNavigated = false;
+    this.preNavigatedLeases.clear();
 
-    console.log(`✅ All browsers closed`);
+    logger.info("All browsers closed");
   }
 
   getStatus(): any {
+    const leases: Record<string, number> = {};
+    for (const browser of this.browsers.values()) {
+      leases[browser.leaseId] = (leases[browser.leaseId] || 0) + 1;
+    }
+
     return {
       totalBrowsers: this.browsers.size,
       readyBrowsers: Array.from(this.browsers.values()).filter((b) => b.isReady)
@@ -340,7 +436,8 @@ class PrewarmedBrowserPool {
       warmingBrowsers: this.warmingUp.size,
       displays: Array.from(this.browsers.values()).map((b) => b.display),
       browserNumbers: Array.from(this.browsers.keys()),
-      preNavigated: this.preNavigated,
+      leases,
+      preNavigatedLeases: Array.from(this.preNavigatedLeases),
     };
   }
 
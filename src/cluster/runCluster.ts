@@ -1,9 +1,15 @@
 import startBooking from "../booking/book";
-import { bot } from "..";
+import { bot } from "../bot/bot";
 import Schedule from "../models/scheduleSchema";
-import { UserDocument } from "../models/userSchema";
+import { BrowserOutcome } from "../models/scheduleRunSchema";
+import Workspace from "../models/workspaceSchema";
 import dotenv from "dotenv";
-import { browserPool } from "../browsers/prewarmedBrowserPool";
+import { checkoutUrl } from "../config/goethe";
+import { Logger, logger } from "../utils/logger";
+import {
+  browserPool,
+  PrewarmedBrowser,
+} from "../browsers/prewarmedBrowserPool";
 
 dotenv.config();
 
@@ -14,58 +20,61 @@ interface DisplayInfo {
   vncPort: number;
 }
 
+export interface RunResult {
+  reachedPage: boolean;
+  successCount: number;
+  totalBrowsers: number;
+  browsers: BrowserOutcome[];
+}
+
 /**
- * OPTIMIZED: Use prewarmed browsers and redirect them in PARALLEL
+ * OPTIMIZED: Use the schedule's prewarmed browsers and redirect them in PARALLEL
+ * The schedule status is left to the caller, based on the result.
  */
 export const runAllAccountsWithPrewarmedBrowsers = async (
   oid: string,
-  scheduleId?: string
-) => {
+  scheduleId: string
+): Promise<RunResult> => {
   const startTime = Date.now();
-  console.log(`⚡⚡⚡ REDIRECTING PREWARMED BROWSERS - OID: ${oid}`);
+  const log = logger.child({ scheduleId, oid });
+  log.info("Redirecting prewarmed browsers");
 
-  let user: UserDocument | null = null;
-
-  // Get user for notifications
-  if (scheduleId) {
-    try {
-      const schedule = await Schedule.findById(scheduleId).populate(
-        "createdBy"
-      );
-      user = schedule?.createdBy as unknown as UserDocument;
-    } catch (err) {
-      console.error("Failed to get user:", err);
+  // Everyone subscribed to the schedule's workspace hears about the booking
+  let chatIds: string[] = [];
+  try {
+    const schedule = await Schedule.findById(scheduleId);
+    if (schedule) {
+      const members = await Workspace.findSubscribers(schedule.workspace);
+      chatIds = members.map((member) => member.telegramId);
     }
+  } catch (err) {
+    log.error("Failed to load the workspace's subscribers", { err });
   }
 
   const sendLog = (message: string) => {
-    if (user?.telegramId) {
-      setImmediate(() => {
+    setImmediate(() => {
+      for (const chatId of chatIds) {
         bot
-          .sendMessage(user!.telegramId, message, { parse_mode: "Markdown" })
+          .sendMessage(chatId, message, { parse_mode: "Markdown" })
           .catch(() => {});
-      });
-    }
+      }
+    });
   };
 
-  const bookingUrl = `https://www.goethe.de/coe?lang=en&oid=${oid}`;
+  const bookingUrl = checkoutUrl(oid);
 
-  // Get all prewarmed browsers
-  const prewarmedBrowsers = browserPool.getAllReadyBrowsers();
+  // Only the browsers leased to this schedule
+  const prewarmedBrowsers = browserPool.getLeaseBrowsers(scheduleId);
 
   if (prewarmedBrowsers.length === 0) {
-    console.error("❌ No prewarmed browsers available!");
+    log.error("No prewarmed browsers available");
     sendLog(
       `❌ **No Browsers Ready**\n\n` +
       `No prewarmed browsers found. Please ensure browsers are warmed up before OID detection.`
     );
-    return;
+    return { reachedPage: false, successCount: 0, totalBrowsers: 0, browsers: [] };
   }
 
-  console.log(
-    `🔥 Found ${prewarmedBrowsers.length} prewarmed browsers ready to redirect`
-  );
-
   sendLog(
     `⚡⚡⚡ **OID DETECTED - REDIRECTING NOW**\n` +
     `🆔 OID: ${oid}\n` +
@@ -73,28 +82,45 @@ export const runAllAccountsWithPrewarmedBrowsers = async (
   );
 
   // Navigate ALL browsers in PARALLEL
-  console.log(`🌐 Redirecting ${prewarmedBrowsers.length} browsers in PARALLEL...`);
+  log.info("Redirecting browsers in parallel", {
+    browsers: prewarmedBrowsers.length,
+  });
 
   const navigationPromises = prewarmedBrowsers.map((browser) =>
-    navigateAndStartBooking(browser, bookingUrl, oid, scheduleId)
+    navigateAndStartBooking(
+      browser,
+      bookingUrl,
+      oid,
+      chatIds,
+      log.child({ browserNumber: browser.browserNumber })
+    )
   );
 
   const navResults = await Promise.allSettled(navigationPromises);
 
-  let navSuccessCount = 0;
-  navResults.forEach((result, index) => {
-    if (result.status === "fulfilled" && result.value) {
-      navSuccessCount++;
-      console.log(`✅ Browser ${index + 1} redirected successfully`);
-    } else {
-      console.error(`❌ Browser ${index + 1} failed to redirect`);
-    }
+  const outcomes: BrowserOutcome[] = navResults.map((result, index) => {
+    const browser = prewarmedBrowsers[index];
+    if (result.status === "fulfilled") return result.value;
+    return {
+      browserNumber: browser.browserNumber,
+      display: browser.display,
+      proxyUsed: browser.proxyUsed,
+      reachedPage: false,
+      error: String(result.reason?.message || result.reason),
+    };
   });
 
+  const navSuccessCount = outcomes.filter((outcome) => outcome.reachedPage).length;
+
   const totalTime = Date.now() - startTime;
-  console.log(
-    `🎯 Total redirect time: ${totalTime}ms, ${navSuccessCount}/${prewarmedBrowsers.length} successful`
-  );
+  log.info("Redirect finished", {
+    durationMs: totalTime,
+    reached: navSuccessCount,
+    browsers: prewarmedBrowsers.length,
+    failedBrowsers: outcomes
+      .filter((outcome) => !outcome.reachedPage)
+      .map((outcome) => outcome.browserNumber),
+  });
 
   sendLog(
     `✅ **Browsers Redirected**\n\n` +
@@ -103,34 +129,32 @@ export const runAllAccountsWithPrewarmedBrowsers = async (
     `🎯 Booking process started on all browsers!`
   );
 
-  // Update schedule status
-  if (scheduleId) {
-    setImmediate(async () => {
-      try {
-        await Schedule.findByIdAndUpdate(scheduleId, {
-          completed: true,
-          status: navSuccessCount > 0 ? "success" : "failed",
-          lastRun: new Date(),
-          lastError:
-            navSuccessCount === 0 ? "All browsers failed to reach page" : null,
-        });
-      } catch (error) {
-        console.error("Failed to update schedule:", error);
-      }
-    });
-  }
-
   // Browsers will remain open for 5 hours as handled by book.ts
+  return {
+    reachedPage: navSuccessCount > 0,
+    successCount: navSuccessCount,
+    totalBrowsers: prewarmedBrowsers.length,
+    browsers: outcomes,
+  };
 };
 
 async function navigateAndStartBooking(
-  browser: any,
+  browser: PrewarmedBrowser,
   bookingUrl: string,
   oid: string,
-  scheduleId?: string
-): Promise<boolean> {
+  chatIds: string[],
+  log: Logger
+): Promise<BrowserOutcome> {
+  const outcome: BrowserOutcome = {
+    browserNumber: browser.browserNumber,
+    display: browser.display,
+    proxyUsed: browser.proxyUsed,
+    reachedPage: false,
+  };
+  const navigationStart = Date.now();
+
   try {
-    console.log(`🌐 Browser ${browser.browserNumber}: Redirecting to ${bookingUrl}...`);
+    log.debug("Redirecting to booking page", { url: bookingUrl });
 
     // Navigate to the OID URL - prewarmed browser already has page ready
     await browser.page.goto(bookingUrl, {
@@ -138,21 +162,9 @@ async function navigateAndStartBooking(
       timeout: 60000,
     });
 
-    console.log(`✅ Browser ${browser.browserNumber}: Reached booking page`);
-
-    // Get chatId for notifications
-    let chatId: string | null = null;
-    if (scheduleId) {
-      try {
-        const schedule = await Schedule.findById(scheduleId).populate(
-          "createdBy"
-        );
-        const user = schedule?.createdBy as unknown as UserDocument;
-        chatId = user?.telegramId || null;
-      } catch (err) {
-        console.error("Failed to get user:", err);
-      }
-    }
+    outcome.reachedPage = true;
+    outcome.navigationMs = Date.now() - navigationStart;
+    log.info("Reached booking page", { navigationMs: outcome.navigationMs });
 
     // Create displayInfo from prewarmed browser
     const displayInfo: DisplayInfo = {
@@ -171,24 +183,17 @@ async function navigateAndStartBooking(
       oid,
       bot,
       displayInfo,
-      chatId
+      chatIds,
+      log
     );
 
-    return true;
+    return outcome;
   } catch (error) {
-    console.error(`❌ Browser ${browser.browserNumber}: Redirect failed:`, error);
+    log.error("Redirect failed", { err: error });
+    outcome.error = (error as Error).message;
 
     // Even on error, try to pass to book.ts - it will handle retries
     try {
-      let chatId: string | null = null;
-      if (scheduleId) {
-        const schedule = await Schedule.findById(scheduleId).populate(
-          "createdBy"
-        );
-        const user = schedule?.createdBy as unknown as UserDocument;
-        chatId = user?.telegramId || null;
-      }
-
       const displayInfo: DisplayInfo = {
         display: browser.display,
         displayNumber: browser.display.replace(":", ""),
@@ -204,15 +209,13 @@ async function navigateAndStartBooking(
         oid,
         bot,
         displayInfo,
-        chatId
+        chatIds,
+        log
       );
     } catch (bookingError) {
-      console.error(
-        `❌ Browser ${browser.browserNumber}: Failed to start booking:`,
-        bookingError
-      );
+      log.error("Failed to start booking", { err: bookingError });
     }
 
-    return false;
+    return outcome;
   }
 }
\ No newline at end of file
@@ -0,0 +1,228 @@
+import fs from "fs";
+import path from "path";
+import dotenv from "dotenv";
+import { EXAM_LEVELS } from "../models/scheduleSchema";
+
+dotenv.config();
+
+type ExamLevel = (typeof EXAM_LEVELS)[number];
+
+/**
+ * Where the bot finds exams and books them. Defaults to the Indian
+ * goethe.de pages, switch country sites or point at a local stand-in
+ * (src/dev/fakeGoethe.ts) with a config file or GOETHE_* variables.
+ */
+export interface GoetheConfig {
+  baseUrl: string;
+  // Site language, used in page paths and the lang query parameter
+  language: string;
+  // Country site the finder pages live under, /ins/<siteCountry>/
+  siteCountry: string;
+  // countryIsoCode of the examfinder API calls, not the site's: the Indian
+  // finder pages ask for pk
+  countryIsoCode: string;
+  // examfinder institute id, e.g. "O 10000366"
+  institute: string;
+  checkoutPath: string;
+  // Finder page per level, under /ins/<siteCountry>/<language>/spr/prf/
+  finderPages: Partial<Record<ExamLevel, string>>;
+  // Level whose finder page is used when a schedule targets none
+  defaultLevel: ExamLevel;
+}
+
+const DEFAULT_CONFIG: GoetheConfig = {
+  baseUrl: "https://www.goethe.de",
+  language: "en",
+  siteCountry: "in",
+  countryIsoCode: "pk",
+  institute: "O 10000366",
+  checkoutPath: "/coe",
+  finderPages: {
+    B1: "gzb1.cfm",
+    B2: "gzb2.cfm",
+    C1: "gzc1.cfm",
+    C2: "gzc2.cfm",
+  },
+  defaultLevel: "B2",
+};
+
+const CONFIG_KEYS = Object.keys(DEFAULT_CONFIG) as (keyof GoetheConfig)[];
+
+const isLevel = (value: string): value is ExamLevel =>
+  (EXAM_LEVELS as readonly string[]).includes(value);
+
+// "B1=gzb1.cfm,B2=gzb2.cfm"
+const parseFinderPages = (value: string): Record<string, string> =>
+  Object.fromEntries(
+    value
+      .split(",")
+      .map((entry) => entry.split("=").map((part) => part.trim()))
+      .filter(([level]) => level)
+      .map(([level, page]) => [level.toUpperCase(), page || ""])
+  );
+
+const readConfigFile = (file: string): Partial<Record<string, unknown>> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Could not read Goethe config file ${file}: ${(error as Error).message}`
+    );
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Goethe config file ${file} must contain a JSON object`);
+  }
+  return raw as Record<string, unknown>;
+};
+
+const fromEnv = (env: NodeJS.ProcessEnv): Partial<Record<string, unknown>> => {
+  const values: Record<string, unknown> = {
+    baseUrl: env.GOETHE_BASE_URL,
+    language: env.GOETHE_LANGUAGE,
+    siteCountry: env.GOETHE_SITE_COUNTRY,
+    countryIsoCode: env.GOETHE_COUNTRY,
+    institute: env.GOETHE_INSTITUTE,
+    checkoutPath: env.GOETHE_CHECKOUT_PATH,
+    finderPages: env.GOETHE_FINDER_PAGES
+      ? parseFinderPages(env.GOETHE_FINDER_PAGES)
+      : undefined,
+    defaultLevel: env.GOETHE_DEFAULT_LEVEL,
+  };
+  return Object.fromEntries(
+    Object.entries(values).filter(([, value]) => value !== undefined && value !== "")
+  );
+};
+
+const validate = (input: Record<string, unknown>): GoetheConfig => {
+  const problems: string[] = [];
+  const text = (key: keyof GoetheConfig, pattern: RegExp, hint: string) => {
+    const value = input[key];
+    if (typeof value !== "string" || !pattern.test(value.trim())) {
+      problems.push(`${key} ${hint} (got ${JSON.stringify(value)})`);
+      return "";
+    }
+    return value.trim();
+  };
+
+  for (const key of Object.keys(input)) {
+    if (!CONFIG_KEYS.includes(key as keyof GoetheConfig)) {
+      problems.push(`unknown setting "${key}"`);
+    }
+  }
+
+  const baseUrl = text("baseUrl", /^https?:\/\/[^\s/]+(\/\S*)?$/, "must be an http(s) URL");
+  const language = text("language", /^[a-z]{2}$/, "must be a two-letter language code");
+  const siteCountry = text("siteCountry", /^[a-z]{2}$/, "must be a two-letter country code");
+  const countryIsoCode = text("countryIsoCode", /^[a-z]{2}$/, "must be a two-letter country code");
+  const institute = text("institute", /^\S.*$/, "must not be empty");
+  const checkoutPath = text("checkoutPath", /^\/\S*$/, "must start with /");
+  const defaultLevel = text(
+    "defaultLevel",
+    new RegExp(`^(${EXAM_LEVELS.join("|")})$`),
+    `must be one of ${EXAM_LEVELS.join(", ")}`
+  ) as ExamLevel;
+
+  const finderPages: Partial<Record<ExamLevel, string>> = {};
+  const pages = input.finderPages;
+  if (!pages || typeof pages !== "object" || Array.isArray(pages)) {
+    problems.push("finderPages must map levels to page names");
+  } else {
+    for (const [level, page] of Object.entries(pages)) {
+      if (!isLevel(level)) {
+        problems.push(`finderPages has unknown level "${level}"`);
+      } else if (typeof page !== "string" || !/^[\w.-]+$/.test(page)) {
+        problems.push(`finderPages.${level} must be a page name like gzb2.cfm`);
+      } else {
+        finderPages[level] = page;
+      }
+    }
+  }
+
+  if (defaultLevel && !finderPages[defaultLevel]) {
+    problems.push(`finderPages has no page for the default level ${defaultLevel}`);
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid Goethe config:\n- ${problems.join("\n- ")}`);
+  }
+
+  return {
+    baseUrl: baseUrl.replace(/\/+$/, ""),
+    language,
+    siteCountry,
+    countryIsoCode,
+    institute,
+    checkoutPath,
+    finderPages,
+    defaultLevel,
+  };
+};
+
+/**
+ * Defaults, then the JSON file named by GOETHE_CONFIG_FILE, then GOETHE_*
+ * variables. finderPages entries are merged, everything else replaced.
+ */
+export const loadGoetheConfig = (
+  env: NodeJS.ProcessEnv = process.env
+): GoetheConfig => {
+  const file = env.GOETHE_CONFIG_FILE
+    ? readConfigFile(path.resolve(env.GOETHE_CONFIG_FILE))
+    : {};
+  const overrides = fromEnv(env);
+
+  return validate({
+    ...DEFAULT_CONFIG,
+    ...file,
+    ...overrides,
+    finderPages: {
+      ...DEFAULT_CONFIG.finderPages,
+      ...(file.finderPages as object),
+      ...(overrides.finderPages as object),
+    },
+  });
+};
+
+export const goetheConfig = loadGoetheConfig();
+
+export const goetheUrl = (urlPath: string): string =>
+  `${goetheConfig.baseUrl}${urlPath.startsWith("/") ? urlPath : `/${urlPath}`}`;
+
+export const goetheHost = (): string => new URL(goetheConfig.baseUrl).hostname;
+
+export const checkoutUrl = (oid: string): string =>
+  goetheUrl(
+    `${goetheConfig.checkoutPath}?lang=${goetheConfig.language}&oid=${encodeURIComponent(oid)}`
+  );
+
+export const finderPageUrl = (level?: string): string => {
+  const page =
+    (level && isLevel(level) && goetheConfig.finderPages[level]) ||
+    goetheConfig.finderPages[goetheConfig.defaultLevel];
+  return goetheUrl(
+    `/ins/${goetheConfig.siteCountry}/${goetheConfig.language}/spr/prf/${page}`
+  );
+};
+
+// Polled until the finder page reveals the exact URL the site calls, and
+// used as is to list exams
+export const examfinderUrl = (category = "E006", count = 10): string => {
+  const params = new URLSearchParams({
+    category,
+    type: "ER",
+    countryIsoCode: goetheConfig.countryIsoCode,
+    locationName: "",
+    count: String(count),
+    start: "1",
+    langId: "1",
+    timezone: "47",
+    isODP: "0",
+    sortField: "startDate",
+    sortOrder: "ASC",
+    dataMode: "0",
+    langIsoCodes: goetheConfig.language,
+  });
+  return goetheUrl(
+    `/rest/examfinder/exams/institute/${encodeURIComponent(goetheConfig.institute)}?${params}`
+  );
+};
@@ -0,0 +1,212 @@
+import express from "express";
+import fs from "fs";
+import path from "path";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Offline stand-in for goethe.de. Serves the examfinder REST API from the
+ * saved responses, a finder page that calls it (for captureApiUrl), and
+ * scripted checkout pages (coe?oid=) for the booking flow.
+ *
+ *   npm run fake:goethe
+ *   GOETHE_BASE_URL=http://localhost:4010 npm run dev
+ */
+
+export type CheckoutStep = "error" | "conflict" | "options";
+
+export interface FakeGoetheOptions {
+  // examfinder response, either { DATA: [...] } or a bare array of exams
+  fixturePath?: string;
+  // Exams come back without an oid for this many API calls, like before
+  // registration opens
+  releaseAfterPolls?: number;
+  // Page served on the 1st, 2nd, ... visit of an oid, the last one repeats
+  checkoutScript?: CheckoutStep[];
+  // Module checkboxes rendered disabled on the options page
+  fullyBookedModules?: string[];
+}
+
+interface FakeGoetheState {
+  polls: number;
+  checkoutVisits: Record<string, number>;
+}
+
+const ROOT = path.resolve(__dirname, "../..");
+const MODULES = ["reading", "listening", "writing", "speaking"];
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? "").replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+
+const loadFixture = (fixturePath: string): any => {
+  const raw = JSON.parse(fs.readFileSync(fixturePath, "utf8"));
+  return Array.isArray(raw) ? { DATA: raw } : raw;
+};
+
+const layout = (title: string, body: string) =>
+  `<!DOCTYPE html><html lang="en"><head><meta charset="utf-8">` +
+  `<title>${escapeHtml(title)}</title></head><body>${body}</body></html>`;
+
+const finderPage = (exams: any[], apiPath: string) => {
+  // Same markup checkAppointments() reads: a date header row, then detail rows
+  const rows = exams
+    .map(
+      (exam, index) =>
+        `<tr><td><h5 class="pr-datum">${escapeHtml(exam.eventTimeSpan)}</h5></td></tr>` +
+        `<tr><td class="pr-ort-text">${escapeHtml(exam.locationName)}</td>` +
+        `<td class="pr-preis">${escapeHtml(exam.priceText || "")}</td>` +
+        `<td><button class="btnGruen" id="btn-${index}"${exam.oid ? "" : " disabled"}>Select</button></td></tr>`
+    )
+    .join("");
+
+  return layout(
+    "Goethe-Zertifikat B2 | Goethe-Institut",
+    `<table class="pr-finder"><tbody>${rows}</tbody></table>` +
+    `<script>fetch(${JSON.stringify(apiPath)});</script>`
+  );
+};
+
+const errorPage = () =>
+  layout(
+    "Error | Goethe-Institut",
+    `<main class="cs-checkout"><div class="cs-layer">` +
+    `<p class="cs-layer__text cs-layer__text--error">` +
+    `Unfortunately, too many people are trying to book right now. Please try again later.` +
+    `</p></div></main>`
+  );
+
+const optionsPage = (oid: string, fullyBooked: string[], conflict: boolean) => {
+  const checkboxes = MODULES.map((module) => {
+    const disabled = fullyBooked.includes(module);
+    return (
+      `<div class="cs-input__field">` +
+      `<input class="cs-checkbox__input" type="checkbox" id="${module}" name="${module}"` +
+      `${disabled ? " disabled" : " checked"}>` +
+      `<label for="${module}">${module}${disabled ? " (fully booked)" : ""}</label></div>`
+    );
+  }).join("");
+
+  // Markup of the real "another booking session" overlay (test.html)
+  const overlay = conflict
+    ? fs
+        .readFileSync(path.join(ROOT, "test.html"), "utf8")
+        .replace(
+          'id="id27" type="button"',
+          `id="id27" type="button" onclick="location.href='/coe?lang=en&oid=${encodeURIComponent(oid)}&discarded=1'"`
+        )
+    : "";
+
+  return layout(
+    "Select options | Goethe-Institut",
+    `<main class="cs-checkout">${overlay}<form>${checkboxes}` +
+    `<button type="submit" class="cs-button">Continue</button></form></main>`
+  );
+};
+
+export const createFakeGoetheApp = (options: FakeGoetheOptions = {}) => {
+  const {
+    fixturePath = path.join(ROOT, "goethe-api-2025-09-18.json"),
+    releaseAfterPolls = 0,
+    checkoutScript = ["options"],
+    fullyBookedModules = [],
+  } = options;
+
+  const fixture = loadFixture(fixturePath);
+  const state: FakeGoetheState = { polls: 0, checkoutVisits: {} };
+  const app = express();
+
+  const visibleExams = (query: Record<string, any>) => {
+    const released = state.polls > releaseAfterPolls;
+    // The fixture is one category's response, served for whichever is asked
+    return (fixture.DATA || [])
+      .filter(
+        (exam: any) =>
+          !query.locationName ||
+          String(exam.locationName).toLowerCase().includes(String(query.locationName).toLowerCase())
+      )
+      .map((exam: any) => (released ? exam : { ...exam, oid: undefined }));
+  };
+
+  app.get("/", (req, res) => {
+    res.send(layout("Goethe-Institut", "<h1>Fake Goethe-Institut</h1>"));
+  });
+
+  app.get("/ins/:country/:lang/spr/prf/:page", (req, res) => {
+    const apiPath =
+      `/rest/examfinder/exams/institute/O%2010000366?category=${fixture.FORMFILTERS?.category || "E006"}&type=ER` +
+      `&countryIsoCode=${encodeURIComponent(req.params.country)}&locationName=&count=10&start=1&langId=1`;
+    res.send(finderPage(visibleExams({}), apiPath));
+  });
+
+  app.get("/rest/examfinder/exams/institute/:institute", (req, res) => {
+    state.polls++;
+    const exams = visibleExams(req.query);
+    res.json({
+      ...fixture,
+      DATA: exams,
+      RECORDCOUNT: exams.length,
+      FROMCACHE: false,
+    });
+  });
+
+  app.get("/coe", (req, res) => {
+    const oid = String(req.query.oid || "");
+    const known = (fixture.DATA || []).some((exam: any) => exam.oid === oid);
+    if (!known) {
+      res.status(404).send(errorPage());
+      return;
+    }
+
+    // Discarding the other session always lands on the plain options page
+    if (req.query.discarded) {
+      res.send(optionsPage(oid, fullyBookedModules, false));
+      return;
+    }
+
+    const visit = state.checkoutVisits[oid] || 0;
+    state.checkoutVisits[oid] = visit + 1;
+    const step = checkoutScript[Math.min(visit, checkoutScript.length - 1)];
+
+    if (step === "error") {
+      res.send(errorPage());
+    } else {
+      res.send(optionsPage(oid, fullyBookedModules, step === "conflict"));
+    }
+  });
+
+  // Test hooks
+  app.get("/__fake/state", (req, res) => {
+    res.json(state);
+  });
+
+  app.post("/__fake/reset", (req, res) => {
+    state.polls = 0;
+    state.checkoutVisits = {};
+    res.json(state);
+  });
+
+  return app;
+};
+
+const listFromEnv = (value: string | undefined) =>
+  value ? value.split(",").map((item) => item.trim()).filter(Boolean) : undefined;
+
+if (require.main === module) {
+  const port = Number(process.env.FAKE_GOETHE_PORT) || 4010;
+  const app = createFakeGoetheApp({
+    fixturePath: process.env.FAKE_GOETHE_FIXTURE
+      ? path.resolve(process.env.FAKE_GOETHE_FIXTURE)
+      : undefined,
+    releaseAfterPolls: Number(process.env.FAKE_GOETHE_RELEASE_AFTER_POLLS) || 0,
+    checkoutScript: listFromEnv(process.env.FAKE_GOETHE_CHECKOUT) as
+      | CheckoutStep[]
+      | undefined,
+    fullyBookedModules: listFromEnv(process.env.FAKE_GOETHE_FULLY_BOOKED),
+  });
+
+  app.listen(port, () => {
+    console.log(`🧪 Fake Goethe server on http://localhost:${port}`);
+    console.log(`   Run the bot with GOETHE_BASE_URL=http://localhost:${port}`);
+  });
+}
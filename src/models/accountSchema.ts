@@ -1,10 +1,49 @@
 import mongoose, { Document, Types } from "mongoose";
 import { UserDocument } from "./userSchema";
+import {
+  decryptSecret,
+  encryptSecret,
+  isEncryptedSecret,
+} from "../security/encryption";
+
+// Goethe only lists birth years from 1925 and accepts candidates aged 16 - 99
+export const MIN_BIRTH_YEAR = 1925;
+export const MIN_CANDIDATE_AGE = 16;
+export const MAX_CANDIDATE_AGE = 99;
+
+export const PHONE_COUNTRY_CODE_REGEX = /^\+[1-9]\d{0,3}$/;
+export const PHONE_NUMBER_REGEX = /^\d{6,14}$/;
+export const MAX_PASSWORD_LENGTH = 128;
+
+// Emails are one account regardless of case, Priya@x.com is priya@x.com
+export const EMAIL_COLLATION = { locale: "en", strength: 2 };
+
+export const isValidEmail = (email: string) => {
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  return emailRegex.test(email);
+};
+
+/**
+ * Returns why a plaintext password can't be stored, or null when it can.
+ */
+export const validatePassword = (password: string): string | null => {
+  if (!password.trim()) return "Password cannot be empty";
+  if (password !== password.trim()) {
+    return "Password cannot start or end with a space";
+  }
+  if (password.length > MAX_PASSWORD_LENGTH) {
+    return `Password must be at most ${MAX_PASSWORD_LENGTH} characters`;
+  }
+  return null;
+};
 
 export interface AccountDocument extends Document {
+  // Who added it, the workspace owns it
   user: Types.ObjectId | UserDocument;
+  workspace: Types.ObjectId;
   email: string;
   status: boolean;
+  // Always stored encrypted, use getPassword() to read the plaintext
   password: string;
   modules: {
     read: boolean;
@@ -12,7 +51,66 @@ export interface AccountDocument extends Document {
     write: boolean;
     speak: boolean;
   };
-} 
+  firstName: string;
+  lastName: string;
+  details: {
+    dob: {
+      day: number;
+      month: number;
+      year: number;
+    };
+    address: {
+      street: string;
+      city: string;
+      postalCode: string;
+      houseNo: string;
+    };
+    phone: {
+      countryCode: string;
+      number: string;
+    };
+  };
+  hasCompleteProfile?: boolean;
+  // Method signatures
+  getPassword(): string;
+}
+
+/**
+ * Returns an error message when the date of birth is not a real calendar
+ * date or the candidate is outside the accepted age range.
+ */
+export const validateDateOfBirth = (
+  day: number,
+  month: number,
+  year: number,
+  now: Date = new Date()
+): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return "Date of birth is not a valid calendar date";
+  }
+
+  if (year < MIN_BIRTH_YEAR) {
+    return `Year of birth must be ${MIN_BIRTH_YEAR} or later`;
+  }
+
+  let age = now.getUTCFullYear() - year;
+  const hadBirthday =
+    now.getUTCMonth() > month - 1 ||
+    (now.getUTCMonth() === month - 1 && now.getUTCDate() >= day);
+  if (!hadBirthday) age--;
+
+  if (age < MIN_CANDIDATE_AGE || age > MAX_CANDIDATE_AGE) {
+    return `Candidate must be between ${MIN_CANDIDATE_AGE} and ${MAX_CANDIDATE_AGE} years old`;
+  }
+
+  return null;
+};
+
 const accountSchema = new mongoose.Schema<AccountDocument>(
   {
     user: {
@@ -20,6 +118,12 @@ const accountSchema = new mongoose.Schema<AccountDocument>(
       ref: "User",
       required: true,
     },
+    workspace: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+      index: true,
+    },
     status: {
       type: Boolean,
       default: true,
@@ -31,6 +135,12 @@ const accountSchema = new mongoose.Schema<AccountDocument>(
     password: {
       type: String,
       required: true,
+      // Runs before the pre save hook, so a new password is still plaintext
+      validate: {
+        validator: (value: string) =>
+          isEncryptedSecret(value) || !validatePassword(value),
+        message: (props: { value: string }) => validatePassword(props.value) || "Invalid password",
+      },
     },
 
     modules: {
@@ -39,11 +149,110 @@ const accountSchema = new mongoose.Schema<AccountDocument>(
       write: { type: Boolean, default: false },
       speak: { type: Boolean, default: false },
     },
+
+    // Candidate profile used by the checkout form fillers
+    firstName: { type: String, trim: true, maxlength: 100 },
+    lastName: { type: String, trim: true, maxlength: 100 },
+    details: {
+      dob: {
+        day: { type: Number, min: 1, max: 31 },
+        month: { type: Number, min: 1, max: 12 },
+        year: { type: Number, min: MIN_BIRTH_YEAR },
+      },
+      address: {
+        street: { type: String, trim: true, maxlength: 200 },
+        city: { type: String, trim: true, maxlength: 100 },
+        postalCode: {
+          type: String,
+          trim: true,
+          match: [/^[A-Za-z0-9 -]{3,10}$/, "Invalid postal code"],
+        },
+        houseNo: { type: String, trim: true, maxlength: 20 },
+      },
+      phone: {
+        countryCode: {
+          type: String,
+          trim: true,
+          match: [
+            PHONE_COUNTRY_CODE_REGEX,
+            "Phone country code must look like +91",
+          ],
+        },
+        number: {
+          type: String,
+          trim: true,
+          match: [PHONE_NUMBER_REGEX, "Phone number must be 6-14 digits"],
+        },
+      },
+    },
   },
   {
     timestamps: true,
   }
 );
+
+// The date of birth fields are only meaningful together
+accountSchema.pre("validate", function (next) {
+  const dob = this.details?.dob;
+  if (dob && (dob.day || dob.month || dob.year)) {
+    if (!dob.day || !dob.month || !dob.year) {
+      this.invalidate("details.dob", "Date of birth is incomplete");
+    } else {
+      const error = validateDateOfBirth(dob.day, dob.month, dob.year);
+      if (error) this.invalidate("details.dob", error);
+    }
+  }
+  next();
+});
+
+// Encrypt the password whenever it is set to a plaintext value
+accountSchema.pre("save", function (next) {
+  if (this.isModified("password") && !isEncryptedSecret(this.password)) {
+    this.password = encryptSecret(this.password);
+  }
+  next();
+});
+
+// Same for updates that bypass document middleware
+accountSchema.pre(["findOneAndUpdate", "updateOne", "updateMany"], function (next) {
+  const update = this.getUpdate() as Record<string, any> | null;
+  if (!update) return next();
+
+  for (const target of [update, update.$set]) {
+    if (target && typeof target.password === "string" && !isEncryptedSecret(target.password)) {
+      target.password = encryptSecret(target.password);
+    }
+  }
+  next();
+});
+
+// Virtual for checking if the fillers have everything they need
+accountSchema
+  .virtual("hasCompleteProfile")
+  .get(function (this: AccountDocument) {
+    const { dob, address, phone } = this.details || ({} as any);
+    return Boolean(
+      this.firstName &&
+        this.lastName &&
+        dob?.day &&
+        dob?.month &&
+        dob?.year &&
+        address?.street &&
+        address?.houseNo &&
+        address?.postalCode &&
+        address?.city &&
+        phone?.countryCode &&
+        phone?.number
+    );
+  });
+
+// Decrypt only on access
+accountSchema.methods.getPassword = function (this: AccountDocument): string {
+  return isEncryptedSecret(this.password)
+    ? decryptSecret(this.password)
+    : this.password;
+};
+
 const Account = mongoose.model<AccountDocument>("Account", accountSchema);
 
 export default Account;
@@ -0,0 +1,73 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+export interface IAdminAudit extends Document {
+  // "POST /admin/scheduler/trigger/<scheduleId>"
+  action: string;
+  // Name of the admin token, null when authentication failed
+  actor: string | null;
+  ip?: string;
+  statusCode: number;
+  success: boolean;
+  // Why the request was refused (bad token, rate limited)
+  rejection?: string;
+  durationMs: number;
+  createdAt?: Date;
+}
+
+// Interface for static methods
+interface IAdminAuditModel extends Model<IAdminAudit> {
+  findRecent(limit?: number): Promise<IAdminAudit[]>;
+}
+
+const adminAuditSchema = new Schema<IAdminAudit, IAdminAuditModel>(
+  {
+    action: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    actor: {
+      type: String,
+      default: null,
+      index: true,
+    },
+    ip: {
+      type: String,
+    },
+    statusCode: {
+      type: Number,
+      required: true,
+    },
+    success: {
+      type: Boolean,
+      required: true,
+    },
+    rejection: {
+      type: String,
+    },
+    durationMs: {
+      type: Number,
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+adminAuditSchema.index({ createdAt: -1 });
+
+// Static method to list the latest admin actions, newest first
+adminAuditSchema.statics.findRecent = function (
+  this: IAdminAuditModel,
+  limit: number = 50
+): Promise<IAdminAudit[]> {
+  return this.find().sort({ createdAt: -1 }).limit(limit).exec();
+};
+
+const AdminAudit = mongoose.model<IAdminAudit, IAdminAuditModel>(
+  "AdminAudit",
+  adminAuditSchema
+);
+
+export default AdminAudit;
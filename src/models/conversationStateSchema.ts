@@ -0,0 +1,43 @@
+import mongoose, { Document } from "mongoose";
+
+export interface ConversationStateDocument extends Document {
+  telegramId: string;
+  state: string;
+  data: Record<string, any>;
+  expiresAt: Date;
+}
+
+const conversationStateSchema = new mongoose.Schema<ConversationStateDocument>(
+  {
+    telegramId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    state: {
+      type: String,
+      required: true,
+    },
+    data: {
+      type: mongoose.Schema.Types.Mixed,
+      default: {},
+    },
+    // MongoDB's TTL monitor removes the document once this date has passed
+    expiresAt: {
+      type: Date,
+      required: true,
+      index: { expires: 0 },
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false,
+  }
+);
+
+const ConversationState = mongoose.model<ConversationStateDocument>(
+  "ConversationState",
+  conversationStateSchema
+);
+
+export default ConversationState;
@@ -0,0 +1,89 @@
+import crypto from "crypto";
+import mongoose, { Document, Schema, Model } from "mongoose";
+import { USER_ROLES, UserRole } from "./userSchema";
+
+export interface IInvite extends Document {
+  code: string;
+  role: UserRole;
+  createdBy: mongoose.Types.ObjectId;
+  // The new member joins the inviting owner's workspace
+  workspace?: mongoose.Types.ObjectId;
+  expiresAt: Date;
+  usedBy?: mongoose.Types.ObjectId;
+  usedAt?: Date;
+  createdAt?: Date;
+}
+
+// Interface for static methods
+interface IInviteModel extends Model<IInvite> {
+  generateCode(): string;
+  redeem(code: string, userId: mongoose.Types.ObjectId): Promise<IInvite | null>;
+}
+
+// No 0/O or 1/I, codes get typed from screenshots
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 10;
+
+const inviteSchema = new Schema<IInvite, IInviteModel>(
+  {
+    code: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    role: {
+      type: String,
+      enum: USER_ROLES,
+      required: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    usedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    usedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+inviteSchema.statics.generateCode = function (): string {
+  const bytes = crypto.randomBytes(CODE_LENGTH);
+  return Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join("");
+};
+
+// Static method to use up an invite, null when unknown, used or expired
+inviteSchema.statics.redeem = function (
+  this: IInviteModel,
+  code: string,
+  userId: mongoose.Types.ObjectId
+): Promise<IInvite | null> {
+  return this.findOneAndUpdate(
+    {
+      code: code.trim().toUpperCase(),
+      usedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    },
+    { $set: { usedBy: userId, usedAt: new Date() } },
+    { new: true }
+  ).exec();
+};
+
+const Invite = mongoose.model<IInvite, IInviteModel>("Invite", inviteSchema);
+
+export default Invite;
@@ -0,0 +1,163 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+
+export const RUN_STATUSES = [
+  "running",
+  "success",
+  "failed",
+  "timeout",
+  "paused",
+  "stopped",
+] as const;
+
+export type RunStatus = (typeof RUN_STATUSES)[number];
+
+export type RunTrigger = "scheduled" | "retry" | "manual" | "resume";
+
+export interface BrowserOutcome {
+  browserNumber: number;
+  display?: string;
+  proxyUsed?: string;
+  reachedPage: boolean;
+  // Time from redirect until the booking page loaded
+  navigationMs?: number;
+  error?: string;
+}
+
+export interface RunExam {
+  eventName?: string;
+  locationName?: string;
+  level?: string;
+  category?: string;
+  startDate?: Date;
+  bookFromStamp?: string;
+  bookToStamp?: string;
+}
+
+export interface IScheduleRun extends Document {
+  schedule: mongoose.Types.ObjectId;
+  attempt: number;
+  trigger: RunTrigger;
+  status: RunStatus;
+  startedAt: Date;
+  endedAt?: Date;
+  phases: {
+    warmupStartedAt?: Date;
+    warmupCompletedAt?: Date;
+    firstPollAt?: Date;
+    oidFoundAt?: Date;
+    // First browser on the booking page
+    navigatedAt?: Date;
+  };
+  browsersWarmed?: number;
+  oid?: string;
+  exam?: RunExam;
+  browsers: BrowserOutcome[];
+  error?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+// Interface for static methods
+interface IScheduleRunModel extends Model<IScheduleRun> {
+  findForSchedule(scheduleId: string, limit?: number): Promise<IScheduleRun[]>;
+}
+
+const browserOutcomeSchema = new Schema<BrowserOutcome>(
+  {
+    browserNumber: { type: Number, required: true },
+    display: { type: String },
+    proxyUsed: { type: String },
+    reachedPage: { type: Boolean, required: true },
+    navigationMs: { type: Number },
+    error: { type: String },
+  },
+  { _id: false }
+);
+
+const scheduleRunSchema = new Schema<IScheduleRun, IScheduleRunModel>(
+  {
+    schedule: {
+      type: Schema.Types.ObjectId,
+      ref: "Schedule",
+      required: true,
+      index: true,
+    },
+    attempt: {
+      type: Number,
+      default: 1,
+      min: 1,
+    },
+    trigger: {
+      type: String,
+      enum: ["scheduled", "retry", "manual", "resume"],
+      default: "scheduled",
+    },
+    status: {
+      type: String,
+      enum: RUN_STATUSES,
+      default: "running",
+      index: true,
+    },
+    startedAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    endedAt: {
+      type: Date,
+    },
+    phases: {
+      warmupStartedAt: { type: Date },
+      warmupCompletedAt: { type: Date },
+      firstPollAt: { type: Date },
+      oidFoundAt: { type: Date },
+      navigatedAt: { type: Date },
+    },
+    browsersWarmed: {
+      type: Number,
+    },
+    oid: {
+      type: String,
+    },
+    exam: {
+      eventName: { type: String },
+      locationName: { type: String },
+      level: { type: String },
+      category: { type: String },
+      startDate: { type: Date },
+      bookFromStamp: { type: String },
+      bookToStamp: { type: String },
+    },
+    browsers: {
+      type: [browserOutcomeSchema],
+      default: [],
+    },
+    error: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+scheduleRunSchema.index({ schedule: 1, startedAt: -1 });
+
+// Static method to list a schedule's runs, newest first
+scheduleRunSchema.statics.findForSchedule = function (
+  this: IScheduleRunModel,
+  scheduleId: string,
+  limit: number = 10
+): Promise<IScheduleRun[]> {
+  return this.find({ schedule: scheduleId })
+    .sort({ startedAt: -1 })
+    .limit(limit)
+    .exec();
+};
+
+const ScheduleRun = mongoose.model<IScheduleRun, IScheduleRunModel>(
+  "ScheduleRun",
+  scheduleRunSchema
+);
+
+export default ScheduleRun;
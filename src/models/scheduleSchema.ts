@@ -2,10 +2,35 @@
 
 import mongoose, { Document, Schema, Model } from "mongoose";
 
+export const EXAM_LEVELS = ["A1", "A2", "B1", "B2", "C1", "C2"] as const;
+export const EXAM_CATEGORIES = ["E006", "E007"] as const;
+
+// Which exams a schedule is allowed to book, unset fields match anything
+export interface ScheduleTarget {
+  level?: (typeof EXAM_LEVELS)[number];
+  category?: (typeof EXAM_CATEGORIES)[number];
+  locationName?: string;
+  startDateFrom?: Date;
+  startDateTo?: Date;
+}
+
+// Repeats the schedule, runAt then always holds the next occurrence
+export interface ScheduleRecurrence {
+  kind: "weekly" | "cron";
+  // ISO weekdays, 1 = Monday
+  weekdays?: number[];
+  // "HH:mm" wall-clock time for weekly rules
+  time?: string;
+  cron?: string;
+  timezone: string;
+}
+
 export interface ISchedule extends Document {
   name: string;
   runAt: Date;
   createdBy: mongoose.Types.ObjectId;
+  // Shared with every member, they all get its notifications
+  workspace: mongoose.Types.ObjectId;
   completed: boolean;
   status?: "pending" | "running" | "paused" | "failed" | "success" | "stopped";
   lastRun?: Date;
@@ -14,6 +39,8 @@ export interface ISchedule extends Document {
   retryCount?: number;
   maxRetries?: number;
   lastAttemptTime?: Date;
+  target?: ScheduleTarget;
+  recurrence?: ScheduleRecurrence;
   createdAt?: Date;
   updatedAt?: Date;
   // Method signatures
@@ -44,6 +71,11 @@ const scheduleSchema = new Schema<ISchedule, IScheduleModel>(
       required: true,
       index: true,
     },
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: "Workspace",
+      required: true,
+    },
     completed: {
       type: Boolean,
       default: false,
@@ -80,6 +112,20 @@ const scheduleSchema = new Schema<ISchedule, IScheduleModel>(
     lastAttemptTime: {
       type: Date,
     },
+    target: {
+      level: { type: String, enum: EXAM_LEVELS },
+      category: { type: String, enum: EXAM_CATEGORIES },
+      locationName: { type: String, trim: true },
+      startDateFrom: { type: Date },
+      startDateTo: { type: Date },
+    },
+    recurrence: {
+      kind: { type: String, enum: ["weekly", "cron"] },
+      weekdays: { type: [Number], default: undefined },
+      time: { type: String, match: /^([01]\d|2[0-3]):[0-5]\d$/ },
+      cron: { type: String, trim: true },
+      timezone: { type: String },
+    },
   },
   {
     timestamps: true,
@@ -88,6 +134,7 @@ const scheduleSchema = new Schema<ISchedule, IScheduleModel>(
 
 // Compound indexes for efficient queries
 scheduleSchema.index({ createdBy: 1, completed: 1 });
+scheduleSchema.index({ workspace: 1, completed: 1 });
 scheduleSchema.index({ runAt: 1, completed: 1, status: 1 });
 scheduleSchema.index({ monitoringStarted: 1, completed: 1 });
 
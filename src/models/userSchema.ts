@@ -1,9 +1,22 @@
 import mongoose from "mongoose";
+import { DEFAULT_TIMEZONE, isValidTimezone } from "../utils/timezone";
+
+// Lowest to highest, each role can do everything the ones before it can
+export const USER_ROLES = ["viewer", "operator", "owner"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+export const roleAtLeast = (role: UserRole | null | undefined, required: UserRole) =>
+  !!role && USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
 
 export interface UserDocument extends Document {
   _id: mongoose.Types.ObjectId;
   telegramId: string;
   username?: string;
+  // IANA zone used to read and show schedule times
+  timezone: string;
+  // null until the user joined with an invite code (or was made owner)
+  role?: UserRole | null;
+  invitedBy?: mongoose.Types.ObjectId;
 }
 
 const userSchema = new mongoose.Schema<UserDocument>(
@@ -14,6 +27,24 @@ const userSchema = new mongoose.Schema<UserDocument>(
       unique: true,
     },
     username: String,
+    role: {
+      type: String,
+      enum: [...USER_ROLES, null],
+      default: null,
+    },
+    invitedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: "User",
+    },
+    timezone: {
+      type: String,
+      default: DEFAULT_TIMEZONE,
+      validate: {
+        validator: isValidTimezone,
+        message: (props: { value: string }) =>
+          `${props.value} is not a valid IANA timezone`,
+      },
+    },
   },
 
   {
@@ -0,0 +1,152 @@
+import mongoose, { Document, Schema, Model } from "mongoose";
+import User, { UserDocument } from "./userSchema";
+
+export interface WorkspaceMember {
+  user: mongoose.Types.ObjectId;
+  // Gets the scheduler's monitoring and booking messages
+  subscribed: boolean;
+  joinedAt: Date;
+}
+
+export interface IWorkspace extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  createdBy: mongoose.Types.ObjectId;
+  members: WorkspaceMember[];
+  createdAt?: Date;
+  updatedAt?: Date;
+  // Method signatures
+  isMember(userId: mongoose.Types.ObjectId): boolean;
+}
+
+// Interface for static methods
+interface IWorkspaceModel extends Model<IWorkspace> {
+  findForUser(userId: mongoose.Types.ObjectId): Promise<IWorkspace | null>;
+  ensureForUser(user: UserDocument): Promise<IWorkspace>;
+  addMember(
+    workspaceId: mongoose.Types.ObjectId,
+    userId: mongoose.Types.ObjectId
+  ): Promise<IWorkspace | null>;
+  findSubscribers(workspaceId: mongoose.Types.ObjectId): Promise<UserDocument[]>;
+}
+
+const memberSchema = new Schema<WorkspaceMember>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    subscribed: {
+      type: Boolean,
+      default: true,
+    },
+    joinedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const workspaceSchema = new Schema<IWorkspace, IWorkspaceModel>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    members: {
+      type: [memberSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A user works in one workspace at a time
+workspaceSchema.index(
+  { "members.user": 1 },
+  { unique: true, partialFilterExpression: { "members.user": { $exists: true } } }
+);
+
+workspaceSchema.methods.isMember = function (
+  this: IWorkspace,
+  userId: mongoose.Types.ObjectId
+): boolean {
+  return this.members.some((member) => member.user.equals(userId));
+};
+
+// Static method to find the workspace a user belongs to
+workspaceSchema.statics.findForUser = function (
+  this: IWorkspaceModel,
+  userId: mongoose.Types.ObjectId
+): Promise<IWorkspace | null> {
+  return this.findOne({ "members.user": userId }).exec();
+};
+
+// Users who joined without an invite (owners, migrated users) get their own
+workspaceSchema.statics.ensureForUser = async function (
+  this: IWorkspaceModel,
+  user: UserDocument
+): Promise<IWorkspace> {
+  const existing = await this.findForUser(user._id);
+  if (existing) return existing;
+
+  return this.create({
+    name: `${user.username || user.telegramId}'s workspace`,
+    createdBy: user._id,
+    members: [{ user: user._id }],
+  });
+};
+
+// Moves the user into the workspace, leaving the one they were in
+workspaceSchema.statics.addMember = async function (
+  this: IWorkspaceModel,
+  workspaceId: mongoose.Types.ObjectId,
+  userId: mongoose.Types.ObjectId
+): Promise<IWorkspace | null> {
+  await this.updateMany(
+    { _id: { $ne: workspaceId }, "members.user": userId },
+    { $pull: { members: { user: userId } } }
+  );
+  const joined = await this.findOneAndUpdate(
+    { _id: workspaceId, "members.user": { $ne: userId } },
+    { $push: { members: { user: userId, subscribed: true, joinedAt: new Date() } } },
+    { new: true }
+  ).exec();
+  // Already a member
+  return joined || this.findById(workspaceId).exec();
+};
+
+// Static method to list who gets the workspace's notifications
+workspaceSchema.statics.findSubscribers = async function (
+  this: IWorkspaceModel,
+  workspaceId: mongoose.Types.ObjectId
+): Promise<UserDocument[]> {
+  const workspace = await this.findById(workspaceId).select("members").lean();
+  const userIds = (workspace?.members || [])
+    .filter((member) => member.subscribed)
+    .map((member) => member.user);
+  if (userIds.length === 0) return [];
+
+  // Members who lost their role don't hear about bookings anymore
+  return User.find({ _id: { $in: userIds }, role: { $ne: null } }) as unknown as Promise<
+    UserDocument[]
+  >;
+};
+
+const Workspace = mongoose.model<IWorkspace, IWorkspaceModel>(
+  "Workspace",
+  workspaceSchema
+);
+
+export default Workspace;
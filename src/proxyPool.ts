@@ -12,7 +12,7 @@ export interface ProxyConfig {
   type: "http" | "https" | "socks5";
 }
 
-class ProxyPool {
+export class ProxyPool {
   private proxies: ProxyConfig[] = [];
   private currentIndex = 0;
   private proxyUsage = new Map<number, number>(); // Track usage count
@@ -44,7 +44,8 @@ class ProxyPool {
           password,
           type,
         });
-        this.proxyUsage.set(i - 1, 0);
+        // Keyed by position in the pool, PROXY_n numbering may have gaps
+        this.proxyUsage.set(this.proxies.length - 1, 0);
         console.log(`✅ Loaded proxy ${i}: ${host}:${port}`);
       }
     }
@@ -0,0 +1,118 @@
+import { CronExpressionParser } from "cron-parser";
+import { DateTime } from "luxon";
+import { ScheduleRecurrence } from "../models/scheduleSchema";
+
+const WEEKDAYS = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"];
+
+export const RECURRENCE_HELP =
+  "weekly mon,thu 10:30 - every Monday and Thursday at 10:30\n" +
+  "cron 30 10 * * 1 - any 5 field cron expression\n" +
+  "- to run only once";
+
+export const isRecurring = (
+  recurrence?: ScheduleRecurrence | null
+): recurrence is ScheduleRecurrence => Boolean(recurrence?.kind);
+
+/**
+ * Parses "weekly mon,thu 10:30" or "cron <expression>" in the user's zone.
+ * Returns null for "-" (no recurrence).
+ */
+export const parseRecurrence = (
+  input: string,
+  timezone: string
+): { recurrence: ScheduleRecurrence | null; error?: undefined } | { error: string } => {
+  const text = input.trim();
+  if (text === "-" || text.toLowerCase() === "none") return { recurrence: null };
+
+  const [kind, ...rest] = text.split(/\s+/);
+
+  if (kind.toLowerCase() === "weekly") {
+    const [days = "", time = ""] = rest;
+    const weekdays = days
+      .toLowerCase()
+      .split(",")
+      .map((day) => WEEKDAYS.indexOf(day.slice(0, 3)) + 1);
+
+    if (weekdays.length === 0 || weekdays.some((day) => day === 0)) {
+      return { error: `Unknown weekday in "${days}", use mon,tue,wed,thu,fri,sat,sun` };
+    }
+    if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(time)) {
+      return { error: "Time must be HH:MM, e.g. 10:30" };
+    }
+
+    return {
+      recurrence: {
+        kind: "weekly",
+        weekdays: Array.from(new Set(weekdays)).sort((a, b) => a - b),
+        time,
+        timezone,
+      },
+    };
+  }
+
+  if (kind.toLowerCase() === "cron") {
+    const cron = rest.join(" ");
+    if (rest.length !== 5) {
+      return { error: "Cron expressions need 5 fields: minute hour day month weekday" };
+    }
+    try {
+      CronExpressionParser.parse(cron, { tz: timezone });
+    } catch (error) {
+      return { error: `Invalid cron expression: ${(error as Error).message}` };
+    }
+    return { recurrence: { kind: "cron", cron, timezone } };
+  }
+
+  return { error: 'Start the rule with "weekly" or "cron"' };
+};
+
+/**
+ * First occurrence strictly after the given date.
+ */
+export const nextOccurrence = (
+  recurrence: ScheduleRecurrence,
+  after: Date
+): Date | null => {
+  if (recurrence.kind === "cron" && recurrence.cron) {
+    return CronExpressionParser.parse(recurrence.cron, {
+      currentDate: after,
+      tz: recurrence.timezone,
+    })
+      .next()
+      .toDate();
+  }
+
+  if (recurrence.kind === "weekly" && recurrence.time && recurrence.weekdays?.length) {
+    const [hour, minute] = recurrence.time.split(":").map(Number);
+    const start = DateTime.fromJSDate(after, { zone: recurrence.timezone });
+
+    // A week and a day covers every weekday, including today's at a later time
+    for (let offset = 0; offset <= 7; offset++) {
+      const candidate = start
+        .plus({ days: offset })
+        .set({ hour, minute, second: 0, millisecond: 0 });
+      if (
+        recurrence.weekdays.includes(candidate.weekday) &&
+        candidate.toMillis() > after.getTime()
+      ) {
+        return candidate.toJSDate();
+      }
+    }
+  }
+
+  return null;
+};
+
+export const describeRecurrence = (recurrence?: ScheduleRecurrence | null) => {
+  if (!isRecurring(recurrence)) return "Once";
+
+  if (recurrence.kind === "weekly") {
+    const days = (recurrence.weekdays || [])
+      .map((day) => WEEKDAYS[day - 1].replace(/^./, (c) => c.toUpperCase()))
+      .join(", ");
+    return `Every ${days} at ${recurrence.time} (${recurrence.timezone})`;
+  }
+
+  // Code span, so the asterisks survive Telegram Markdown
+  return `Cron \`${recurrence.cron}\` (${recurrence.timezone})`;
+};
@@ -1,33 +1,90 @@
-import { bot } from "..";
-import { examMonitor } from "../api/exam-api-finder";
-import { runAllAccountsWithPrewarmedBrowsers } from "../cluster/runCluster";
+import { bot } from "../bot/bot";
+import { ExamApiMonitor } from "../api/exam-api-finder";
+import { describeTarget, matchesTarget } from "../api/examFilter";
+import { Exam } from "../api/examfinder";
+import {
+  runAllAccountsWithPrewarmedBrowsers,
+  RunResult,
+} from "../cluster/runCluster";
 import Schedule, { ISchedule } from "../models/scheduleSchema";
-import User, { UserDocument } from "../models/userSchema";
-import Account from "../models/accountSchema";
+import ScheduleRun, { RunStatus, RunTrigger } from "../models/scheduleRunSchema";
+import { UserDocument } from "../models/userSchema";
+import Workspace from "../models/workspaceSchema";
 import { DateTime } from "luxon";
 import { browserPool } from "../browsers/prewarmedBrowserPool";
+import { DEFAULT_TIMEZONE, formatLocalAndUtc } from "../utils/timezone";
+import { isRecurring, nextOccurrence } from "./recurrence";
+import { Logger, logger } from "../utils/logger";
+import { scheduleRunOutcomes } from "../utils/metrics";
+import dotenv from "dotenv";
+
+dotenv.config();
 
 interface ActiveSession {
   scheduleId: string;
   targetTime: Date;
   startedAt: Date;
+  // Per attempt, a retry long after runAt gets a full window of its own
+  expiresAt: Date;
   userId?: string;
   status: "monitoring" | "processing" | "paused" | "warming" | "completed" | "failed";
   browsersPrewarmed?: boolean;
+  // Each session polls with its own monitor and a browser lease keyed by scheduleId
+  monitor: ExamApiMonitor;
+  // ScheduleRun document recording this attempt
+  runId?: string;
+  // Tagged with the scheduleId and the creator's telegramId
+  log: Logger;
+}
+
+interface RetryConfig {
+  backoffMinutes: number;
+  backoffMultiplier: number;
+  maxBackoffMinutes: number;
 }
 
+interface FailureResult {
+  willRetry: boolean;
+  retryCount: number;
+  maxRetries: number;
+  nextRetryInMinutes: number;
+  // Set when a recurring schedule moved on to its next occurrence
+  nextRunAt?: Date | null;
+}
+
+const parsePositive = (value: string | undefined, fallback: number) => {
+  const parsed = parseFloat(value || "");
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// How long an attempt may monitor after its target time (or its start, for retries)
+const SESSION_WINDOW_MINUTES = 30;
+
+// The first run is attempt 1, the first retry attempt 2. Run history and
+// notifications both count this way
+const attemptNumber = (retryCount = 0) => retryCount + 1;
+
+const retryConfig: RetryConfig = {
+  backoffMinutes: parsePositive(process.env.SCHEDULE_RETRY_BACKOFF_MINUTES, 2),
+  backoffMultiplier: parsePositive(process.env.SCHEDULE_RETRY_BACKOFF_MULTIPLIER, 2),
+  maxBackoffMinutes: parsePositive(process.env.SCHEDULE_RETRY_MAX_BACKOFF_MINUTES, 30),
+};
+
 class ExamScheduler {
   private activeMonitoringSessions = new Map<string, ActiveSession>();
   private schedulerInterval: NodeJS.Timeout | null = null;
   private isRunning = false;
+  // Set while a pass runs, a pass can outlast the 15 second interval while
+  // browsers warm up
+  private isChecking = false;
 
   start(): void {
     if (this.isRunning) {
-      console.log("⚠️ Scheduler already running");
+      logger.warn("Scheduler already running");
       return;
     }
 
-    console.log("🚀 Starting Future Schedule Monitor (2min before UTC)...");
+    logger.info("Starting scheduler", { leadMinutes: 2 });
     this.isRunning = true;
 
     // Check every 15 seconds for schedules that need monitoring
@@ -35,25 +92,25 @@ class ExamScheduler {
       try {
         await this.checkFutureSchedules();
       } catch (error) {
-        console.error("❌ Scheduler error:", error);
+        logger.error("Scheduler tick failed", { err: error });
       }
     }, 15000);
 
     // Initial check
     this.checkFutureSchedules().catch((error) => {
-      console.error("❌ Initial check failed:", error);
+      logger.error("Initial schedule check failed", { err: error });
     });
 
-    console.log("✅ Future Schedule Monitor started");
+    logger.info("Scheduler started");
   }
 
   stop(): void {
     if (!this.isRunning) {
-      console.log("⚠️ Scheduler not running");
+      logger.warn("Scheduler not running");
       return;
     }
 
-    console.log("🛑 Stopping scheduler...");
+    logger.info("Stopping scheduler");
 
     if (this.schedulerInterval) {
       clearInterval(this.schedulerInterval);
@@ -61,10 +118,16 @@ class ExamScheduler {
     }
 
     this.isRunning = false;
-    console.log("✅ Scheduler stopped");
+    logger.info("Scheduler stopped");
   }
 
   private async checkFutureSchedules(): Promise<void> {
+    if (this.isChecking) {
+      logger.debug("Previous scheduler pass still running, skipping");
+      return;
+    }
+    this.isChecking = true;
+
     try {
       const nowUtc = DateTime.utc();
 
@@ -84,58 +147,291 @@ class ExamScheduler {
       }).populate("createdBy");
 
       if (schedulesToMonitor.length > 0) {
-        console.log(
-          `🔍 Found ${schedulesToMonitor.length} future schedule(s) ready for monitoring`
-        );
-        console.log(`📅 Current UTC: ${nowUtc.toISO()}`);
+        logger.info("Schedules ready for monitoring", {
+          count: schedulesToMonitor.length,
+          now: nowUtc.toISO(),
+        });
       }
 
-      for (const schedule of schedulesToMonitor) {
-        const scheduleTimeUtc = DateTime.fromJSDate(schedule.runAt, { zone: 'utc' });
-        const minutesUntil = scheduleTimeUtc.diff(nowUtc, 'minutes').minutes;
+      // Warm up side by side, one schedule's warmup must not delay another's
+      await Promise.all(
+        schedulesToMonitor
+          .filter((schedule) => !this.activeMonitoringSessions.has(schedule.id.toString()))
+          .map(async (schedule) => {
+            const scheduleTimeUtc = DateTime.fromJSDate(schedule.runAt, { zone: 'utc' });
+            const minutesUntil = scheduleTimeUtc.diff(nowUtc, 'minutes').minutes;
+            const log = logger.child({ scheduleId: schedule.id.toString() });
+
+            log.info("Schedule due", {
+              name: schedule.name,
+              runAt: scheduleTimeUtc.toISO(),
+              minutesUntil: Number(minutesUntil.toFixed(1)),
+            });
+
+            try {
+              await this.startMonitoringSession(schedule, "scheduled");
+            } catch (error) {
+              log.error("Failed to start monitoring", { err: error });
+              await this.updateScheduleWithError(
+                schedule.id,
+                error,
+                "Failed to start monitoring"
+              );
+            }
+          })
+      );
 
-        console.log(
-          `⏰ Schedule "${schedule.name}" at ${scheduleTimeUtc.toISO()} (${minutesUntil.toFixed(1)} min away)`
-        );
+      await this.cleanupCompletedSessions();
+      await this.processRetries();
+      await this.skipMissedOccurrences();
+    } catch (error) {
+      logger.error("Error checking future schedules", { err: error });
+    } finally {
+      this.isChecking = false;
+    }
+  }
 
-        try {
-          await this.startMonitoringSession(schedule);
-        } catch (error) {
-          console.error(
-            `❌ Failed to start monitoring for ${schedule.name}:`,
-            error
-          );
-          await this.updateScheduleWithError(
-            schedule.id,
-            error,
-            "Failed to start monitoring"
-          );
-        }
+  /**
+   * Minutes to wait before the next attempt, growing with every retry.
+   */
+  private getBackoffMinutes(retryCount: number): number {
+    const { backoffMinutes, backoffMultiplier, maxBackoffMinutes } = retryConfig;
+    return Math.min(
+      backoffMinutes * Math.pow(backoffMultiplier, retryCount),
+      maxBackoffMinutes
+    );
+  }
+
+  private async processRetries(): Promise<void> {
+    const candidates = await Schedule.findReadyForRetry(
+      retryConfig.backoffMinutes
+    );
+
+    for (const schedule of candidates) {
+      const scheduleId = schedule.id.toString();
+      if (this.activeMonitoringSessions.has(scheduleId)) continue;
+
+      // lastRun is when the previous attempt failed
+      const lastAttempt = schedule.lastRun || schedule.lastAttemptTime;
+      const backoffMs = this.getBackoffMinutes(schedule.retryCount || 0) * 60 * 1000;
+      if (lastAttempt && Date.now() - lastAttempt.getTime() < backoffMs) {
+        continue;
       }
 
-      await this.cleanupCompletedSessions();
+      await schedule.incrementRetry();
+
+      // Not "failed" anymore, so the next tick doesn't pick it up again
+      await Schedule.findByIdAndUpdate(scheduleId, {
+        status: "pending",
+        monitoringStarted: false,
+      });
+
+      const attempt = attemptNumber(schedule.retryCount);
+      const maxRetries = schedule.maxRetries ?? 5;
+      const log = logger.child({ scheduleId });
+      log.info("Retrying schedule", { name: schedule.name, attempt, maxRetries });
+
+      await this.notifyMembers(
+        schedule,
+        `🔁 **Automatic Retry**\n\n` +
+        `📋 ${schedule.name}\n` +
+        `🔢 Attempt ${attempt} (retry ${schedule.retryCount} of ${maxRetries})\n` +
+        `⚠️ Previous error: ${schedule.lastError || "Unknown"}`
+      );
+
+      try {
+        await this.startMonitoringSession(schedule, "retry");
+      } catch (error) {
+        log.error("Retry failed to start", { err: error });
+        await this.updateScheduleWithError(
+          scheduleId,
+          error,
+          "Failed to start monitoring"
+        );
+      }
+    }
+  }
+
+  /**
+   * Marks a run as failed. The schedule stays open for the retry loop while
+   * it has retries left, otherwise it is completed.
+   */
+  private async markScheduleFailed(
+    scheduleId: string,
+    errorMessage: string
+  ): Promise<FailureResult> {
+    const schedule = await Schedule.findById(scheduleId);
+    const retryCount = schedule?.retryCount || 0;
+    const maxRetries = schedule?.maxRetries ?? 5;
+    const willRetry = !!schedule && retryCount < maxRetries;
+
+    await Schedule.findByIdAndUpdate(scheduleId, {
+      completed: !willRetry,
+      status: "failed",
+      monitoringStarted: false,
+      lastRun: new Date(),
+      lastError: errorMessage,
+    });
+
+    // A recurring schedule gives up on this occurrence only
+    const nextRunAt = willRetry ? null : await this.advanceRecurrence(scheduleId);
+
+    return {
+      willRetry,
+      retryCount,
+      maxRetries,
+      nextRetryInMinutes: this.getBackoffMinutes(retryCount),
+      nextRunAt,
+    };
+  }
+
+  /**
+   * Recurring schedules whose occurrence passed without monitoring (e.g. the
+   * bot was down) move on instead of staying pending forever.
+   */
+  private async skipMissedOccurrences(): Promise<void> {
+    const missed = await Schedule.find({
+      "recurrence.kind": { $exists: true },
+      completed: false,
+      status: "pending",
+      monitoringStarted: { $ne: true },
+      runAt: { $lt: new Date() },
+    });
+
+    for (const schedule of missed) {
+      const scheduleId = schedule.id.toString();
+      if (this.activeMonitoringSessions.has(scheduleId)) continue;
+
+      logger.info("Skipping missed occurrence", {
+        scheduleId,
+        name: schedule.name,
+        runAt: schedule.runAt.toISOString(),
+      });
+      await this.advanceRecurrence(scheduleId);
+    }
+  }
+
+  /**
+   * Moves a recurring schedule to its next occurrence and reopens it, so
+   * checkFutureSchedules picks it up again. Returns null for one-off
+   * schedules, which keep their final state.
+   */
+  private async advanceRecurrence(scheduleId: string): Promise<Date | null> {
+    const schedule = await Schedule.findById(scheduleId);
+    if (!schedule || !isRecurring(schedule.recurrence)) return null;
+
+    const after = new Date(Math.max(Date.now(), schedule.runAt.getTime()));
+    const nextRunAt = nextOccurrence(schedule.recurrence, after);
+    if (!nextRunAt) return null;
+
+    schedule.runAt = nextRunAt;
+    schedule.completed = false;
+    schedule.status = "pending";
+    schedule.monitoringStarted = false;
+    schedule.retryCount = 0;
+    schedule.lastAttemptTime = undefined;
+    await schedule.save();
+
+    logger.info("Moved to next occurrence", {
+      scheduleId,
+      name: schedule.name,
+      nextRunAt: nextRunAt.toISOString(),
+    });
+    return nextRunAt;
+  }
+
+  private describeRetry(result: FailureResult, timezone = DEFAULT_TIMEZONE): string {
+    if (!result.willRetry && result.nextRunAt) {
+      return (
+        `No retries left for this occurrence (${result.retryCount}/${result.maxRetries}).\n` +
+        `🔁 Next occurrence: ${formatLocalAndUtc(result.nextRunAt, timezone)}`
+      );
+    }
+    if (!result.willRetry) {
+      return `No retries left (${result.retryCount}/${result.maxRetries}), the schedule has been marked as failed.`;
+    }
+    return (
+      `🔁 Will retry automatically in ~${Math.round(result.nextRetryInMinutes)} min ` +
+      `(retry ${result.retryCount + 1} of ${result.maxRetries}).`
+    );
+  }
+
+  // Run history is best effort, a failed write must never break a booking
+  private async recordRun(
+    session: ActiveSession,
+    update: Record<string, any>
+  ): Promise<void> {
+    if (!session.runId) return;
+    try {
+      await ScheduleRun.findByIdAndUpdate(session.runId, { $set: update });
     } catch (error) {
-      console.error("❌ Error checking future schedules:", error);
+      session.log.error("Failed to record run", { runId: session.runId, err: error });
     }
   }
 
-  private async startMonitoringSession(schedule: ISchedule) {
+  private async finishRun(
+    session: ActiveSession,
+    status: RunStatus,
+    error?: string
+  ): Promise<void> {
+    scheduleRunOutcomes.inc({ status });
+    await this.recordRun(session, {
+      status,
+      endedAt: new Date(),
+      ...(error ? { error } : {}),
+    });
+  }
+
+  private async startMonitoringSession(
+    schedule: ISchedule,
+    trigger: RunTrigger = "scheduled"
+  ) {
     const scheduleId = schedule.id.toString();
     const user = schedule.createdBy as unknown as UserDocument;
+    const log = logger.child({
+      scheduleId,
+      telegramId: user.telegramId || undefined,
+    });
+
+    // Only a paused session may be replaced, by resuming it
+    const previous = this.activeMonitoringSessions.get(scheduleId);
+    if (previous && previous.status !== "paused") {
+      throw new Error("Schedule is already being monitored");
+    }
 
-    console.log(`🎯 Starting monitoring session for: ${schedule.name}`);
+    log.info("Starting monitoring session", { name: schedule.name, trigger });
 
+    const startedAt = new Date();
     const session: ActiveSession = {
       scheduleId,
       userId: user._id.toString(),
       targetTime: schedule.runAt,
       status: "warming",
-      startedAt: new Date(),
+      startedAt,
+      expiresAt: DateTime.fromMillis(Math.max(schedule.runAt.getTime(), startedAt.getTime()))
+        .plus({ minutes: SESSION_WINDOW_MINUTES })
+        .toJSDate(),
       browsersPrewarmed: false,
+      monitor: new ExamApiMonitor(log),
+      log,
     };
 
+    // A resumed schedule replaces its paused session
+    previous?.monitor.stopPolling();
     this.activeMonitoringSessions.set(scheduleId, session);
 
+    try {
+      const run = await ScheduleRun.create({
+        schedule: schedule._id,
+        attempt: attemptNumber(schedule.retryCount),
+        trigger,
+        startedAt: session.startedAt,
+      });
+      session.runId = run.id;
+    } catch (error) {
+      log.error("Failed to create run", { err: error });
+    }
+
     // Update schedule status
     await Schedule.findByIdAndUpdate(scheduleId, {
       status: "monitoring",
@@ -143,165 +439,257 @@ class ExamScheduler {
     });
 
     // Send initial notification
-    if (user.telegramId) {
-      await bot.sendMessage(
-        user.telegramId,
+    await this.notifyMembers(
+      schedule,
+      (member) =>
         `🚀 **Monitoring Started**\n\n` +
         `📋 Name: ${schedule.name}\n` +
-        `⏰ Scheduled: ${schedule.runAt.toLocaleString()}\n` +
-        `🔥 Warming up 20 browsers...\n` +
+        `⏰ Scheduled: ${formatLocalAndUtc(schedule.runAt, member.timezone || DEFAULT_TIMEZONE)}\n` +
+        `🎯 Target: ${describeTarget(schedule.target)}\n` +
+        `🔥 Warming up browsers...\n` +
         `🔍 Will start polling for exam OID...\n\n` +
-        `You'll be notified when an OID is found!`,
-        { parse_mode: "Markdown" }
-      );
-    }
+        `You'll be notified when an OID is found!`
+    );
 
     try {
-      // Step 1: Warm up 20 browsers
-      console.log(`🔥 Warming up 20 browsers for ${schedule.name}...`);
-      await browserPool.warmup20Browsers();
-      
+      // Step 1: Warm up this schedule's browsers
+      log.info("Warming up browsers");
+      await this.recordRun(session, { "phases.warmupStartedAt": new Date() });
+      const browsers = await browserPool.acquireLease(scheduleId);
+      await this.recordRun(session, {
+        "phases.warmupCompletedAt": new Date(),
+        browsersWarmed: browsers.length,
+      });
+      if (browsers.length === 0) {
+        throw new Error("No browsers could be warmed, all displays are in use");
+      }
+
+      // Paused, stopped or resumed while the browsers warmed up
+      const current = this.activeMonitoringSessions.get(scheduleId);
+      if (current !== session || session.status === "paused") {
+        log.info("Session ended during warmup, not polling", { status: session.status });
+        // A resumed session owns the lease now
+        if (!current || current === session) await browserPool.releaseLease(scheduleId);
+        return;
+      }
+
       session.browsersPrewarmed = true;
       session.status = "monitoring";
 
-      if (user.telegramId) {
-        await bot.sendMessage(
-          user.telegramId,
-          `✅ **20 Browsers Ready**\n\n` +
-          `📋 ${schedule.name}\n` +
-          `🔥 All browsers prewarmed and ready\n` +
-          `🔍 Now polling for exam OID...`,
-          { parse_mode: "Markdown" }
-        );
-      }
+      await this.notifyMembers(
+        schedule,
+        `✅ **${browsers.length} Browsers Ready**\n\n` +
+        `📋 ${schedule.name}\n` +
+        `🔥 All browsers prewarmed and ready\n` +
+        `🔍 Now polling for exam OID...`
+      );
 
       // Step 2: Start polling for OID
-      console.log(`🔍 Starting OID polling for ${schedule.name}...`);
+      log.info("Starting OID polling", { browsers: browsers.length });
+
+      // Polls until the session expires, the cleanup would end it there anyway
+      const maxDurationMs = Math.max(session.expiresAt.getTime() - Date.now(), 0);
+      const monitoredFor = `${Math.round(
+        (session.expiresAt.getTime() - session.startedAt.getTime()) / 60000
+      )} minutes`;
 
-      await examMonitor.startPolling({
+      await session.monitor.startPolling({
         interval: 2000,
-        maxDurationMs: 5 * 60 * 60 * 1000,
+        maxDurationMs,
+        filter: (exam) => matchesTarget(exam, schedule.target),
+        category: schedule.target?.category,
+        level: schedule.target?.level,
 
-        onOidFound: async (oid: string, exam: any) => {
-          console.log(`🎯 OID FOUND: ${oid}`);
+        onFirstPoll: () => {
+          this.recordRun(session, { "phases.firstPollAt": new Date() });
+        },
+
+        onOidFound: async (oid: string, exam: Exam) => {
+          session.log = log.child({ oid });
+          session.log.info("OID found, booking", {
+            locationName: exam.locationName,
+            level: exam.level,
+          });
 
           session.status = "processing";
+          await this.recordRun(session, {
+            oid,
+            "phases.oidFoundAt": new Date(),
+            exam: {
+              eventName: exam.eventName,
+              locationName: exam.locationName,
+              level: exam.level,
+              category: exam.category,
+              startDate: exam.startDate,
+              bookFromStamp: exam.bookFrom?.toISOString(),
+              bookToStamp: exam.bookTo.toISOString(),
+            },
+          });
 
           // Notify OID found
-          if (user.telegramId) {
-            await bot.sendMessage(
-              user.telegramId,
-              `🎯 **EXAM FOUND!**\n\n` +
-              `🆔 OID: ${oid}\n` +
-              `📍 Location: ${exam.locationName || "Unknown"}\n` +
-              `📅 Event: ${exam.eventName || "Unknown"}\n\n` +
-              `⚡ Redirecting 20 prewarmed browsers NOW!`,
-              { parse_mode: "Markdown" }
-            );
-          }
+          await this.notifyMembers(
+            schedule,
+            `🎯 **EXAM FOUND!**\n\n` +
+            `🆔 OID: ${oid}\n` +
+            `📍 Location: ${exam.locationName || "Unknown"}\n` +
+            `📅 Event: ${exam.eventName || "Unknown"}\n\n` +
+            `⚡ Redirecting ${browsers.length} prewarmed browsers NOW!`
+          );
 
           // Step 3: Use prewarmed browsers to navigate to OID URL
-          await this.launchPrewarmedBrowsers(oid, scheduleId, user);
-
-          session.status = "completed";
-          
-          // Mark schedule as complete
-          await Schedule.findByIdAndUpdate(scheduleId, {
-            completed: true,
-            status: "success",
-            lastRun: new Date(),
+          const navigationStart = Date.now();
+          const result = await this.launchPrewarmedBrowsers(
+            oid,
+            schedule,
+            session.log
+          );
+          const { reachedPage } = result;
+
+          const navigationTimes = result.browsers
+            .filter((b) => b.reachedPage && b.navigationMs !== undefined)
+            .map((b) => b.navigationMs!);
+          await this.recordRun(session, {
+            browsers: result.browsers,
+            ...(navigationTimes.length
+              ? {
+                  "phases.navigatedAt": new Date(
+                    navigationStart + Math.min(...navigationTimes)
+                  ),
+                }
+              : {}),
           });
 
+          // Booking has finished holding the browsers
+          await browserPool.releaseLease(scheduleId);
+
+          if (reachedPage) {
+            session.status = "completed";
+            await this.finishRun(session, "success");
+
+            // Mark schedule as complete
+            await Schedule.findByIdAndUpdate(scheduleId, {
+              completed: true,
+              status: "success",
+              lastRun: new Date(),
+              lastError: null,
+            });
+
+            const nextRunAt = await this.advanceRecurrence(scheduleId);
+            if (nextRunAt) {
+              await this.notifyMembers(
+                schedule,
+                (member) =>
+                  `🔁 **Next Occurrence Scheduled**\n\n` +
+                  `📋 ${schedule.name}\n` +
+                  `⏰ ${formatLocalAndUtc(nextRunAt, member.timezone)}`
+              );
+            }
+          } else {
+            session.status = "failed";
+            await this.finishRun(
+              session,
+              "failed",
+              "All browsers failed to reach page"
+            );
+            const failure = await this.markScheduleFailed(
+              scheduleId,
+              "All browsers failed to reach page"
+            );
+
+            await this.notifyMembers(
+              schedule,
+              (member) =>
+                `❌ **Booking Page Not Reached**\n\n` +
+                `📋 ${schedule.name}\n` +
+                `No browser reached the booking page.\n\n` +
+                this.describeRetry(failure, member.timezone)
+            );
+          }
+
           this.activeMonitoringSessions.delete(scheduleId);
         },
 
         onTimeout: async () => {
-          console.log(`⏰ Monitoring timeout for ${schedule.name}`);
+          log.warn("Monitoring timed out without an OID");
+          await this.finishRun(session, "timeout", "No OID found within monitoring period");
 
-          await Schedule.findByIdAndUpdate(scheduleId, {
-            completed: true,
-            status: "failed",
-            lastRun: new Date(),
-            lastError: "No OID found within monitoring period (30 minutes)",
-          });
+          const result = await this.markScheduleFailed(
+            scheduleId,
+            `No OID found within monitoring period (${monitoredFor})`
+          );
 
-          if (user.telegramId) {
-            await bot.sendMessage(
-              user.telegramId,
+          await this.notifyMembers(
+            schedule,
+            (member) =>
               `⏰ **Monitoring Timeout**\n\n` +
               `📋 Schedule: ${schedule.name}\n` +
-              `❌ No exam OID found within 30 minutes\n\n` +
-              `The schedule has been marked as failed.`,
-              { parse_mode: "Markdown" }
-            );
-          }
+              `❌ No exam OID found within ${monitoredFor}\n\n` +
+              this.describeRetry(result, member.timezone)
+          );
 
-          // Close all prewarmed browsers
-          await browserPool.closeAllBrowsers();
+          // Close this schedule's prewarmed browsers
+          await browserPool.releaseLease(scheduleId);
 
           session.status = "failed";
           this.activeMonitoringSessions.delete(scheduleId);
         },
       });
     } catch (error) {
-      console.error(`❌ Error in monitoring session:`, error);
+      log.error("Monitoring session failed", { err: error });
+      await this.finishRun(session, "failed", (error as Error).message);
 
-      await Schedule.findByIdAndUpdate(scheduleId, {
-        completed: true,
-        status: "failed",
-        lastRun: new Date(),
-        lastError: (error as Error).message,
-      });
+      const result = await this.markScheduleFailed(
+        scheduleId,
+        (error as Error).message
+      );
 
-      if (user.telegramId) {
-        await bot.sendMessage(
-          user.telegramId,
+      await this.notifyMembers(
+        schedule,
+        (member) =>
           `❌ **Monitoring Failed**\n\n` +
           `📋 ${schedule.name}\n` +
-          `Error: ${(error as Error).message}`,
-          { parse_mode: "Markdown" }
-        );
-      }
+          `Error: ${(error as Error).message}\n\n` +
+          this.describeRetry(result, member.timezone)
+      );
 
       // Close browsers on error
-      await browserPool.closeAllBrowsers();
+      session.monitor.stopPolling();
+      await browserPool.releaseLease(scheduleId);
 
       session.status = "failed";
-      this.activeMonitoringSessions.delete(scheduleId);
+      if (this.activeMonitoringSessions.get(scheduleId) === session) {
+        this.activeMonitoringSessions.delete(scheduleId);
+      }
     }
   }
 
   private async launchPrewarmedBrowsers(
     oid: string,
-    scheduleId: string,
-    user: UserDocument
-  ): Promise<void> {
+    schedule: ISchedule,
+    log: Logger
+  ): Promise<RunResult> {
     try {
-      console.log(`⚡ Using runCluster to redirect prewarmed browsers to OID ${oid}`);
-
-      if (user.telegramId) {
-        await bot.sendMessage(
-          user.telegramId,
-          `⚡ **Launching Browsers**\n\n` +
-          `🌐 Redirecting all prewarmed browsers to booking page in parallel...\n` +
-          `🆔 OID: ${oid}`,
-          { parse_mode: "Markdown" }
-        );
-      }
+      log.info("Launching prewarmed browsers");
+
+      await this.notifyMembers(
+        schedule,
+        `⚡ **Launching Browsers**\n\n` +
+        `🌐 Redirecting all prewarmed browsers to booking page in parallel...\n` +
+        `🆔 OID: ${oid}`
+      );
 
       // Use runCluster which handles parallel navigation and booking
-      await runAllAccountsWithPrewarmedBrowsers(oid, scheduleId);
+      return await runAllAccountsWithPrewarmedBrowsers(oid, schedule.id.toString());
 
     } catch (error) {
-      console.error(`❌ Error launching prewarmed browsers:`, error);
+      log.error("Failed to launch prewarmed browsers", { err: error });
       throw error;
     }
   }
 
   private async handleScheduleFailure(
     scheduleId: string,
-    error: any,
-    telegramId: string
+    error: any
   ): Promise<void> {
     const schedule = await Schedule.findById(scheduleId);
     if (!schedule) return;
@@ -309,18 +697,15 @@ class ExamScheduler {
     const errorMessage =
       (error as any).message || error.toString() || "Unknown error";
 
-    await Schedule.findByIdAndUpdate(scheduleId, {
-      completed: true,
-      status: "failed",
-      lastError: errorMessage,
-      lastRun: new Date(),
-    });
+    const result = await this.markScheduleFailed(scheduleId, errorMessage);
 
-    await this.sendLogToUser(
-      telegramId,
-      `❌ **Schedule Failed**\n\n` +
-      `📋 ${schedule.name}\n` +
-      `🚨 Error: ${errorMessage}`
+    await this.notifyMembers(
+      schedule,
+      (member) =>
+        `❌ **Schedule Failed**\n\n` +
+        `📋 ${schedule.name}\n` +
+        `🚨 Error: ${errorMessage}\n\n` +
+        this.describeRetry(result, member.timezone)
     );
 
     this.activeMonitoringSessions.delete(scheduleId);
@@ -332,20 +717,22 @@ class ExamScheduler {
       session.status = "paused";
     }
 
-    // Stop monitoring
-    examMonitor.stopPolling();
+    // Stop this schedule's polling. Its displays go back to the pool while
+    // paused, resuming warms a new lease
+    if (session) {
+      session.monitor.stopPolling();
+      await this.finishRun(session, "paused");
+    }
+    await browserPool.releaseLease(scheduleId);
 
     await Schedule.findByIdAndUpdate(scheduleId, { status: "paused" });
 
-    const schedule = await Schedule.findById(scheduleId).populate("createdBy");
-    if (schedule?.createdBy) {
-      const user = schedule.createdBy as any;
-      if (user.telegramId) {
-        await this.sendLogToUser(
-          user.telegramId,
-          `⏸️ **Schedule Paused**\n📋 ${schedule.name}`
-        );
-      }
+    const schedule = await Schedule.findById(scheduleId);
+    if (schedule) {
+      await this.notifyMembers(
+        schedule,
+        `⏸️ **Schedule Paused**\n📋 ${schedule.name}`
+      );
     }
   }
 
@@ -360,18 +747,19 @@ class ExamScheduler {
       monitoringStarted: false,
     });
 
-    await this.startMonitoringSession(schedule);
+    await this.startMonitoringSession(schedule, "resume");
   }
 
   async stopSchedule(scheduleId: string): Promise<void> {
     const session = this.activeMonitoringSessions.get(scheduleId);
     if (session) {
       this.activeMonitoringSessions.delete(scheduleId);
+      await session.monitor.forceStopPolling();
+      await this.finishRun(session, "stopped", "Stopped by user");
     }
 
-    // Stop monitoring and close browsers
-    examMonitor.stopPolling();
-    await browserPool.closeAllBrowsers();
+    // Close only the browsers leased to this schedule
+    await browserPool.releaseLease(scheduleId);
 
     await Schedule.findByIdAndUpdate(scheduleId, {
       completed: true,
@@ -389,12 +777,36 @@ class ExamScheduler {
     const errorMessage =
       (error as any).message || error.toString() || "Unknown error";
 
-    await Schedule.findByIdAndUpdate(scheduleId, {
-      monitoringStarted: false,
-      status: "failed",
-      lastError: `${context}: ${errorMessage}`,
-      lastRun: new Date(),
-    });
+    await this.markScheduleFailed(scheduleId, `${context}: ${errorMessage}`);
+  }
+
+  /**
+   * Sends to every subscribed member of the schedule's workspace. Pass a
+   * function to render times in each member's timezone. A member we can't
+   * reach doesn't keep the others from hearing about it.
+   */
+  private async notifyMembers(
+    schedule: ISchedule,
+    message: string | ((member: UserDocument) => string)
+  ): Promise<void> {
+    let members: UserDocument[] = [];
+    try {
+      members = await Workspace.findSubscribers(schedule.workspace);
+    } catch (error) {
+      logger.error("Failed to load workspace subscribers", {
+        scheduleId: schedule.id.toString(),
+        err: error,
+      });
+    }
+
+    await Promise.all(
+      members.map((member) =>
+        this.sendLogToUser(
+          member.telegramId,
+          typeof message === "string" ? message : message(member)
+        )
+      )
+    );
   }
 
   private async sendLogToUser(
@@ -404,7 +816,7 @@ class ExamScheduler {
     try {
       await bot.sendMessage(telegramId, message, { parse_mode: "Markdown" });
     } catch (error) {
-      console.error(`❌ Failed to send message to ${telegramId}:`, error);
+      logger.warn("Failed to send Telegram message", { telegramId, err: error });
     }
   }
 
@@ -413,18 +825,24 @@ class ExamScheduler {
     const expiredSessions: string[] = [];
 
     for (const [scheduleId, session] of this.activeMonitoringSessions.entries()) {
-      const targetTimeUtc = DateTime.fromJSDate(session.targetTime, { zone: 'utc' });
-      const expiryTime = targetTimeUtc.plus({ minutes: 30 });
+      const expiryTime = DateTime.fromJSDate(session.expiresAt, { zone: 'utc' });
 
-      if (nowUtc > expiryTime && session.status !== "processing") {
-        console.log(`🧹 Cleaning up expired session: ${scheduleId}`);
+      // Booking in progress, or paused by the user until they resume or stop it
+      if (session.status === "processing" || session.status === "paused") continue;
+
+      if (nowUtc > expiryTime) {
+        session.log.warn("Cleaning up expired session");
         expiredSessions.push(scheduleId);
       }
     }
 
     for (const scheduleId of expiredSessions) {
+      const session = this.activeMonitoringSessions.get(scheduleId)!;
+      session.monitor.stopPolling();
+      await this.finishRun(session, "failed", "Session expired");
       this.activeMonitoringSessions.delete(scheduleId);
-      await this.handleScheduleFailure(scheduleId, "Session expired", "");
+      await browserPool.releaseLease(scheduleId);
+      await this.handleScheduleFailure(scheduleId, "Session expired");
     }
   }
 
@@ -435,14 +853,19 @@ class ExamScheduler {
         const startedUtc = DateTime.fromJSDate(session.startedAt, { zone: 'utc' });
         const targetUtc = DateTime.fromJSDate(session.targetTime, { zone: 'utc' });
         const runningSeconds = nowUtc.diff(startedUtc, 'seconds').seconds;
+        const monitorStatus = session.monitor.getStatus();
 
         return {
           scheduleId: session.scheduleId,
           targetTime: targetUtc.toISO(),
           startedAt: startedUtc.toISO(),
+          expiresAt: session.expiresAt.toISOString(),
           runningFor: `${Math.round(runningSeconds)}s`,
           status: session.status,
           browsersPrewarmed: session.browsersPrewarmed || false,
+          browsers: browserPool.getLeaseStatus(session.scheduleId).readyBrowsers,
+          isPolling: monitorStatus.isPolling,
+          consecutiveErrors: monitorStatus.consecutiveErrors,
         };
       }
     );
@@ -456,8 +879,14 @@ class ExamScheduler {
   }
 
   async stopAllMonitoring(): Promise<void> {
-    console.log(`🛑 Stopping ${this.activeMonitoringSessions.size} active sessions`);
-    examMonitor.destroy();
+    logger.info("Stopping all monitoring sessions", {
+      sessions: this.activeMonitoringSessions.size,
+    });
+    await Promise.allSettled(
+      Array.from(this.activeMonitoringSessions.values()).map((session) =>
+        session.monitor.destroy()
+      )
+    );
     await browserPool.closeAllBrowsers();
     this.activeMonitoringSessions.clear();
   }
@@ -467,6 +896,10 @@ class ExamScheduler {
     if (!schedule || schedule.completed) {
       throw new Error("Schedule not found or already completed");
     }
+    const session = this.activeMonitoringSessions.get(scheduleId);
+    if (session && session.status !== "paused") {
+      throw new Error("Schedule is already being monitored");
+    }
 
     await Schedule.findByIdAndUpdate(scheduleId, {
       status: "pending",
@@ -474,7 +907,56 @@ class ExamScheduler {
       lastError: null,
     });
 
-    await this.startMonitoringSession(schedule);
+    await this.startMonitoringSession(schedule, "manual");
+  }
+
+  /**
+   * Manually retry a failed schedule, either leaving it for the regular check
+   * (target time still ahead) or starting monitoring right away. While
+   * automatic retries are left the manual one takes the place of the queued
+   * retry and counts against maxRetries. Once they are used up it starts a
+   * fresh retry budget.
+   */
+  async retrySchedule(scheduleId: string): Promise<ISchedule> {
+    const schedule = await Schedule.findById(scheduleId).populate("createdBy");
+    if (!schedule) {
+      throw new Error("Schedule not found");
+    }
+
+    if (schedule.status !== "failed") {
+      throw new Error(
+        `Only failed schedules can be retried (current status: ${schedule.status})`
+      );
+    }
+
+    if (this.activeMonitoringSessions.has(scheduleId)) {
+      throw new Error("Schedule is already being monitored");
+    }
+
+    const retryCount = schedule.retryCount || 0;
+    const maxRetries = schedule.maxRetries ?? 5;
+    if (retryCount >= maxRetries) {
+      await schedule.resetRetries();
+    } else {
+      await schedule.incrementRetry();
+    }
+
+    schedule.completed = false;
+    schedule.status = "pending";
+    schedule.monitoringStarted = false;
+    await schedule.save();
+
+    const isFuture = schedule.runAt.getTime() > Date.now();
+    if (!isFuture) {
+      const log = logger.child({ scheduleId });
+      log.info("Manually retrying schedule", { name: schedule.name });
+      // Warmup and polling take minutes, don't hold the caller
+      this.startMonitoringSession(schedule, "retry").catch((error) => {
+        log.error("Retry failed to start", { err: error });
+      });
+    }
+
+    return schedule;
   }
 
   async getScheduleInfo(scheduleId: string): Promise<any> {
@@ -493,13 +975,13 @@ const examScheduler = new ExamScheduler();
 
 // Graceful shutdown handlers
 process.on("SIGINT", async () => {
-  console.log("\n🛑 SIGINT - shutting down gracefully...");
+  logger.info("Shutting down", { signal: "SIGINT" });
   examScheduler.stop();
   await examScheduler.stopAllMonitoring();
 });
 
 process.on("SIGTERM", async () => {
-  console.log("\n🛑 SIGTERM - shutting down gracefully...");
+  logger.info("Shutting down", { signal: "SIGTERM" });
   examScheduler.stop();
   await examScheduler.stopAllMonitoring();
 });
@@ -0,0 +1,43 @@
+import dotenv from "dotenv";
+import mongoose from "mongoose";
+import User, { USER_ROLES } from "../models/userSchema";
+
+dotenv.config();
+
+/**
+ * Users who joined before roles existed have none and are locked out. Gives
+ * them a role (operator unless --role says otherwise) so they keep working.
+ *
+ * Usage: npm run migrate:roles [-- --role viewer] [-- --dry-run]
+ */
+const run = async () => {
+  const dryRun = process.argv.includes("--dry-run");
+  const roleIndex = process.argv.indexOf("--role");
+  const role = roleIndex >= 0 ? process.argv[roleIndex + 1] : "operator";
+  if (!(USER_ROLES as readonly string[]).includes(role)) {
+    throw new Error(`--role must be one of ${USER_ROLES.join(", ")} (got ${role})`);
+  }
+
+  const mongoUri = process.env.MONGO_URI || "";
+  await mongoose.connect(mongoUri, { serverSelectionTimeoutMS: 20000 });
+
+  const filter = { $or: [{ role: { $exists: false } }, { role: null }] };
+  const pending = await User.countDocuments(filter);
+  console.log(
+    `👥 ${pending} user(s) without a role${dryRun ? " (dry run)" : `, making them ${role}`}`
+  );
+
+  if (!dryRun && pending > 0) {
+    const result = await User.updateMany(filter, { $set: { role } });
+    console.log(`✅ Done. Updated ${result.modifiedCount} user(s)`);
+  }
+
+  await mongoose.connection.close();
+  process.exit(0);
+};
+
+run().catch(async (error) => {
+  console.error("❌ Migration error:", error);
+  await mongoose.connection.close().catch(() => {});
+  process.exit(1);
+});
@@ -0,0 +1,90 @@
+import dotenv from "dotenv";
+import mongoose from "mongoose";
+import Account from "../models/accountSchema";
+import Schedule from "../models/scheduleSchema";
+import User from "../models/userSchema";
+import Workspace from "../models/workspaceSchema";
+
+dotenv.config();
+
+/**
+ * Accounts and schedules created before workspaces existed have none, the
+ * bot doesn't show them and the scheduler can't notify anyone about them.
+ * Puts every user in a workspace of their own and moves their accounts and
+ * schedules there, or with --shared everyone into one team workspace.
+ *
+ * Usage: npm run migrate:workspaces [-- --shared "Team name"] [-- --dry-run]
+ */
+const run = async () => {
+  const dryRun = process.argv.includes("--dry-run");
+  const sharedIndex = process.argv.indexOf("--shared");
+  const sharedName = sharedIndex >= 0 ? process.argv[sharedIndex + 1] : undefined;
+  if (sharedIndex >= 0 && !sharedName) {
+    throw new Error("--shared needs the name of the workspace");
+  }
+
+  const mongoUri = process.env.MONGO_URI || "";
+  await mongoose.connect(mongoUri, { serverSelectionTimeoutMS: 20000 });
+
+  const missing = { workspace: { $exists: false } };
+  const [accounts, schedules] = await Promise.all([
+    Account.countDocuments(missing),
+    Schedule.countDocuments(missing),
+  ]);
+  console.log(
+    `🏢 ${accounts} account(s) and ${schedules} schedule(s) without a workspace${dryRun ? " (dry run)" : ""}`
+  );
+
+  const users = await User.find({
+    $or: [
+      { role: { $ne: null } },
+      { _id: { $in: await Account.distinct("user", missing) } },
+      { _id: { $in: await Schedule.distinct("createdBy", missing) } },
+    ],
+  }).sort({ createdAt: 1 });
+
+  if (dryRun || users.length === 0) {
+    console.log(
+      `👥 ${users.length} user(s) would be ${sharedName ? `added to "${sharedName}"` : "given their own workspace"}`
+    );
+    await mongoose.connection.close();
+    process.exit(0);
+  }
+
+  // Reused when the migration runs again, else created by the oldest owner
+  const shared = sharedName
+    ? (await Workspace.findOne({ name: sharedName })) ||
+      (await Workspace.create({
+        name: sharedName,
+        createdBy: (users.find((user) => user.role === "owner") || users[0])._id,
+      }))
+    : null;
+
+  let movedAccounts = 0;
+  let movedSchedules = 0;
+  for (const user of users) {
+    const workspace = shared
+      ? await Workspace.addMember(shared._id, user._id)
+      : await Workspace.ensureForUser(user);
+
+    const [accountResult, scheduleResult] = await Promise.all([
+      Account.updateMany({ user: user._id, ...missing }, { $set: { workspace: workspace!._id } }),
+      Schedule.updateMany({ createdBy: user._id, ...missing }, { $set: { workspace: workspace!._id } }),
+    ]);
+    movedAccounts += accountResult.modifiedCount;
+    movedSchedules += scheduleResult.modifiedCount;
+  }
+
+  console.log(
+    `✅ Done. ${users.length} user(s) placed, moved ${movedAccounts} account(s) and ${movedSchedules} schedule(s)`
+  );
+
+  await mongoose.connection.close();
+  process.exit(0);
+};
+
+run().catch(async (error) => {
+  console.error("❌ Migration error:", error);
+  await mongoose.connection.close().catch(() => {});
+  process.exit(1);
+});
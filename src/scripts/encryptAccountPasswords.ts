@@ -0,0 +1,77 @@
+import dotenv from "dotenv";
+import mongoose from "mongoose";
+import Account from "../models/accountSchema";
+import {
+  decryptSecret,
+  encryptSecret,
+  isEncryptedSecret,
+  needsReencryption,
+} from "../security/encryption";
+
+dotenv.config();
+
+/**
+ * Encrypts plaintext account passwords and re-wraps passwords that were
+ * encrypted with a previous master key.
+ *
+ * Usage: npm run migrate:passwords [-- --dry-run]
+ */
+const run = async () => {
+  const dryRun = process.argv.includes("--dry-run");
+  const mongoUri = process.env.MONGO_URI || "";
+
+  await mongoose.connect(mongoUri, { serverSelectionTimeoutMS: 20000 });
+  console.log(`🔐 Connected, scanning accounts${dryRun ? " (dry run)" : ""}...`);
+
+  // Read raw documents so no middleware touches the stored values
+  const cursor = Account.collection.find(
+    {},
+    { projection: { _id: 1, email: 1, password: 1 } }
+  );
+
+  let scanned = 0;
+  let encrypted = 0;
+  let rewrapped = 0;
+  let failed = 0;
+
+  for await (const doc of cursor) {
+    scanned++;
+    const stored = doc.password as string | undefined;
+    if (!stored || !needsReencryption(stored)) continue;
+
+    try {
+      const plaintext = isEncryptedSecret(stored)
+        ? decryptSecret(stored)
+        : stored;
+
+      if (!dryRun) {
+        await Account.collection.updateOne(
+          { _id: doc._id },
+          { $set: { password: encryptSecret(plaintext) } }
+        );
+      }
+
+      if (isEncryptedSecret(stored)) rewrapped++;
+      else encrypted++;
+    } catch (error) {
+      failed++;
+      console.error(
+        `❌ Failed to migrate account ${doc.email} (${doc._id}):`,
+        (error as Error).message
+      );
+    }
+  }
+
+  console.log(
+    `✅ Done. Scanned ${scanned}, encrypted ${encrypted}, re-encrypted ${rewrapped}, failed ${failed}`
+  );
+
+  await mongoose.connection.close();
+  process.exit(failed > 0 ? 1 : 0);
+};
+
+run().catch(async (error) => {
+  console.error("❌ Migration error:", error);
+  await mongoose.connection.close().catch(() => {});
+  process.exit(1);
+});
@@ -0,0 +1,188 @@
+import crypto from "crypto";
+import dotenv from "dotenv";
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import AdminAudit from "../models/adminAuditSchema";
+import { roleAtLeast, USER_ROLES, UserRole } from "../models/userSchema";
+import { logger } from "../utils/logger";
+
+dotenv.config();
+
+/**
+ * Protects the /admin HTTP routes: bearer tokens from ADMIN_API_TOKENS, a
+ * per-IP rate limit and an audit record (AdminAudit) for every request,
+ * refused ones included.
+ *
+ *   ADMIN_API_TOKENS=ops:<token>,ci:<token>:operator
+ *   curl -H "Authorization: Bearer <token>" -X POST .../admin/scheduler/stop
+ */
+
+export interface AdminToken {
+  // Recorded as the actor in the audit log
+  name: string;
+  // Same roles as bot users, routes pick the one they need
+  role: UserRole;
+  // sha256 of the token, compared in constant time
+  hash: Buffer;
+}
+
+export interface RateLimitOptions {
+  limit: number;
+  windowMs: number;
+  now?: () => number;
+}
+
+const MIN_TOKEN_LENGTH = 24;
+
+export const ADMIN_RATE_LIMIT = parseInt(process.env.ADMIN_RATE_LIMIT || "", 10) || 30;
+export const ADMIN_RATE_WINDOW_MS =
+  (parseInt(process.env.ADMIN_RATE_WINDOW_SECONDS || "", 10) || 60) * 1000;
+
+const sha256 = (value: string) => crypto.createHash("sha256").update(value).digest();
+
+/**
+ * Parses "name:token[:role],...". A bare token is called admin-N, the role
+ * defaults to owner. Throws on tokens too short to be safe and unknown
+ * roles, an empty list disables /admin.
+ */
+export const parseAdminTokens = (value: string | undefined): AdminToken[] =>
+  (value || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry, index) => {
+      const parts = entry.split(":").map((part) => part.trim());
+      const [name, token, role = "owner"] =
+        parts.length === 1 ? [`admin-${index + 1}`, parts[0]] : parts;
+      if (!token || token.length < MIN_TOKEN_LENGTH) {
+        throw new Error(
+          `ADMIN_API_TOKENS: token "${name}" must be at least ${MIN_TOKEN_LENGTH} characters`
+        );
+      }
+      if (!(USER_ROLES as readonly string[]).includes(role)) {
+        throw new Error(
+          `ADMIN_API_TOKENS: token "${name}" has unknown role "${role}" (use ${USER_ROLES.join(", ")})`
+        );
+      }
+      return { name, role: role as UserRole, hash: sha256(token) };
+    });
+
+const findToken = (tokens: AdminToken[], presented: string): AdminToken | null => {
+  const hash = sha256(presented);
+  // Compare against every token so timing doesn't reveal which one matched
+  let match: AdminToken | null = null;
+  for (const token of tokens) {
+    if (crypto.timingSafeEqual(token.hash, hash)) match = token;
+  }
+  return match;
+};
+
+const reject = (res: Response, statusCode: number, error: string) => {
+  res.locals.adminRejection = error;
+  res.status(statusCode).json({
+    success: false,
+    error,
+    timestamp: new Date().toISOString(),
+  });
+};
+
+/**
+ * 401 without a bearer token, 403 for a token we don't know or when no
+ * token is configured at all.
+ */
+export const requireAdminToken = (tokens: AdminToken[]): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction) => {
+    if (tokens.length === 0) {
+      reject(res, 403, "Admin API is disabled, set ADMIN_API_TOKENS to enable it");
+      return;
+    }
+
+    const match = /^Bearer\s+(\S+)$/i.exec(req.get("authorization") || "");
+    if (!match) {
+      res.set("WWW-Authenticate", 'Bearer realm="admin"');
+      reject(res, 401, "Missing bearer token");
+      return;
+    }
+
+    const token = findToken(tokens, match[1]);
+    if (!token) {
+      reject(res, 403, "Invalid admin token");
+      return;
+    }
+
+    res.locals.adminActor = token.name;
+    res.locals.adminRole = token.role;
+    next();
+  };
+
+/**
+ * Per route, after requireAdminToken: 403 unless the token's role is at
+ * least the given one.
+ */
+export const requireAdminRole = (role: UserRole): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction) => {
+    if (!roleAtLeast(res.locals.adminRole, role)) {
+      reject(res, 403, `This needs a token with the ${role} role`);
+      return;
+    }
+    next();
+  };
+
+/**
+ * Fixed window per client IP, counted before authentication so tokens can't
+ * be guessed quickly either. Answers 429 with Retry-After.
+ */
+export const adminRateLimit = ({
+  limit,
+  windowMs,
+  now = Date.now,
+}: RateLimitOptions): RequestHandler => {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const currentTime = now();
+    for (const [ip, window] of windows) {
+      if (currentTime - window.startedAt >= windowMs) windows.delete(ip);
+    }
+
+    const ip = req.ip || "unknown";
+    const window = windows.get(ip) || { startedAt: currentTime, count: 0 };
+    window.count++;
+    windows.set(ip, window);
+
+    if (window.count > limit) {
+      const retryAfter = Math.ceil((window.startedAt + windowMs - currentTime) / 1000);
+      res.set("Retry-After", String(retryAfter));
+      reject(res, 429, `Too many admin requests, retry in ${retryAfter}s`);
+      return;
+    }
+    next();
+  };
+};
+
+/**
+ * Records every admin request once the response is sent. A failed write is
+ * logged, it never fails the request.
+ */
+export const auditAdminActions = (): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const startedAt = Date.now();
+
+    res.on("finish", () => {
+      const entry = {
+        action: `${req.method} ${req.originalUrl.split("?")[0]}`,
+        actor: res.locals.adminActor || null,
+        ip: req.ip,
+        statusCode: res.statusCode,
+        success: res.statusCode < 400,
+        rejection: res.locals.adminRejection,
+        durationMs: Date.now() - startedAt,
+      };
+
+      logger.info("Admin request", entry);
+      AdminAudit.create(entry).catch((error) => {
+        logger.error("Failed to write admin audit entry", { action: entry.action, err: error });
+      });
+    });
+
+    next();
+  };
@@ -0,0 +1,146 @@
+import crypto from "crypto";
+import dotenv from "dotenv";
+
+dotenv.config();
+
+/**
+ * Envelope encryption for secrets stored in MongoDB.
+ *
+ * Every value gets its own random data key (AES-256-GCM). The data key is
+ * wrapped with the master key from ACCOUNT_ENCRYPTION_KEY, so rotating the
+ * master key only requires re-wrapping, and a leaked dump is useless without
+ * the environment.
+ *
+ * Stored format: enc:v1:<keyId>:<wrappedDataKey>:<payload>
+ * where wrappedDataKey and payload are base64(iv | authTag | ciphertext).
+ */
+
+const PREFIX = "enc";
+const VERSION = "v1";
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+let cachedKeys: { current: MasterKey; previous: MasterKey[] } | null = null;
+
+const parseMasterKey = (raw: string, name: string): MasterKey => {
+  const trimmed = raw.trim();
+  const key = /^[0-9a-fA-F]{64}$/.test(trimmed)
+    ? Buffer.from(trimmed, "hex")
+    : Buffer.from(trimmed, "base64");
+
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(
+      `${name} must be a 32-byte key encoded as base64 or hex (got ${key.length} bytes)`
+    );
+  }
+
+  const id = crypto.createHash("sha256").update(key).digest("hex").slice(0, 8);
+  return { id, key };
+};
+
+const loadKeys = () => {
+  if (cachedKeys) return cachedKeys;
+
+  const current = process.env.ACCOUNT_ENCRYPTION_KEY;
+  if (!current) {
+    throw new Error(
+      "ACCOUNT_ENCRYPTION_KEY is not set. Generate one with: openssl rand -base64 32"
+    );
+  }
+
+  const previous = (process.env.ACCOUNT_ENCRYPTION_PREVIOUS_KEYS || "")
+    .split(",")
+    .filter((value) => value.trim().length > 0)
+    .map((value) =>
+      parseMasterKey(value, "ACCOUNT_ENCRYPTION_PREVIOUS_KEYS entry")
+    );
+
+  cachedKeys = {
+    current: parseMasterKey(current, "ACCOUNT_ENCRYPTION_KEY"),
+    previous,
+  };
+  return cachedKeys;
+};
+
+const findKey = (keyId: string): MasterKey | null => {
+  const { current, previous } = loadKeys();
+  if (current.id === keyId) return current;
+  return previous.find((key) => key.id === keyId) || null;
+};
+
+const seal = (key: Buffer, plaintext: Buffer): string => {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString(
+    "base64"
+  );
+};
+
+const open = (key: Buffer, sealed: string): Buffer => {
+  const raw = Buffer.from(sealed, "base64");
+  const iv = raw.subarray(0, IV_LENGTH);
+  const tag = raw.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH);
+  const ciphertext = raw.subarray(IV_LENGTH + TAG_LENGTH);
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+};
+
+export const isEncryptedSecret = (value: unknown): value is string => {
+  return (
+    typeof value === "string" && value.startsWith(`${PREFIX}:${VERSION}:`)
+  );
+};
+
+export const encryptSecret = (plaintext: string): string => {
+  const { current } = loadKeys();
+  const dataKey = crypto.randomBytes(KEY_LENGTH);
+
+  const wrappedKey = seal(current.key, dataKey);
+  const payload = seal(dataKey, Buffer.from(plaintext, "utf8"));
+
+  return [PREFIX, VERSION, current.id, wrappedKey, payload].join(":");
+};
+
+export const decryptSecret = (value: string): string => {
+  if (!isEncryptedSecret(value)) {
+    throw new Error("Value is not an encrypted secret");
+  }
+
+  const [, , keyId, wrappedKey, payload] = value.split(":");
+  const masterKey = findKey(keyId);
+  if (!masterKey) {
+    throw new Error(
+      `No master key available for key id ${keyId}. Add the old key to ACCOUNT_ENCRYPTION_PREVIOUS_KEYS.`
+    );
+  }
+
+  const dataKey = open(masterKey.key, wrappedKey);
+  return open(dataKey, payload).toString("utf8");
+};
+
+/**
+ * True when the value is plaintext or was wrapped with a master key other
+ * than the current one.
+ */
+export const needsReencryption = (value: string): boolean => {
+  if (!isEncryptedSecret(value)) return true;
+  const keyId = value.split(":")[2];
+  return keyId !== loadKeys().current.id;
+};
+
+/**
+ * Fails fast at startup instead of on the first account save.
+ */
+export const assertEncryptionKey = (): void => {
+  loadKeys();
+};
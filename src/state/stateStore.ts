@@ -0,0 +1,58 @@
+import dotenv from "dotenv";
+import ConversationState from "../models/conversationStateSchema";
+
+dotenv.config();
+
+export interface UserState {
+  state: string;
+  [key: string]: any;
+}
+
+/**
+ * Where the bot keeps per-user wizard progress between messages.
+ */
+export interface StateStore {
+  get(userId: string): Promise<UserState | null>;
+  set(userId: string, state: UserState): Promise<void>;
+  clear(userId: string): Promise<void>;
+}
+
+/**
+ * Stores conversation state in MongoDB so a restart doesn't lose wizards
+ * that are in progress. Abandoned states expire through a TTL index.
+ */
+export class MongoStateStore implements StateStore {
+  constructor(private ttlMinutes: number) {}
+
+  async get(userId: string): Promise<UserState | null> {
+    const doc = await ConversationState.findOne({
+      telegramId: userId,
+      // The TTL monitor only runs every minute, so filter expired ones here too
+      expiresAt: { $gt: new Date() },
+    }).lean();
+
+    if (!doc) return null;
+    return { ...(doc.data || {}), state: doc.state };
+  }
+
+  async set(userId: string, userState: UserState): Promise<void> {
+    const { state, ...data } = userState;
+    const expiresAt = new Date(Date.now() + this.ttlMinutes * 60 * 1000);
+
+    await ConversationState.findOneAndUpdate(
+      { telegramId: userId },
+      { state, data, expiresAt },
+      { upsert: true }
+    );
+  }
+
+  async clear(userId: string): Promise<void> {
+    await ConversationState.deleteOne({ telegramId: userId });
+  }
+}
+
+const ttlMinutes = parseInt(process.env.CONVERSATION_STATE_TTL_MINUTES || "60");
+
+export const stateStore: StateStore = new MongoStateStore(
+  Number.isFinite(ttlMinutes) && ttlMinutes > 0 ? ttlMinutes : 60
+);
@@ -0,0 +1,192 @@
+import {
+  detectFormat,
+  exportAccounts,
+  parseAccountFile,
+  parseCsv,
+  REDACTED,
+} from "../bot/accountFile";
+
+const noModules = { read: false, hear: false, write: false, speak: false };
+
+describe("parseCsv", () => {
+  it("handles quoted delimiters, escaped quotes and CRLF line endings", () => {
+    const text = 'email,name\r\n"a@x.com","Sharma, ""Priya"""\r\nb@x.com,Lee\r\n';
+
+    expect(parseCsv(text)).toEqual([
+      ["email", "name"],
+      ["a@x.com", 'Sharma, "Priya"'],
+      ["b@x.com", "Lee"],
+    ]);
+  });
+
+  it("keeps line breaks inside quoted fields", () => {
+    expect(parseCsv('a;"line 1\nline 2"', ";")).toEqual([["a", "line 1\nline 2"]]);
+  });
+});
+
+describe("detectFormat", () => {
+  it("goes by the file name first, then the mime type", () => {
+    expect(detectFormat("Accounts.CSV")).toBe("csv");
+    expect(detectFormat("accounts.json", "text/plain")).toBe("json");
+    expect(detectFormat(undefined, "application/json")).toBe("json");
+    expect(detectFormat("accounts.xlsx")).toBeNull();
+  });
+});
+
+describe("parseAccountFile", () => {
+  it("reads CSV rows with modules, status and names", () => {
+    const parsed = parseAccountFile(
+      "Email,Password,Modules,Status,First Name,last_name\n" +
+        "priya@example.com,welcome123,read;write,inactive,Priya,Sharma\n" +
+        "\n" +
+        "lee@example.com,secret,,,,\n",
+      "csv"
+    );
+
+    expect(parsed).toEqual({
+      rows: [
+        {
+          row: 2,
+          email: "priya@example.com",
+          password: "welcome123",
+          modules: { ...noModules, read: true, write: true },
+          status: false,
+          firstName: "Priya",
+          lastName: "Sharma",
+        },
+        {
+          row: 4,
+          email: "lee@example.com",
+          password: "secret",
+          modules: noModules,
+          status: true,
+          firstName: undefined,
+          lastName: undefined,
+        },
+      ],
+      problems: [],
+    });
+  });
+
+  it("detects semicolon separated files and per-module columns", () => {
+    const parsed = parseAccountFile(
+      "\uFEFFemail;password;read;hear;write;speak\npriya@example.com;pw;yes;no;x;\n",
+      "csv"
+    );
+
+    expect("rows" in parsed && parsed.rows[0].modules).toEqual({
+      ...noModules,
+      read: true,
+      write: true,
+    });
+  });
+
+  it("reports invalid rows and keeps the valid ones", () => {
+    const parsed = parseAccountFile(
+      "email,password,modules,status\n" +
+        "not-an-email,pw,,\n" +
+        `a@example.com,${REDACTED},,\n` +
+        "b@example.com,pw,read;fly,\n" +
+        "c@example.com,pw,,maybe\n" +
+        "d@example.com,,,\n" +
+        "e@example.com,pw,speak,\n" +
+        "E@example.com,pw2,,\n",
+      "csv"
+    );
+    if ("error" in parsed) throw new Error(parsed.error);
+
+    expect(parsed.rows.map((row) => row.email)).toEqual(["e@example.com"]);
+    expect(parsed.problems.map(({ row, message }) => [row, message])).toEqual([
+      [2, "Invalid email format"],
+      [3, "Password is redacted, fill in the real one"],
+      [4, 'Unknown module "fly" (use read, hear, write, speak)'],
+      [5, "Status must be active or inactive"],
+      [6, "Password is missing"],
+      [8, "Duplicate of row 7"],
+    ]);
+  });
+
+  it("reads JSON lists and exports", () => {
+    const accounts = [
+      { email: "a@example.com", password: "pw", modules: ["hear"], active: false },
+      { email: "b@example.com", password: "pw", modules: { speak: true, read: false } },
+      "nonsense",
+    ];
+
+    for (const content of [JSON.stringify(accounts), JSON.stringify({ accounts })]) {
+      const parsed = parseAccountFile(content, "json");
+      if ("error" in parsed) throw new Error(parsed.error);
+
+      expect(parsed.rows.map(({ row, modules, status }) => [row, modules, status])).toEqual([
+        [1, { ...noModules, hear: true }, false],
+        [2, { ...noModules, speak: true }, true],
+      ]);
+      expect(parsed.problems).toEqual([{ row: 3, ok: false, message: "Not an account object" }]);
+    }
+  });
+
+  it("rejects files it can't read at all", () => {
+    expect(parseAccountFile("{ nope", "json")).toEqual({
+      error: expect.stringMatching(/^Not valid JSON/),
+    });
+    expect(parseAccountFile('{"users": []}', "json")).toEqual({
+      error: expect.stringMatching(/must be a list of accounts/),
+    });
+    expect(parseAccountFile("mail,pass\na@example.com,pw\n", "csv")).toEqual({
+      error: expect.stringMatching(/email and password columns/),
+    });
+    expect(parseAccountFile("email,password\n", "csv")).toEqual({
+      error: "The file has no accounts in it",
+    });
+  });
+});
+
+describe("exportAccounts", () => {
+  const accounts = [
+    {
+      email: "priya@example.com",
+      password: "welcome123",
+      modules: { read: true, hear: false, write: true, speak: false },
+      status: true,
+      firstName: "Priya",
+      lastName: "Sharma, Jr.",
+      hasCompleteProfile: true,
+    },
+    {
+      email: "lee@example.com",
+      password: "secret",
+      modules: noModules,
+      status: false,
+      firstName: "=HYPERLINK(\"x\")",
+      hasCompleteProfile: false,
+    },
+  ] as any[];
+
+  it("writes CSV without passwords and with formulas neutralised", () => {
+    const csv = exportAccounts(accounts, "csv");
+
+    expect(csv).not.toContain("welcome123");
+    expect(csv).not.toContain("secret");
+    expect(csv.split("\n")).toEqual([
+      "email,password,modules,status,firstName,lastName,profileComplete",
+      `priya@example.com,${REDACTED},read;write,active,Priya,"Sharma, Jr.",true`,
+      `lee@example.com,${REDACTED},,inactive,"'=HYPERLINK(""x"")",,false`,
+      "",
+    ]);
+  });
+
+  it("writes JSON that reads back once passwords are filled in", () => {
+    const json = exportAccounts(accounts, "json", new Date("2026-01-02T03:04:05Z"));
+    const data = JSON.parse(json);
+
+    expect(data.exportedAt).toBe("2026-01-02T03:04:05.000Z");
+    expect(data.accounts.map((a: any) => a.password)).toEqual([REDACTED, REDACTED]);
+
+    const parsed = parseAccountFile(json.split(REDACTED).join("filled-in"), "json");
+    if ("error" in parsed) throw new Error(parsed.error);
+    expect(parsed.rows.map(({ email, modules, status }) => [email, modules, status])).toEqual([
+      ["priya@example.com", { ...noModules, read: true, write: true }, true],
+      ["lee@example.com", noModules, false],
+    ]);
+  });
+});
@@ -0,0 +1,43 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import Account, { MAX_PASSWORD_LENGTH, validatePassword } from "../models/accountSchema";
+import { encryptSecret } from "../security/encryption";
+
+process.env.ACCOUNT_ENCRYPTION_KEY = crypto.randomBytes(32).toString("base64");
+
+const account = (password: string) =>
+  new Account({
+    user: new mongoose.Types.ObjectId(),
+    workspace: new mongoose.Types.ObjectId(),
+    email: "priya@example.com",
+    password,
+  });
+
+describe("validatePassword", () => {
+  it("accepts ordinary passwords", () => {
+    expect(validatePassword("welcome123")).toBeNull();
+    expect(validatePassword("pass word:with;symbols")).toBeNull();
+  });
+
+  it("rejects empty, padded and overly long passwords", () => {
+    expect(validatePassword("")).toBe("Password cannot be empty");
+    expect(validatePassword("   ")).toBe("Password cannot be empty");
+    expect(validatePassword(" welcome123")).toBe("Password cannot start or end with a space");
+    expect(validatePassword("a".repeat(MAX_PASSWORD_LENGTH + 1))).toBe(
+      `Password must be at most ${MAX_PASSWORD_LENGTH} characters`
+    );
+  });
+});
+
+describe("Account password validation", () => {
+  it("reports why a new plaintext password was refused", () => {
+    const error = account("welcome123 ").validateSync();
+    expect(error?.errors.password.message).toBe("Password cannot start or end with a space");
+  });
+
+  it("doesn't check passwords that are already encrypted", () => {
+    const encrypted = encryptSecret("a".repeat(MAX_PASSWORD_LENGTH));
+    expect(encrypted.length).toBeGreaterThan(MAX_PASSWORD_LENGTH);
+    expect(account(encrypted).validateSync()).toBeUndefined();
+  });
+});
@@ -0,0 +1,63 @@
+import crypto from "crypto";
+import { bot } from "../bot/bot";
+import { accountsFlow } from "../bot/flows/accounts";
+import { setUserState, STATES } from "../bot/states";
+import Account, { MAX_PASSWORD_LENGTH } from "../models/accountSchema";
+
+jest.mock("../bot/bot", () => ({
+  bot: { sendMessage: jest.fn().mockResolvedValue({}) },
+}));
+
+jest.mock("../bot/states", () => ({
+  ...jest.requireActual("../bot/states"),
+  getUserState: jest.fn().mockResolvedValue({}),
+  setUserState: jest.fn().mockResolvedValue(undefined),
+}));
+
+process.env.ACCOUNT_ENCRYPTION_KEY = crypto.randomBytes(32).toString("base64");
+
+const sendMessage = bot.sendMessage as jest.Mock;
+const saveState = setUserState as jest.Mock;
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  sendMessage.mockClear();
+  saveState.mockClear();
+});
+
+describe("adding an account", () => {
+  const addAccount = (text: string) =>
+    accountsFlow.messages!.find((route) => route.state === STATES.ADDING_ACCOUNT)!.handler({
+      chatId: 1,
+      userId: "1001",
+      text,
+    });
+
+  it("checks the password before encrypting it", async () => {
+    const findOne = jest.spyOn(Account, "findOne");
+
+    await addAccount(`priya@example.com:${"a".repeat(MAX_PASSWORD_LENGTH + 1)}`);
+
+    expect(findOne).not.toHaveBeenCalled();
+    expect(saveState).not.toHaveBeenCalled();
+    expect(sendMessage).toHaveBeenCalledWith(
+      1,
+      `❌ Password must be at most ${MAX_PASSWORD_LENGTH} characters. Please send email:password again.`
+    );
+  });
+
+  it("keeps a valid password only encrypted", async () => {
+    jest.spyOn(Account, "findOne").mockReturnValue({ collation: async () => null } as any);
+
+    await addAccount("priya@example.com:welcome123");
+
+    expect(saveState).toHaveBeenCalledWith(
+      "1001",
+      STATES.SELECTING_MODULES,
+      expect.objectContaining({
+        email: "priya@example.com",
+        password: expect.stringMatching(/^enc:v1:/),
+      })
+    );
+  });
+});
@@ -0,0 +1,150 @@
+import express from "express";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import AdminAudit from "../models/adminAuditSchema";
+import {
+  adminRateLimit,
+  auditAdminActions,
+  parseAdminTokens,
+  requireAdminRole,
+  requireAdminToken,
+} from "../security/adminAuth";
+
+const OPS_TOKEN = "ops-token-0123456789abcdef";
+const CI_TOKEN = "ci-token-0123456789abcdef00";
+
+let clock = 0;
+let server: Server | undefined;
+let baseUrl: string;
+
+const auditCreate = jest.spyOn(AdminAudit, "create").mockResolvedValue({} as any);
+
+const startApp = (tokens = `ops:${OPS_TOKEN},ci:${CI_TOKEN}:operator`) => {
+  const app = express();
+  app.use(
+    "/admin",
+    auditAdminActions(),
+    adminRateLimit({ limit: 3, windowMs: 60000, now: () => clock }),
+    requireAdminToken(parseAdminTokens(tokens))
+  );
+  app.post("/admin/scheduler/trigger/:scheduleId", requireAdminRole("operator"), (req, res) => {
+    res.json({ success: true, scheduleId: req.params.scheduleId });
+  });
+  app.post("/admin/scheduler/stop", requireAdminRole("owner"), (req, res) => {
+    res.json({ success: true });
+  });
+
+  return new Promise<void>((resolve) => {
+    server = app.listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server!.address() as AddressInfo).port}`;
+      resolve();
+    });
+  });
+};
+
+const trigger = (token?: string) =>
+  fetch(`${baseUrl}/admin/scheduler/trigger/abc`, {
+    method: "POST",
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+  });
+
+// The audit entry is written once the response has finished
+const lastAudit = async () => {
+  await new Promise((resolve) => setImmediate(resolve));
+  return auditCreate.mock.calls[auditCreate.mock.calls.length - 1][0] as any;
+};
+
+afterEach(async () => {
+  auditCreate.mockClear();
+  clock = 0;
+  if (server) await new Promise((resolve) => server!.close(resolve));
+  server = undefined;
+});
+
+describe("parseAdminTokens", () => {
+  it("names tokens, defaults them to owner and rejects bad ones", () => {
+    expect(
+      parseAdminTokens(`ops:${OPS_TOKEN}, ${CI_TOKEN}, ci:${CI_TOKEN}:viewer`).map(
+        ({ name, role }) => [name, role]
+      )
+    ).toEqual([
+      ["ops", "owner"],
+      ["admin-2", "owner"],
+      ["ci", "viewer"],
+    ]);
+    expect(parseAdminTokens("")).toEqual([]);
+    expect(() => parseAdminTokens("ops:short")).toThrow(/at least 24 characters/);
+    expect(() => parseAdminTokens(`ops:${OPS_TOKEN}:root`)).toThrow(/unknown role "root"/);
+  });
+});
+
+describe("admin routes", () => {
+  it("lets a valid token through and audits who did it", async () => {
+    await startApp();
+
+    const res = await trigger(CI_TOKEN);
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ success: true, scheduleId: "abc" });
+    expect(await lastAudit()).toMatchObject({
+      action: "POST /admin/scheduler/trigger/abc",
+      actor: "ci",
+      statusCode: 200,
+      success: true,
+    });
+  });
+
+  it("answers 401 without a token and 403 with a wrong one", async () => {
+    await startApp();
+
+    const missing = await trigger();
+    expect(missing.status).toBe(401);
+    expect(missing.headers.get("www-authenticate")).toContain("Bearer");
+    expect(await lastAudit()).toMatchObject({
+      actor: null,
+      statusCode: 401,
+      success: false,
+      rejection: "Missing bearer token",
+    });
+
+    const wrong = await trigger("not-a-valid-token-at-all-000");
+    expect(wrong.status).toBe(403);
+    expect((await wrong.json()).error).toBe("Invalid admin token");
+  });
+
+  it("checks the token's role per route", async () => {
+    await startApp();
+
+    const stop = (token: string) =>
+      fetch(`${baseUrl}/admin/scheduler/stop`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+    const denied = await stop(CI_TOKEN);
+    expect(denied.status).toBe(403);
+    expect((await denied.json()).error).toBe("This needs a token with the owner role");
+    expect((await stop(OPS_TOKEN)).status).toBe(200);
+  });
+
+  it("refuses everything when no token is configured", async () => {
+    await startApp("");
+
+    expect((await trigger(OPS_TOKEN)).status).toBe(403);
+  });
+
+  it("rate limits per client before checking the token", async () => {
+    await startApp();
+
+    for (let i = 0; i < 3; i++) {
+      expect((await trigger("wrong")).status).toBe(403);
+    }
+    const limited = await trigger(OPS_TOKEN);
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get("retry-after")).toBe("60");
+    expect(await lastAudit()).toMatchObject({ statusCode: 429, success: false });
+
+    clock = 60000;
+    expect((await trigger(OPS_TOKEN)).status).toBe(200);
+  });
+});
@@ -0,0 +1,103 @@
+import crypto from "crypto";
+
+// Keys come from the env of each test only, not from a local .env
+jest.mock("dotenv", () => ({ config: jest.fn() }));
+
+const OLD_KEY = crypto.randomBytes(32).toString("base64");
+const NEW_KEY = crypto.randomBytes(32).toString("hex");
+
+// The master keys are read from the environment once, then cached
+const encryptionWith = (env: Record<string, string>) => {
+  const originalEnv = process.env;
+  process.env = { ...env };
+  try {
+    let encryption!: typeof import("../security/encryption");
+    jest.isolateModules(() => {
+      encryption = require("../security/encryption");
+    });
+    encryption.assertEncryptionKey();
+    return encryption;
+  } finally {
+    process.env = originalEnv;
+  }
+};
+
+// Flips one bit of a base64 part of the stored value
+const tamper = (value: string, part: number) => {
+  const parts = value.split(":");
+  const raw = Buffer.from(parts[part], "base64");
+  raw[raw.length - 1] ^= 1;
+  parts[part] = raw.toString("base64");
+  return parts.join(":");
+};
+
+describe("encryptSecret", () => {
+  const { decryptSecret, encryptSecret, isEncryptedSecret } = encryptionWith({
+    ACCOUNT_ENCRYPTION_KEY: OLD_KEY,
+  });
+
+  it("round-trips secrets with a fresh data key each time", () => {
+    const secret = "pässwörd: with ; symbols";
+    const first = encryptSecret(secret);
+    const second = encryptSecret(secret);
+
+    expect(isEncryptedSecret(first)).toBe(true);
+    expect(first).toMatch(/^enc:v1:[0-9a-f]{8}:[^:]+:[^:]+$/);
+    expect(first).not.toContain(secret);
+    expect(first).not.toBe(second);
+    expect(decryptSecret(first)).toBe(secret);
+    expect(decryptSecret(second)).toBe(secret);
+    expect(decryptSecret(encryptSecret(""))).toBe("");
+  });
+
+  it("rejects tampered data keys and payloads", () => {
+    const value = encryptSecret("welcome123");
+
+    expect(() => decryptSecret(tamper(value, 3))).toThrow();
+    expect(() => decryptSecret(tamper(value, 4))).toThrow();
+  });
+
+  it("refuses plaintext", () => {
+    expect(isEncryptedSecret("welcome123")).toBe(false);
+    expect(() => decryptSecret("welcome123")).toThrow("Value is not an encrypted secret");
+  });
+});
+
+describe("key rotation", () => {
+  const before = encryptionWith({ ACCOUNT_ENCRYPTION_KEY: OLD_KEY });
+  const storedBefore = before.encryptSecret("welcome123");
+
+  it("decrypts values of a previous key and marks them for re-encryption", () => {
+    const after = encryptionWith({
+      ACCOUNT_ENCRYPTION_KEY: NEW_KEY,
+      ACCOUNT_ENCRYPTION_PREVIOUS_KEYS: ` ${OLD_KEY} ,`,
+    });
+    const storedAfter = after.encryptSecret("welcome123");
+
+    expect(after.decryptSecret(storedBefore)).toBe("welcome123");
+    expect(after.needsReencryption(storedBefore)).toBe(true);
+    expect(after.needsReencryption(storedAfter)).toBe(false);
+    expect(after.needsReencryption("welcome123")).toBe(true);
+  });
+
+  it("names the missing key when a previous one was dropped", () => {
+    const after = encryptionWith({ ACCOUNT_ENCRYPTION_KEY: NEW_KEY });
+    const keyId = storedBefore.split(":")[2];
+
+    expect(() => after.decryptSecret(storedBefore)).toThrow(
+      `No master key available for key id ${keyId}`
+    );
+  });
+});
+
+describe("assertEncryptionKey", () => {
+  it("fails on missing and malformed keys", () => {
+    expect(() => encryptionWith({})).toThrow("ACCOUNT_ENCRYPTION_KEY is not set");
+    expect(() => encryptionWith({ ACCOUNT_ENCRYPTION_KEY: "c2hvcnQ=" })).toThrow(
+      "ACCOUNT_ENCRYPTION_KEY must be a 32-byte key encoded as base64 or hex (got 5 bytes)"
+    );
+    expect(() =>
+      encryptionWith({ ACCOUNT_ENCRYPTION_KEY: OLD_KEY, ACCOUNT_ENCRYPTION_PREVIOUS_KEYS: "abc" })
+    ).toThrow("ACCOUNT_ENCRYPTION_PREVIOUS_KEYS entry must be a 32-byte key");
+  });
+});
@@ -0,0 +1,144 @@
+import fs from "fs";
+import path from "path";
+import {
+  ExamfinderSchemaError,
+  parseExam,
+  parseExamfinderResponse,
+  parseExams,
+} from "../api/examfinder";
+
+const loadJson = (name: string) =>
+  JSON.parse(fs.readFileSync(path.resolve(__dirname, "../..", name), "utf8"));
+
+describe("parseExamfinderResponse", () => {
+  const response = loadJson("goethe-api-2025-09-18.json");
+  const exams = parseExamfinderResponse(response);
+
+  it("parses every exam of the saved response", () => {
+    expect(exams).toHaveLength(10);
+    expect(exams.filter((exam) => exam.oid)).toHaveLength(6);
+  });
+
+  it("normalises a bookable exam", () => {
+    const exam = exams.find((e) => e.oid?.startsWith("fc720f15"))!;
+
+    expect(exam).toMatchObject({
+      eventName: "Goethe-Zertifikat B2",
+      category: "E007",
+      level: "B2",
+      locationName: "Kolkata",
+      bookFrom: new Date("2025-09-18T07:30:00.000Z"),
+      bookTo: new Date("2025-10-15T18:25:00.000Z"),
+      publishTo: new Date("2025-10-16T04:30:00.000Z"),
+      isSingleBooking: true,
+      isModular: true,
+      bookable: true,
+      availabilityText: "Book",
+      availableModules: ["listening", "speaking", "reading", "writing"],
+    });
+    expect(exam.startDate).toEqual(new Date("2025-10-30T00:00:00.000Z"));
+    expect(exam.modules[0]).toEqual({
+      kind: "listening",
+      type: "0011",
+      ceId: expect.any(String),
+      date: new Date("2025-10-30T00:00:00.000Z"),
+      startTime: "13:00",
+      endTime: "13:40",
+    });
+  });
+
+  it("keeps exams that are not open for booking yet", () => {
+    const upcoming = exams.find((e) => e.locationName === "Chennai")!;
+
+    expect(upcoming).toMatchObject({
+      oid: null,
+      offerKey: null,
+      // 09:00 local in Chennai, the offset comes from bookTo/bookToStamp
+      bookFrom: new Date("2025-10-07T03:30:00.000Z"),
+      bookable: false,
+      availabilityText: "Bookable from 07.10.2025",
+      availableModules: [],
+    });
+    expect(upcoming.modules).toHaveLength(4);
+  });
+
+  it("raises the API's own failure", () => {
+    expect(() =>
+      parseExamfinderResponse({ SUCCESS: false, APIREQUESTERROR: "Timeout" })
+    ).toThrow('examfinder request failed: "Timeout"');
+  });
+});
+
+describe("parseExams", () => {
+  const [exam] = parseExams(loadJson("goethe.json"));
+
+  it("reads a bare list of exams", () => {
+    expect(exam).toMatchObject({
+      oid: "2faab28c6a9436d1f1ebaf00ea245afec7cc65c974a5444ee32fe5b202cd2b91",
+      locationName: "Mumbai",
+      locationId: "F 05001304",
+      moduleId: "SM05004119",
+      offerKey: "O 10000356SM05004119      000000002025020          000",
+      instituteId: "O 10000356",
+      price: "INR 21,200.00",
+      startDate: new Date("2025-10-15T00:00:00.000Z"),
+      endDate: new Date("2025-10-15T00:00:00.000Z"),
+    });
+  });
+
+  it("leaves unscheduled modules without a date or time", () => {
+    expect(exam.modules[3]).toEqual({
+      kind: "speaking",
+      type: "0014",
+      ceId: "CE05005354",
+      date: null,
+      startTime: null,
+      endTime: null,
+    });
+  });
+});
+
+describe("schema drift", () => {
+  const [raw] = loadJson("goethe.json");
+
+  const driftError = (changes: Record<string, unknown>) => {
+    try {
+      parseExams([{ ...raw, ...changes }]);
+    } catch (error) {
+      return error as ExamfinderSchemaError;
+    }
+    throw new Error("expected the exam to be rejected");
+  };
+
+  it("names a missing field", () => {
+    const error = driftError({ bookToStamp: undefined });
+
+    expect(error).toBeInstanceOf(ExamfinderSchemaError);
+    expect(error.path).toBe("DATA[0].bookToStamp");
+    expect(error.message).toBe(
+      "examfinder response changed at DATA[0].bookToStamp: expected a string, got nothing"
+    );
+  });
+
+  it("rejects retyped and reformatted values", () => {
+    expect(driftError({ isSingleBooking: "yes" }).path).toBe("DATA[0].isSingleBooking");
+    expect(driftError({ startDateForAccessibility: null, startDate: "2025-10-15" }).message).toBe(
+      'examfinder response changed at DATA[0].startDate: expected a dd.MM.yyyy date, got "2025-10-15"'
+    );
+    expect(driftError({ publishToStamp: "tomorrow" }).expected).toBe("an ISO timestamp");
+  });
+
+  it("points into nested modules", () => {
+    const modules = [...raw.modules];
+    modules[1] = { ...modules[1], startTime: 1045 };
+
+    expect(driftError({ modules }).path).toBe("DATA[0].modules[1].startTime");
+  });
+
+  it("rejects a response without DATA", () => {
+    expect(() => parseExamfinderResponse({ SUCCESS: true, ITEMS: [] })).toThrow(
+      "examfinder response changed at DATA: expected an array, got nothing"
+    );
+    expect(() => parseExam("exam")).toThrow(ExamfinderSchemaError);
+  });
+});
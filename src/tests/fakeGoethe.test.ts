@@ -0,0 +1,101 @@
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { createFakeGoetheApp, FakeGoetheOptions } from "../dev/fakeGoethe";
+import { Exam } from "../api/examfinder";
+
+let server: Server | undefined;
+let baseUrl: string;
+
+// The Goethe URLs are read from the config once, at import
+let goethe: typeof import("../config/goethe");
+let ExamApiMonitor: typeof import("../api/exam-api-finder").ExamApiMonitor;
+
+const startFake = (options: FakeGoetheOptions) =>
+  new Promise<void>((resolve) => {
+    server = createFakeGoetheApp(options).listen(0, () => {
+      baseUrl = `http://127.0.0.1:${(server!.address() as AddressInfo).port}`;
+
+      const originalEnv = process.env;
+      process.env = { ...originalEnv, GOETHE_BASE_URL: baseUrl };
+      try {
+        jest.isolateModules(() => {
+          goethe = require("../config/goethe");
+          ({ ExamApiMonitor } = require("../api/exam-api-finder"));
+        });
+      } finally {
+        process.env = originalEnv;
+      }
+      resolve();
+    });
+  });
+
+const fakeState = async () => (await fetch(`${baseUrl}/__fake/state`)).json();
+
+const page = async (url: string) => {
+  const response = await fetch(url);
+  return { status: response.status, html: await response.text() };
+};
+
+afterEach(async () => {
+  if (!server) return;
+  // The monitor's keep-alive agent would hold the server open
+  server.closeAllConnections();
+  await new Promise((resolve) => server!.close(resolve));
+  server = undefined;
+});
+
+describe("the fake Goethe server", () => {
+  it("releases oids to the examfinder poll after a few calls", async () => {
+    await startFake({ releaseAfterPolls: 2 });
+    const monitor = new ExamApiMonitor();
+    expect(monitor.getApiUrl()).toBe(goethe.examfinderUrl());
+    expect(monitor.getApiUrl()!.startsWith(baseUrl)).toBe(true);
+
+    const found = await new Promise<{ oid: string; exam: Exam }>((resolve, reject) => {
+      monitor.startPolling({
+        interval: 10,
+        maxDurationMs: 5000,
+        filter: (exam) => exam.locationName === "Kolkata",
+        onOidFound: async (oid, exam) => resolve({ oid, exam }),
+        onTimeout: () => reject(new Error("no oid before the timeout")),
+      });
+    });
+    await monitor.destroy();
+
+    expect(found.oid.startsWith("fc720f15")).toBe(true);
+    expect(found.exam).toMatchObject({ level: "B2", bookable: true });
+    expect((await fakeState()).polls).toBe(3);
+  });
+
+  it("plays the checkout script for an oid", async () => {
+    await startFake({
+      checkoutScript: ["error", "conflict", "options"],
+      fullyBookedModules: ["speaking"],
+    });
+    const exams = (await (await fetch(goethe.examfinderUrl())).json()).DATA;
+    const oid: string = exams.find((exam: any) => exam.oid).oid;
+
+    const error = await page(goethe.checkoutUrl(oid));
+    expect(error.html).toContain("cs-layer__text--error");
+    expect(error.html).not.toContain("cs-checkbox__input");
+
+    // Another booking session is open, discarding it leads to the options
+    const conflict = await page(goethe.checkoutUrl(oid));
+    expect(conflict.html).toContain('id="id27"');
+    expect(conflict.html).toContain("cs-checkbox__input");
+    const discard = conflict.html.match(/location\.href='([^']+)'/)![1];
+    expect(discard).toContain("discarded=1");
+    const discarded = await page(`${baseUrl}${discard}`);
+    expect(discarded.html).not.toContain('id="id27"');
+
+    const options = await page(goethe.checkoutUrl(oid));
+    expect(options.html).not.toContain('id="id27"');
+    expect(options.html).toContain('id="reading" name="reading" checked');
+    expect(options.html).toContain('id="speaking" name="speaking" disabled');
+
+    // The last step repeats, unknown oids are not found
+    expect((await page(goethe.checkoutUrl(oid))).html).toContain('id="reading"');
+    expect((await page(goethe.checkoutUrl("nope"))).status).toBe(404);
+    expect((await fakeState()).checkoutVisits).toEqual({ [oid]: 4 });
+  });
+});
@@ -0,0 +1,88 @@
+import checkAppointments from "../fillers/checkAppointment";
+import { selectAvailableModules } from "../fillers/selectAllModules";
+import { createHtmlPage, loadFixture } from "./helpers/htmlPage";
+
+const ALL_MODULES = { read: true, hear: true, write: true, speak: true };
+
+const checkedModules = (document: Document) =>
+  Array.from(document.querySelectorAll<HTMLInputElement>("input.cs-checkbox__input"))
+    .filter((checkbox) => checkbox.checked)
+    .map((checkbox) => checkbox.id);
+
+describe("checkAppointments", () => {
+  it("returns bookable slots under their date header", async () => {
+    const { page } = createHtmlPage(loadFixture("finder.html"));
+
+    const slots = await checkAppointments(page);
+
+    expect(slots).toEqual([
+      {
+        date: "16.10.2025 - 18.10.2025",
+        location: "Bangalore",
+        price: "INR 24,780.00",
+        btnId: "btn-blr-1",
+      },
+      {
+        date: "06.11.2025 - 08.11.2025",
+        location: "New Delhi",
+        price: "INR 26,200.00",
+        btnId: "btn-del-1",
+      },
+    ]);
+  });
+
+  it("returns nothing when the finder table is missing", async () => {
+    const { page } = createHtmlPage("<html><body><p>Maintenance</p></body></html>");
+
+    await expect(checkAppointments(page)).resolves.toEqual([]);
+  });
+});
+
+describe("selectAvailableModules", () => {
+  it("selects and deselects modules to match the account", async () => {
+    const { page, document } = createHtmlPage(loadFixture("options.html"));
+
+    const result = await selectAvailableModules(page, {
+      read: true,
+      hear: false,
+      write: true,
+      speak: false,
+    });
+
+    expect(result.status).toBe(true);
+    expect(checkedModules(document)).toEqual(["reading", "writing"]);
+  });
+
+  it("reports required modules that are fully booked", async () => {
+    const { page, document } = createHtmlPage(loadFixture("options.html"));
+
+    const result = await selectAvailableModules(page, ALL_MODULES);
+
+    expect(result.status).toBe(false);
+    expect(result.message).toContain("fully booked: speaking");
+    expect(checkedModules(document)).toEqual(["reading", "listening", "writing"]);
+  });
+
+  it("leaves a page that already matches untouched", async () => {
+    const { page, document } = createHtmlPage(loadFixture("options.html"));
+
+    const result = await selectAvailableModules(page, {
+      read: false,
+      hear: true,
+      write: false,
+      speak: false,
+    });
+
+    expect(result.status).toBe(true);
+    expect(checkedModules(document)).toEqual(["listening"]);
+  });
+
+  it("fails when the page has no module checkboxes", async () => {
+    const { page } = createHtmlPage(loadFixture("finder.html"));
+
+    const result = await selectAvailableModules(page, ALL_MODULES);
+
+    expect(result.status).toBe(false);
+    expect(result.message).toContain("Error selecting modules");
+  });
+});
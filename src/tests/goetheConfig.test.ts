@@ -0,0 +1,130 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { loadGoetheConfig } from "../config/goethe";
+
+const writeConfigFile = (content: unknown) => {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "goethe-")), "goethe.json");
+  fs.writeFileSync(file, typeof content === "string" ? content : JSON.stringify(content));
+  return file;
+};
+
+// URL helpers read the config once, at import
+const helpersWith = (env: Record<string, string>) => {
+  const originalEnv = process.env;
+  process.env = { ...env };
+  try {
+    let helpers!: typeof import("../config/goethe");
+    jest.isolateModules(() => {
+      helpers = require("../config/goethe");
+    });
+    return helpers;
+  } finally {
+    process.env = originalEnv;
+  }
+};
+
+describe("loadGoetheConfig", () => {
+  it("defaults to the Indian goethe.de site and its examfinder country", () => {
+    expect(loadGoetheConfig({})).toEqual({
+      baseUrl: "https://www.goethe.de",
+      language: "en",
+      siteCountry: "in",
+      countryIsoCode: "pk",
+      institute: "O 10000366",
+      checkoutPath: "/coe",
+      finderPages: { B1: "gzb1.cfm", B2: "gzb2.cfm", C1: "gzc1.cfm", C2: "gzc2.cfm" },
+      defaultLevel: "B2",
+    });
+  });
+
+  it("layers the config file under GOETHE_* variables", () => {
+    const file = writeConfigFile({
+      baseUrl: "https://www.goethe.de/",
+      countryIsoCode: "de",
+      finderPages: { A1: "gzsd1.cfm" },
+    });
+
+    const config = loadGoetheConfig({
+      GOETHE_CONFIG_FILE: file,
+      GOETHE_BASE_URL: "http://localhost:4010/",
+      GOETHE_FINDER_PAGES: "b2=b2-finder.cfm",
+      GOETHE_COUNTRY: "at",
+    });
+
+    expect(config).toMatchObject({
+      baseUrl: "http://localhost:4010",
+      siteCountry: "in",
+      countryIsoCode: "at",
+      language: "en",
+      finderPages: {
+        A1: "gzsd1.cfm",
+        B1: "gzb1.cfm",
+        B2: "b2-finder.cfm",
+      },
+    });
+  });
+
+  it("lists every invalid setting", () => {
+    const file = writeConfigFile({ language: "english", checkout: "/coe" });
+
+    expect(() =>
+      loadGoetheConfig({
+        GOETHE_CONFIG_FILE: file,
+        GOETHE_BASE_URL: "goethe.de",
+        GOETHE_FINDER_PAGES: "B3=gzb3.cfm,B1=../admin",
+        GOETHE_DEFAULT_LEVEL: "A1",
+      })
+    ).toThrow(
+      [
+        "Invalid Goethe config:",
+        '- unknown setting "checkout"',
+        '- baseUrl must be an http(s) URL (got "goethe.de")',
+        '- language must be a two-letter language code (got "english")',
+        "- finderPages.B1 must be a page name like gzb2.cfm",
+        '- finderPages has unknown level "B3"',
+        "- finderPages has no page for the default level A1",
+      ].join("\n")
+    );
+  });
+
+  it("reports a config file that is not JSON", () => {
+    const file = writeConfigFile("baseUrl = https://www.goethe.de");
+
+    expect(() => loadGoetheConfig({ GOETHE_CONFIG_FILE: file })).toThrow(
+      `Could not read Goethe config file ${file}`
+    );
+  });
+});
+
+describe("Goethe URLs", () => {
+  const { checkoutUrl, examfinderUrl, finderPageUrl, goetheHost } = helpersWith({
+    GOETHE_BASE_URL: "http://localhost:4010",
+    GOETHE_SITE_COUNTRY: "at",
+    GOETHE_COUNTRY: "pk",
+    GOETHE_LANGUAGE: "de",
+  });
+
+  it("builds the checkout URL", () => {
+    expect(checkoutUrl("abc123")).toBe("http://localhost:4010/coe?lang=de&oid=abc123");
+  });
+
+  it("opens the finder page of the target level", () => {
+    expect(finderPageUrl("C1")).toBe("http://localhost:4010/ins/at/de/spr/prf/gzc1.cfm");
+    expect(finderPageUrl("A1")).toBe("http://localhost:4010/ins/at/de/spr/prf/gzb2.cfm");
+    expect(finderPageUrl()).toBe("http://localhost:4010/ins/at/de/spr/prf/gzb2.cfm");
+  });
+
+  it("builds the examfinder URL for the configured country", () => {
+    const url = new URL(examfinderUrl("E007"));
+
+    expect(url.pathname).toBe("/rest/examfinder/exams/institute/O%2010000366");
+    expect(url.searchParams.get("category")).toBe("E007");
+    expect(url.searchParams.get("countryIsoCode")).toBe("pk");
+    expect(url.searchParams.get("langIsoCodes")).toBe("de");
+  });
+
+  it("exposes the host for DNS pre-resolution", () => {
+    expect(goetheHost()).toBe("localhost");
+  });
+});
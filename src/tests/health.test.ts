@@ -0,0 +1,78 @@
+import { createHealthChecks, HealthSources } from "../utils/health";
+
+const healthySources = (): HealthSources => ({
+  mongoState: () => 1,
+  telegram: { isPolling: () => true },
+  scheduler: { getStatus: () => ({ isRunning: true, activeSessions: 0 }) },
+  browserPool: {
+    getStatus: () => ({ totalBrowsers: 0, readyBrowsers: 0, warmingBrowsers: 0 }),
+  },
+  // Any executable will do
+  chromiumPath: process.execPath,
+});
+
+describe("createHealthChecks", () => {
+  it("is ready when every dependency is up", async () => {
+    const { ready, checks } = await createHealthChecks(healthySources()).report();
+
+    expect(ready).toBe(true);
+    expect(Object.values(checks).map((check) => check.status)).toEqual([
+      "ok",
+      "ok",
+      "ok",
+      "ok",
+      "ok",
+    ]);
+  });
+
+  it("is not ready while MongoDB connects or the scheduler is stopped", async () => {
+    const { ready, checks } = await createHealthChecks({
+      ...healthySources(),
+      mongoState: () => 2,
+      scheduler: { getStatus: () => ({ isRunning: false, activeSessions: 0 }) },
+    }).report();
+
+    expect(ready).toBe(false);
+    expect(checks.mongodb).toMatchObject({ status: "fail", details: { state: "connecting" } });
+    expect(checks.scheduler.status).toBe("fail");
+  });
+
+  it("fails when Chromium is missing", async () => {
+    const { ready, checks } = await createHealthChecks({
+      ...healthySources(),
+      chromiumPath: "/nonexistent/chromium-browser",
+    }).report();
+
+    expect(ready).toBe(false);
+    expect(checks.chromium.status).toBe("fail");
+  });
+
+  it("warns about recent Telegram polling errors without failing", async () => {
+    let now = new Date("2025-10-01T10:00:00Z");
+    const health = createHealthChecks({ ...healthySources(), now: () => now });
+
+    health.recordTelegramError(new Error("ETELEGRAM: 502 Bad Gateway"));
+    let report = await health.report();
+    expect(report.ready).toBe(true);
+    expect(report.checks.telegram).toMatchObject({
+      status: "warn",
+      details: { lastError: "Error: ETELEGRAM: 502 Bad Gateway" },
+    });
+
+    now = new Date("2025-10-01T10:05:00Z");
+    report = await health.report();
+    expect(report.checks.telegram.status).toBe("ok");
+  });
+
+  it("doesn't let the browser pool block readiness", async () => {
+    const { ready, checks } = await createHealthChecks({
+      ...healthySources(),
+      browserPool: {
+        getStatus: () => ({ totalBrowsers: 0, readyBrowsers: 0, warmingBrowsers: 4 }),
+      },
+    }).report();
+
+    expect(ready).toBe(true);
+    expect(checks.browserPool).toMatchObject({ status: "warn", critical: false });
+  });
+});
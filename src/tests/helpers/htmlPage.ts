@@ -0,0 +1,58 @@
+import fs from "fs";
+import path from "path";
+import { JSDOM } from "jsdom";
+import { Page } from "puppeteer";
+
+/**
+ * Just enough of puppeteer's Page over jsdom to run the fillers against saved
+ * HTML. Page functions see the fixture as the global document, like they
+ * would inside the browser.
+ */
+export const createHtmlPage = (html: string) => {
+  const dom = new JSDOM(html);
+  const { document } = dom.window;
+
+  const inPage = <T>(fn: () => T): T => {
+    const scope = globalThis as any;
+    const previous = { document: scope.document, Event: scope.Event };
+    scope.document = document;
+    scope.Event = dom.window.Event;
+    try {
+      return fn();
+    } finally {
+      scope.document = previous.document;
+      scope.Event = previous.Event;
+    }
+  };
+
+  const query = (selector: string) => {
+    const element = document.querySelector(selector);
+    if (!element) {
+      throw new Error(`No element found for selector: ${selector}`);
+    }
+    return element;
+  };
+
+  const page = {
+    title: async () => document.title,
+    waitForSelector: async (selector: string) => {
+      if (!document.querySelector(selector)) {
+        throw new Error(`Waiting for selector \`${selector}\` failed`);
+      }
+    },
+    click: async (selector: string) => {
+      (query(selector) as HTMLElement).click();
+    },
+    $eval: async (selector: string, fn: Function, ...args: unknown[]) =>
+      inPage(() => fn(query(selector), ...args)),
+    $$eval: async (selector: string, fn: Function, ...args: unknown[]) =>
+      inPage(() => fn(Array.from(document.querySelectorAll(selector)), ...args)),
+    evaluate: async (fn: Function, ...args: unknown[]) =>
+      inPage(() => fn(...args)),
+  };
+
+  return { page: page as unknown as Page, document };
+};
+
+export const loadFixture = (name: string) =>
+  fs.readFileSync(path.join(__dirname, "../fixtures", name), "utf8");
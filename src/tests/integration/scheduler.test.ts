@@ -0,0 +1,519 @@
+import fs from "fs";
+import path from "path";
+import mongoose from "mongoose";
+import { MongoMemoryServer } from "mongodb-memory-server-core";
+import { parseExamfinderResponse } from "../../api/examfinder";
+import { bot } from "../../bot/bot";
+import { browserPool } from "../../browsers/prewarmedBrowserPool";
+import { runAllAccountsWithPrewarmedBrowsers } from "../../cluster/runCluster";
+import Schedule from "../../models/scheduleSchema";
+import ScheduleRun from "../../models/scheduleRunSchema";
+import User from "../../models/userSchema";
+import Workspace from "../../models/workspaceSchema";
+import { ExamScheduler } from "../../schedulers/scheduler";
+
+jest.mock("../../bot/bot", () => ({
+  bot: { sendMessage: jest.fn().mockResolvedValue({}) },
+}));
+
+jest.mock("../../browsers/prewarmedBrowserPool", () => ({
+  browserPool: {
+    acquireLease: jest.fn(),
+    releaseLease: jest.fn().mockResolvedValue(undefined),
+    getLeaseStatus: jest.fn().mockReturnValue({ readyBrowsers: 0 }),
+    closeAllBrowsers: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+jest.mock("../../cluster/runCluster", () => ({
+  runAllAccountsWithPrewarmedBrowsers: jest.fn(),
+}));
+
+// Each session's monitor, so tests can report an OID or a timeout
+const mockMonitors: any[] = [];
+jest.mock("../../api/exam-api-finder", () => ({
+  ExamApiMonitor: jest.fn().mockImplementation(() => {
+    const monitor = {
+      options: null as any,
+      startPolling: jest.fn(async (options: any) => {
+        monitor.options = options;
+      }),
+      stopPolling: jest.fn(),
+      forceStopPolling: jest.fn().mockResolvedValue(undefined),
+      destroy: jest.fn().mockResolvedValue(undefined),
+      getStatus: jest.fn().mockReturnValue({ isPolling: true }),
+    };
+    mockMonitors.push(monitor);
+    return monitor;
+  }),
+}));
+
+const acquireLease = browserPool.acquireLease as jest.Mock;
+const runAll = runAllAccountsWithPrewarmedBrowsers as jest.Mock;
+const sendMessage = bot.sendMessage as jest.Mock;
+
+const NOW = new Date("2025-10-01T04:00:00Z");
+const minutes = (n: number) => n * 60 * 1000;
+const exam = parseExamfinderResponse(
+  JSON.parse(
+    fs.readFileSync(path.resolve(__dirname, "../../../goethe-api-2025-09-18.json"), "utf8")
+  )
+).find((e) => e.oid)!;
+
+const reachedPage = (ok: boolean) => ({
+  reachedPage: ok,
+  browsers: [{ browserNumber: 1, reachedPage: ok, navigationMs: ok ? 900 : undefined }],
+});
+
+describe("ExamScheduler", () => {
+  let mongo: MongoMemoryServer;
+  let scheduler: ExamScheduler;
+  let userId: mongoose.Types.ObjectId;
+  let workspaceId: mongoose.Types.ObjectId;
+
+  // One pass of the 15 second scheduler loop
+  const tick = () => (scheduler as any).checkFutureSchedules() as Promise<void>;
+  const advance = (ms: number) => jest.setSystemTime(Date.now() + ms);
+  const latestMonitor = () => mockMonitors[mockMonitors.length - 1];
+  // For sessions started without awaiting them, like a manual retry
+  const waitForMonitor = async (count: number) => {
+    for (let i = 0; i < 100 && !mockMonitors[count - 1]?.startPolling.mock.calls.length; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  };
+
+  // Holds acquireLease until the test lets the warmup finish
+  const holdWarmups = () => {
+    const finish: (() => void)[] = [];
+    acquireLease.mockImplementation(
+      () => new Promise((resolve) => finish.push(() => resolve([{}, {}, {}])))
+    );
+    return finish;
+  };
+  const waitForWarmups = async (count: number) => {
+    for (let i = 0; i < 100 && acquireLease.mock.calls.length < count; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  };
+
+  const createSchedule = (fields: Record<string, unknown> = {}) =>
+    Schedule.create({
+      name: "B2 Bangalore",
+      runAt: new Date(NOW.getTime() + minutes(5)),
+      createdBy: userId,
+      workspace: workspaceId,
+      ...fields,
+    });
+
+  beforeAll(async () => {
+    mongo = await MongoMemoryServer.create().catch((error) => {
+      throw new Error(
+        `Could not start MongoDB for the integration tests: ${error.message}\n` +
+          "Without access to fastdl.mongodb.org, set MONGOMS_SYSTEM_BINARY to a local mongod " +
+          "or MONGOMS_DOWNLOAD_DIR to a directory with a downloaded binary (see .env.example)."
+      );
+    });
+    await mongoose.connect(mongo.getUri());
+  });
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+    await mongo?.stop();
+  });
+
+  beforeEach(async () => {
+    // Only the clock is fake, the database driver keeps its real timers
+    jest.useFakeTimers({
+      now: NOW,
+      doNotFake: [
+        "nextTick",
+        "setImmediate",
+        "clearImmediate",
+        "setTimeout",
+        "clearTimeout",
+        "setInterval",
+        "clearInterval",
+        "queueMicrotask",
+        "hrtime",
+        "performance",
+      ],
+    });
+    jest.clearAllMocks();
+    mockMonitors.length = 0;
+    acquireLease.mockResolvedValue([{}, {}, {}]);
+
+    await Promise.all([
+      Schedule.deleteMany({}),
+      ScheduleRun.deleteMany({}),
+      User.deleteMany({}),
+      Workspace.deleteMany({}),
+    ]);
+    const user = await User.create({ telegramId: "1001", timezone: "UTC", role: "operator" });
+    userId = user._id;
+    const workspace = await Workspace.create({
+      name: "Team",
+      createdBy: userId,
+      members: [{ user: userId }],
+    });
+    workspaceId = workspace._id;
+    scheduler = new ExamScheduler();
+  });
+
+  afterEach(async () => {
+    await scheduler?.stopAllMonitoring();
+    jest.useRealTimers();
+  });
+
+  it("starts monitoring once the schedule is two minutes away", async () => {
+    const schedule = await createSchedule();
+
+    await tick();
+    expect(acquireLease).not.toHaveBeenCalled();
+
+    advance(minutes(3.5));
+    await tick();
+
+    expect(acquireLease).toHaveBeenCalledWith(schedule.id);
+    expect(latestMonitor().options.category).toBeUndefined();
+    expect(await Schedule.findById(schedule.id)).toMatchObject({
+      status: "monitoring",
+      monitoringStarted: true,
+    });
+
+    const [run] = await ScheduleRun.findForSchedule(schedule.id);
+    expect(run).toMatchObject({ trigger: "scheduled", attempt: 1, status: "running" });
+    expect(run.browsersWarmed).toBe(3);
+
+    // Already monitoring, the next pass leaves it alone
+    await tick();
+    expect(acquireLease).toHaveBeenCalledTimes(1);
+  });
+
+  it("warms due schedules side by side and starts each once while a pass overlaps the next", async () => {
+    const first = await createSchedule();
+    const second = await createSchedule({ name: "C1 Delhi" });
+    const finish = holdWarmups();
+
+    advance(minutes(4));
+    const slowPass = tick();
+    await waitForWarmups(2);
+    expect(acquireLease.mock.calls.map(([id]) => id).sort()).toEqual(
+      [first.id, second.id].sort()
+    );
+
+    // The 15 second interval fires again while the browsers still warm up
+    await tick();
+    expect(acquireLease).toHaveBeenCalledTimes(2);
+
+    finish.forEach((done) => done());
+    await slowPass;
+    await tick();
+
+    expect(acquireLease).toHaveBeenCalledTimes(2);
+    expect(mockMonitors).toHaveLength(2);
+    for (const monitor of mockMonitors) {
+      expect(monitor.startPolling).toHaveBeenCalledTimes(1);
+    }
+    expect(await ScheduleRun.countDocuments({ status: "running" })).toBe(2);
+  });
+
+  it("doesn't poll for a schedule paused while its browsers warm up", async () => {
+    const schedule = await createSchedule();
+    const finish = holdWarmups();
+
+    advance(minutes(4));
+    const pass = tick();
+    await waitForWarmups(1);
+    await scheduler.pauseSchedule(schedule.id);
+    finish[0]();
+    await pass;
+
+    expect(latestMonitor().startPolling).not.toHaveBeenCalled();
+    // Once by the pause, again for the browsers that were still warming
+    expect(browserPool.releaseLease).toHaveBeenCalledTimes(2);
+    expect((await Schedule.findById(schedule.id))?.status).toBe("paused");
+    const [run] = await ScheduleRun.findForSchedule(schedule.id);
+    expect(run.status).toBe("paused");
+  });
+
+  it("notifies every subscribed member of the workspace", async () => {
+    const colleague = await User.create({ telegramId: "1002", timezone: "Asia/Kolkata", role: "viewer" });
+    const muted = await User.create({ telegramId: "1003", role: "operator" });
+    await Workspace.updateOne(
+      { _id: workspaceId },
+      {
+        $push: {
+          members: {
+            $each: [{ user: colleague._id }, { user: muted._id, subscribed: false }],
+          },
+        },
+      }
+    );
+    await createSchedule();
+
+    advance(minutes(4));
+    await tick();
+
+    const started = sendMessage.mock.calls.filter(([, text]) =>
+      text.includes("Monitoring Started")
+    );
+    expect(started.map(([chatId]) => chatId).sort()).toEqual(["1001", "1002"]);
+    expect(started.find(([chatId]) => chatId === "1002")![1]).toContain("(Asia/Kolkata)");
+  });
+
+  it("completes the schedule when a browser reaches the booking page", async () => {
+    const schedule = await createSchedule();
+    runAll.mockResolvedValue(reachedPage(true));
+
+    advance(minutes(4));
+    await tick();
+    await latestMonitor().options.onOidFound(exam.oid, exam);
+
+    expect(runAll).toHaveBeenCalledWith(exam.oid, schedule.id);
+    expect(browserPool.releaseLease).toHaveBeenCalledWith(schedule.id);
+    expect(await Schedule.findById(schedule.id)).toMatchObject({
+      completed: true,
+      status: "success",
+    });
+
+    const [run] = await ScheduleRun.findForSchedule(schedule.id);
+    expect(run).toMatchObject({ status: "success", oid: exam.oid });
+    expect(run.exam?.locationName).toBe(exam.locationName);
+    expect(run.phases.oidFoundAt).toBeDefined();
+    expect(run.phases.navigatedAt).toBeDefined();
+  });
+
+  it("retries a timed out schedule after the backoff", async () => {
+    const schedule = await createSchedule();
+
+    advance(minutes(4));
+    await tick();
+    // Polls until runAt + 30 min, one minute after the start
+    expect(latestMonitor().options.maxDurationMs).toBe(minutes(31));
+    await latestMonitor().options.onTimeout();
+
+    expect(await Schedule.findById(schedule.id)).toMatchObject({
+      completed: false,
+      status: "failed",
+      lastError: "No OID found within monitoring period (31 minutes)",
+    });
+    expect(sendMessage).toHaveBeenLastCalledWith(
+      "1001",
+      expect.stringContaining("Will retry automatically in ~2 min"),
+      expect.anything()
+    );
+
+    // Still inside the backoff window
+    advance(minutes(1));
+    await tick();
+    expect(acquireLease).toHaveBeenCalledTimes(1);
+
+    advance(minutes(2));
+    await tick();
+    expect(acquireLease).toHaveBeenCalledTimes(2);
+    expect(sendMessage).toHaveBeenCalledWith(
+      "1001",
+      expect.stringContaining("Attempt 2 (retry 1 of 5)"),
+      expect.anything()
+    );
+
+    const runs = await ScheduleRun.findForSchedule(schedule.id);
+    expect(runs.map((r) => [r.trigger, r.attempt, r.status])).toEqual([
+      ["retry", 2, "running"],
+      ["scheduled", 1, "timeout"],
+    ]);
+    expect((await Schedule.findById(schedule.id))?.retryCount).toBe(1);
+  });
+
+  it("gives a retry after an expired session a monitoring window of its own", async () => {
+    const schedule = await createSchedule();
+
+    advance(minutes(4));
+    await tick();
+
+    // Past runAt + 30 min without an OID, the session expires
+    advance(minutes(32));
+    await tick();
+    expect(latestMonitor().stopPolling).toHaveBeenCalled();
+    expect(await Schedule.findById(schedule.id)).toMatchObject({
+      completed: false,
+      status: "failed",
+      lastError: "Session expired",
+    });
+
+    advance(minutes(3));
+    await tick();
+    expect(acquireLease).toHaveBeenCalledTimes(2);
+    const retry = latestMonitor();
+    expect(retry.startPolling).toHaveBeenCalled();
+
+    // The retry keeps polling on the following passes
+    advance(minutes(1));
+    await tick();
+    advance(minutes(10));
+    await tick();
+    expect(retry.stopPolling).not.toHaveBeenCalled();
+    expect(acquireLease).toHaveBeenCalledTimes(2);
+    expect((await Schedule.findById(schedule.id))?.status).toBe("monitoring");
+
+    const runs = await ScheduleRun.findForSchedule(schedule.id);
+    expect(runs.map((r) => [r.trigger, r.status])).toEqual([
+      ["retry", "running"],
+      ["scheduled", "failed"],
+    ]);
+  });
+
+  it("gives up once the retries are used up", async () => {
+    const schedule = await createSchedule({ maxRetries: 0 });
+    runAll.mockResolvedValue(reachedPage(false));
+
+    advance(minutes(4));
+    await tick();
+    await latestMonitor().options.onOidFound(exam.oid, exam);
+
+    expect(await Schedule.findById(schedule.id)).toMatchObject({
+      completed: true,
+      status: "failed",
+      lastError: "All browsers failed to reach page",
+    });
+
+    advance(minutes(60));
+    await tick();
+    expect(acquireLease).toHaveBeenCalledTimes(1);
+  });
+
+  it("counts a manual retry against the queued automatic ones", async () => {
+    const schedule = await createSchedule();
+
+    advance(minutes(4));
+    await tick();
+    await latestMonitor().options.onTimeout();
+
+    // Long after runAt, the manual attempt still gets its own window
+    advance(minutes(45));
+    await scheduler.retrySchedule(schedule.id);
+    await waitForMonitor(2);
+    expect(acquireLease).toHaveBeenCalledTimes(2);
+    expect((await Schedule.findById(schedule.id))?.retryCount).toBe(1);
+
+    advance(minutes(1));
+    await tick();
+    expect(latestMonitor().stopPolling).not.toHaveBeenCalled();
+    expect((await Schedule.findById(schedule.id))?.status).toBe("monitoring");
+  });
+
+  it("starts a fresh retry budget once the automatic retries are used up", async () => {
+    const schedule = await createSchedule({ maxRetries: 1, retryCount: 1 });
+    runAll.mockResolvedValue(reachedPage(false));
+
+    advance(minutes(4));
+    await tick();
+    await latestMonitor().options.onOidFound(exam.oid, exam);
+    expect(await Schedule.findById(schedule.id)).toMatchObject({
+      completed: true,
+      status: "failed",
+    });
+
+    await scheduler.retrySchedule(schedule.id);
+    await waitForMonitor(2);
+
+    expect(acquireLease).toHaveBeenCalledTimes(2);
+    expect(await Schedule.findById(schedule.id)).toMatchObject({
+      completed: false,
+      retryCount: 0,
+    });
+    const [run] = await ScheduleRun.findForSchedule(schedule.id);
+    expect(run).toMatchObject({ trigger: "retry", attempt: 1 });
+  });
+
+  it("fails the run when no browsers can be warmed", async () => {
+    const schedule = await createSchedule();
+    acquireLease.mockResolvedValue([]);
+
+    advance(minutes(4));
+    await tick();
+
+    expect(latestMonitor().startPolling).not.toHaveBeenCalled();
+    expect(browserPool.releaseLease).toHaveBeenCalledWith(schedule.id);
+    expect(await Schedule.findById(schedule.id)).toMatchObject({
+      status: "failed",
+      lastError: "No browsers could be warmed, all displays are in use",
+    });
+    const [run] = await ScheduleRun.findForSchedule(schedule.id);
+    expect(run.status).toBe("failed");
+  });
+
+  it("moves a recurring schedule to its next occurrence after a booking", async () => {
+    // 2025-10-01 is a Wednesday
+    const schedule = await createSchedule({
+      runAt: new Date("2025-10-01T04:05:00Z"),
+      recurrence: { kind: "weekly", weekdays: [3], time: "04:05", timezone: "UTC" },
+    });
+    runAll.mockResolvedValue(reachedPage(true));
+
+    advance(minutes(4));
+    await tick();
+    await latestMonitor().options.onOidFound(exam.oid, exam);
+
+    expect(await Schedule.findById(schedule.id)).toMatchObject({
+      completed: false,
+      status: "pending",
+      monitoringStarted: false,
+      runAt: new Date("2025-10-08T04:05:00Z"),
+    });
+    expect(sendMessage).toHaveBeenLastCalledWith(
+      "1001",
+      expect.stringContaining("Next Occurrence Scheduled"),
+      expect.anything()
+    );
+  });
+
+  it("pauses and resumes with a new monitor", async () => {
+    const schedule = await createSchedule();
+
+    advance(minutes(4));
+    await tick();
+    const first = latestMonitor();
+
+    await scheduler.pauseSchedule(schedule.id);
+    expect(first.stopPolling).toHaveBeenCalled();
+    expect(browserPool.releaseLease).toHaveBeenCalledWith(schedule.id);
+    expect((await Schedule.findById(schedule.id))?.status).toBe("paused");
+
+    advance(30 * 1000);
+    await scheduler.resumeSchedule(schedule.id);
+    expect(latestMonitor()).not.toBe(first);
+    expect(acquireLease).toHaveBeenCalledTimes(2);
+    expect(latestMonitor().startPolling).toHaveBeenCalled();
+
+    const runs = await ScheduleRun.findForSchedule(schedule.id);
+    expect(runs.map((r) => [r.trigger, r.status])).toEqual([
+      ["resume", "running"],
+      ["scheduled", "paused"],
+    ]);
+  });
+
+  it("leaves a paused schedule alone after its window has passed", async () => {
+    const schedule = await createSchedule();
+
+    advance(minutes(4));
+    await tick();
+    await scheduler.pauseSchedule(schedule.id);
+
+    advance(minutes(40));
+    await tick();
+    advance(minutes(10));
+    await tick();
+
+    expect(await Schedule.findById(schedule.id)).toMatchObject({
+      completed: false,
+      status: "paused",
+    });
+    expect(acquireLease).toHaveBeenCalledTimes(1);
+    expect(sendMessage).not.toHaveBeenCalledWith(
+      "1001",
+      expect.stringContaining("Schedule Failed"),
+      expect.anything()
+    );
+  });
+});
@@ -0,0 +1,112 @@
+import { createLogger, LogLevel } from "../utils/logger";
+
+const capture = (level: LogLevel = "debug") => {
+  const lines: { line: any; level: LogLevel }[] = [];
+  const logger = createLogger({
+    level,
+    write: (line, entryLevel) => lines.push({ line: JSON.parse(line), level: entryLevel }),
+  });
+  return { logger, lines };
+};
+
+describe("createLogger", () => {
+  it("writes one JSON object per entry", () => {
+    const { logger, lines } = capture();
+
+    logger.info("Polling stopped", { exams: 3 });
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0].line).toEqual({
+      time: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+      level: "info",
+      msg: "Polling stopped",
+      exams: 3,
+    });
+  });
+
+  it("drops entries below the configured level", () => {
+    const { logger, lines } = capture("warn");
+
+    logger.debug("noise");
+    logger.info("noise");
+    logger.warn("careful");
+    logger.error("broken");
+
+    expect(lines.map(({ line }) => line.level)).toEqual(["warn", "error"]);
+  });
+
+  it("carries correlation fields through child loggers", () => {
+    const { logger, lines } = capture();
+    const session = logger.child({ scheduleId: "s1", telegramId: "42" });
+    const browser = session.child({ browserNumber: 3, oid: "OID-1" });
+
+    browser.info("Reached booking page", { navigationMs: 120 });
+    session.info("Polling stopped");
+
+    expect(lines[0].line).toMatchObject({
+      scheduleId: "s1",
+      telegramId: "42",
+      browserNumber: 3,
+      oid: "OID-1",
+      navigationMs: 120,
+    });
+    expect(lines[1].line).toMatchObject({ scheduleId: "s1", telegramId: "42" });
+    expect(lines[1].line).not.toHaveProperty("browserNumber");
+  });
+
+  it("serializes errors and leaves out undefined fields", () => {
+    const { logger, lines } = capture();
+
+    logger.child({ telegramId: undefined }).error("Redirect failed", {
+      err: new Error("timeout"),
+    });
+
+    expect(lines[0].line).not.toHaveProperty("telegramId");
+    expect(lines[0].line.err).toMatchObject({ name: "Error", message: "timeout" });
+    expect(lines[0].line.err.stack).toContain("timeout");
+  });
+
+  it("keeps the message when a field can't be serialized", () => {
+    const { logger, lines } = capture();
+    const circular: any = {};
+    circular.self = circular;
+
+    logger.child({ scheduleId: "s1" }).warn("Odd field", { circular });
+
+    expect(lines[0].line).toEqual({
+      time: expect.any(String),
+      level: "warn",
+      msg: "Odd field",
+      scheduleId: "s1",
+    });
+  });
+});
+
+describe("logger", () => {
+  const sharedLogger = (env: Record<string, string>) => {
+    const originalEnv = process.env;
+    process.env = { ...env };
+    try {
+      let logging!: typeof import("../utils/logger");
+      jest.isolateModules(() => {
+        logging = require("../utils/logger");
+      });
+      return logging.logger;
+    } finally {
+      process.env = originalEnv;
+    }
+  };
+
+  it("stays quiet in tests unless a LOG_LEVEL is set", () => {
+    const stdout = jest.spyOn(process.stdout, "write").mockImplementation(() => true);
+    try {
+      sharedLogger({ NODE_ENV: "test" }).info("Polling stopped");
+      expect(stdout).not.toHaveBeenCalled();
+
+      sharedLogger({ NODE_ENV: "test", LOG_LEVEL: "info" }).info("Polling stopped");
+      expect(stdout).toHaveBeenCalledWith(expect.stringContaining('"msg":"Polling stopped"'));
+    } finally {
+      stdout.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,55 @@
+import {
+  examfinderPolls,
+  metricsRegistry,
+  registerStatusGauges,
+  scheduleRunOutcomes,
+} from "../utils/metrics";
+
+const sessions = [
+  { scheduleId: "s1", status: "monitoring", consecutiveErrors: 2 },
+  { scheduleId: "s2", status: "warming" },
+];
+
+registerStatusGauges({
+  scheduler: { getStatus: () => ({ activeSessions: sessions.length, sessions }) },
+  browserPool: {
+    getStatus: () => ({ totalBrowsers: 5, readyBrowsers: 3, warmingBrowsers: 2 }),
+  },
+  proxyPool: {
+    getStatus: () => ({ usage: [{ proxy: "10.0.0.1:8080", timesUsed: 4 }] }),
+  },
+});
+
+describe("metrics", () => {
+  it("reads the gauges from the components when scraped", async () => {
+    const text = await metricsRegistry.metrics();
+
+    expect(text).toContain("goethe_bot_scheduler_active_sessions 2");
+    expect(text).toContain('goethe_bot_scheduler_sessions{status="monitoring"} 1');
+    expect(text).toContain('goethe_bot_examfinder_consecutive_errors{schedule_id="s1"} 2');
+    expect(text).toContain('goethe_bot_examfinder_consecutive_errors{schedule_id="s2"} 0');
+    expect(text).toContain('goethe_bot_browser_pool_browsers{state="ready"} 3');
+    expect(text).toContain('goethe_bot_browser_pool_browsers{state="warming"} 2');
+    expect(text).toContain('goethe_bot_proxy_uses{proxy="10.0.0.1:8080"} 4');
+  });
+
+  it("drops sessions that ended since the last scrape", async () => {
+    sessions.pop();
+
+    const text = await metricsRegistry.metrics();
+
+    expect(text).not.toContain('schedule_id="s2"');
+    expect(text).not.toContain('status="warming"');
+  });
+
+  it("exposes counters by label", async () => {
+    examfinderPolls.inc({ result: "success" });
+    examfinderPolls.inc({ result: "success" });
+    scheduleRunOutcomes.inc({ status: "timeout" });
+
+    const text = await metricsRegistry.metrics();
+
+    expect(text).toContain('goethe_bot_examfinder_polls_total{result="success"} 2');
+    expect(text).toContain('goethe_bot_schedule_runs_total{status="timeout"} 1');
+  });
+});
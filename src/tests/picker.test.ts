@@ -0,0 +1,107 @@
+import { bot } from "../bot/bot";
+import { encodeCallback } from "../bot/callbacks";
+import { paginate, pickerKeyboard, pickerLabel, showPicker } from "../bot/picker";
+
+jest.mock("../bot/bot", () => ({
+  bot: {
+    sendMessage: jest.fn().mockResolvedValue({}),
+    editMessageText: jest.fn().mockResolvedValue({}),
+  },
+}));
+
+const sendMessage = bot.sendMessage as jest.Mock;
+const editMessageText = bot.editMessageText as jest.Mock;
+
+afterEach(() => {
+  sendMessage.mockClear();
+  editMessageText.mockReset().mockResolvedValue({});
+});
+
+const numbers = (count: number) => Array.from({ length: count }, (_, i) => i + 1);
+
+describe("paginate", () => {
+  it("slices the requested page", () => {
+    expect(paginate(numbers(20), 1, 8)).toEqual({
+      items: [9, 10, 11, 12, 13, 14, 15, 16],
+      page: 1,
+      pageCount: 3,
+    });
+    expect(paginate(numbers(20), 2, 8).items).toEqual([17, 18, 19, 20]);
+  });
+
+  it("clamps pages that don't exist, e.g. after items were removed", () => {
+    expect(paginate(numbers(5), 3, 8)).toEqual({ items: numbers(5), page: 0, pageCount: 1 });
+    expect(paginate(numbers(20), -1, 8).page).toBe(0);
+    expect(paginate(numbers(20), NaN, 8).page).toBe(0);
+    expect(paginate([], 0, 8)).toEqual({ items: [], page: 0, pageCount: 1 });
+  });
+});
+
+describe("pickerKeyboard", () => {
+  const button = (n: number) => ({ text: `#${n}`, callback_data: `pick_account:${n}` });
+  const pageCallback = (page: number) => encodeCallback("account_page", String(page));
+
+  it("lists one item per row with Cancel and no paging on a single page", () => {
+    expect(pickerKeyboard(paginate(numbers(2), 0), button, pageCallback)).toEqual([
+      [{ text: "#1", callback_data: "pick_account:1" }],
+      [{ text: "#2", callback_data: "pick_account:2" }],
+      [{ text: "Cancel", callback_data: "cancel" }],
+    ]);
+  });
+
+  it("only offers the directions that have pages", () => {
+    const navigation = (page: number) => {
+      const keyboard = pickerKeyboard(paginate(numbers(20), page, 8), button, pageCallback);
+      return keyboard[keyboard.length - 2].map((b) => b.callback_data);
+    };
+
+    expect(navigation(0)).toEqual(["account_page:1"]);
+    expect(navigation(1)).toEqual(["account_page:0", "account_page:2"]);
+    expect(navigation(2)).toEqual(["account_page:1"]);
+  });
+
+  it("fits ObjectId buttons into Telegram's callback limit", () => {
+    const id = "65f1c2a9b7e4d3a1c0ffee42";
+    expect(() => encodeCallback("confirm_remove_schedule", id)).not.toThrow();
+    expect(() => encodeCallback("confirm_remove_account", id)).not.toThrow();
+  });
+});
+
+describe("pickerLabel", () => {
+  it("shortens long labels", () => {
+    const label = pickerLabel(`🟢 ${"a".repeat(80)}@example.com`);
+    expect(label.length).toBe(48);
+    expect(label.endsWith("…")).toBe(true);
+    expect(pickerLabel("🟢 priya@example.com")).toBe("🟢 priya@example.com");
+  });
+});
+
+describe("showPicker", () => {
+  const keyboard = [[{ text: "Cancel", callback_data: "cancel" }]];
+
+  it("sends a new message or edits the one that was clicked", async () => {
+    await showPicker(1, "Choose", keyboard);
+    await showPicker(1, "Choose", keyboard, 99);
+
+    expect(sendMessage).toHaveBeenCalledWith(1, "Choose", {
+      reply_markup: { inline_keyboard: keyboard },
+    });
+    expect(editMessageText).toHaveBeenCalledWith("Choose", {
+      chat_id: 1,
+      message_id: 99,
+      reply_markup: { inline_keyboard: keyboard },
+    });
+  });
+
+  it("ignores re-showing the same page but not other errors", async () => {
+    editMessageText.mockRejectedValueOnce(
+      new Error("ETELEGRAM: 400 Bad Request: message is not modified")
+    );
+    await expect(showPicker(1, "Choose", keyboard, 99)).resolves.toBeUndefined();
+
+    editMessageText.mockRejectedValueOnce(
+      new Error("ETELEGRAM: 400 Bad Request: message to edit not found")
+    );
+    await expect(showPicker(1, "Choose", keyboard, 99)).rejects.toThrow("not found");
+  });
+});
@@ -0,0 +1,116 @@
+import { ProxyPool } from "../proxyPool";
+
+const PROXY_ENV = {
+  PROXY_1_HOST: "p1.example.com",
+  PROXY_1_PORT: "8001",
+  PROXY_2_HOST: "p2.example.com",
+  PROXY_2_PORT: "8002",
+  PROXY_2_TYPE: "socks5",
+  // No PROXY_3, numbering may have gaps
+  PROXY_4_HOST: "p4.example.com",
+  PROXY_4_PORT: "8004",
+  PROXY_4_USERNAME: "user",
+  PROXY_4_PASSWORD: "secret",
+};
+
+const hosts = (pool: ProxyPool, pick: () => { host: string } | null, times: number) =>
+  Array.from({ length: times }, () => pick.call(pool)?.host);
+
+describe("ProxyPool", () => {
+  const originalEnv = process.env;
+  let pool: ProxyPool;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, ...PROXY_ENV };
+    pool = new ProxyPool();
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  it("loads numbered proxies from the environment", () => {
+    expect(pool.getProxyCount()).toBe(3);
+    expect(pool.getProxyByIndex(1)).toEqual({
+      host: "p2.example.com",
+      port: 8002,
+      username: undefined,
+      password: undefined,
+      type: "socks5",
+    });
+    expect(pool.getProxyByIndex(2)).toMatchObject({
+      host: "p4.example.com",
+      username: "user",
+      password: "secret",
+      type: "http",
+    });
+  });
+
+  it("hands out proxies round-robin", () => {
+    expect(hosts(pool, pool.getNextProxy, 4)).toEqual([
+      "p1.example.com",
+      "p2.example.com",
+      "p4.example.com",
+      "p1.example.com",
+    ]);
+  });
+
+  it("prefers the least used proxy", () => {
+    pool.getProxyByIndex(0);
+    pool.getProxyByIndex(0);
+    pool.getProxyByIndex(1);
+
+    expect(hosts(pool, pool.getLeastUsedProxy, 3)).toEqual([
+      "p4.example.com",
+      "p2.example.com",
+      "p4.example.com",
+    ]);
+  });
+
+  it("picks a random proxy and counts its use", () => {
+    jest.spyOn(Math, "random").mockReturnValue(0.5);
+
+    expect(pool.getRandomProxy()?.host).toBe("p2.example.com");
+    expect(pool.getStatus().usage).toContainEqual({
+      index: 2,
+      proxy: "p2.example.com:8002",
+      timesUsed: 1,
+    });
+  });
+
+  it("returns null for an index outside the pool", () => {
+    expect(pool.getProxyByIndex(-1)).toBeNull();
+    expect(pool.getProxyByIndex(3)).toBeNull();
+  });
+
+  it("reports and resets usage per proxy", () => {
+    hosts(pool, pool.getNextProxy, 4);
+
+    expect(pool.getStatus()).toMatchObject({
+      totalProxies: 3,
+      currentIndex: 2,
+      usage: [
+        { index: 1, proxy: "p1.example.com:8001", timesUsed: 2 },
+        { index: 2, proxy: "p2.example.com:8002", timesUsed: 1 },
+        { index: 3, proxy: "p4.example.com:8004", timesUsed: 1 },
+      ],
+    });
+
+    pool.resetUsage();
+    expect(pool.getStatus().usage.map((u) => u.timesUsed)).toEqual([0, 0, 0]);
+  });
+
+  it("returns null from every strategy when no proxies are configured", () => {
+    process.env = { ...originalEnv };
+    for (const key of Object.keys(process.env)) {
+      if (key.startsWith("PROXY_")) delete process.env[key];
+    }
+    const empty = new ProxyPool();
+
+    expect(empty.getProxyCount()).toBe(0);
+    expect(empty.getNextProxy()).toBeNull();
+    expect(empty.getLeastUsedProxy()).toBeNull();
+    expect(empty.getRandomProxy()).toBeNull();
+  });
+});
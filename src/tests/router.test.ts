@@ -0,0 +1,152 @@
+import { EventEmitter } from "events";
+import type TelegramBot from "node-telegram-bot-api";
+import { getUserRole } from "../bot/roles";
+import { BotRouter } from "../bot/router";
+
+jest.mock("../bot/bot", () => ({ bot: { sendMessage: jest.fn() } }));
+jest.mock("../bot/roles", () => ({
+  ...jest.requireActual("../bot/roles"),
+  getUserRole: jest.fn(),
+}));
+
+const userRole = getUserRole as jest.Mock;
+
+const createBot = () => {
+  const bot = new EventEmitter() as EventEmitter & {
+    sendMessage: jest.Mock;
+    answerCallbackQuery: jest.Mock;
+  };
+  bot.sendMessage = jest.fn().mockResolvedValue({});
+  bot.answerCallbackQuery = jest.fn().mockResolvedValue(true);
+  return bot;
+};
+
+const handlers = {
+  start: jest.fn().mockResolvedValue(undefined),
+  status: jest.fn().mockResolvedValue(undefined),
+  pause: jest.fn().mockResolvedValue(undefined),
+  invite: jest.fn().mockResolvedValue(undefined),
+  remove: jest.fn().mockResolvedValue(undefined),
+};
+
+const setup = () => {
+  const bot = createBot();
+  new BotRouter()
+    .use({
+      name: "admin",
+      commands: [
+        { command: "start", argument: "optional", access: "anyone", handler: handlers.start },
+        { command: "invite", access: "owner", handler: handlers.invite },
+      ],
+    })
+    .use({
+      name: "schedules",
+      access: "operator",
+      commands: [
+        { command: "status", argument: "required", access: "viewer", handler: handlers.status },
+        { command: "pause", argument: "required", handler: handlers.pause },
+      ],
+      callbacks: [{ action: "remove_schedule", handler: handlers.remove }],
+    })
+    .attach(bot as unknown as TelegramBot);
+  return bot;
+};
+
+// The router handles updates asynchronously
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const send = async (bot: EventEmitter, text: string) => {
+  bot.emit("message", { chat: { id: 1 }, from: { id: 42 }, text });
+  await flush();
+};
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, "log").mockImplementation(() => {});
+});
+
+describe("BotRouter access", () => {
+  it("lets anyone run /start", async () => {
+    userRole.mockResolvedValue(null);
+    const bot = setup();
+
+    await send(bot, "/start ABCDEFGH23");
+
+    expect(handlers.start).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: "42" }),
+      "ABCDEFGH23"
+    );
+  });
+
+  it("turns away users without a role", async () => {
+    userRole.mockResolvedValue(null);
+    const bot = setup();
+
+    await send(bot, "/status_abc");
+
+    expect(handlers.status).not.toHaveBeenCalled();
+    expect(bot.sendMessage).toHaveBeenCalledWith(1, expect.stringContaining("invite-only"));
+  });
+
+  it("uses the flow's access for routes without their own", async () => {
+    userRole.mockResolvedValue("viewer");
+    const bot = setup();
+
+    await send(bot, "/status_abc");
+    await send(bot, "/pause_abc");
+
+    expect(handlers.status).toHaveBeenCalledWith(expect.anything(), "abc");
+    expect(handlers.pause).not.toHaveBeenCalled();
+    expect(bot.sendMessage).toHaveBeenCalledWith(
+      1,
+      expect.stringContaining("needs the operator role, you are viewer")
+    );
+  });
+
+  it("lets higher roles do what lower ones can", async () => {
+    userRole.mockResolvedValue("owner");
+    const bot = setup();
+
+    await send(bot, "/pause_abc");
+    await send(bot, "/invite");
+
+    expect(handlers.pause).toHaveBeenCalled();
+    expect(handlers.invite).toHaveBeenCalled();
+  });
+
+  it("checks buttons too", async () => {
+    userRole.mockResolvedValue("viewer");
+    const bot = setup();
+
+    bot.emit("callback_query", {
+      id: "q1",
+      from: { id: 42 },
+      data: "remove_schedule",
+      message: { chat: { id: 1 }, message_id: 7 },
+    });
+    await flush();
+
+    expect(handlers.remove).not.toHaveBeenCalled();
+    expect(bot.sendMessage).toHaveBeenCalledWith(1, expect.stringContaining("operator role"));
+  });
+
+  it("handles buttons whose query Telegram no longer accepts", async () => {
+    userRole.mockResolvedValue("operator");
+    const bot = setup();
+    bot.answerCallbackQuery.mockRejectedValue(
+      new Error("ETELEGRAM: 400 Bad Request: query is too old and response timeout expired")
+    );
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => {});
+
+    bot.emit("callback_query", {
+      id: "q1",
+      from: { id: 42 },
+      data: "remove_schedule",
+      message: { chat: { id: 1 }, message_id: 7 },
+    });
+    await flush();
+    consoleError.mockRestore();
+
+    expect(handlers.remove).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,134 @@
+import mongoose from "mongoose";
+import Schedule from "../models/scheduleSchema";
+
+const newSchedule = (fields: Record<string, unknown> = {}) =>
+  new Schedule({
+    name: "B2 Bangalore",
+    runAt: new Date("2025-10-01T04:30:00Z"),
+    createdBy: new mongoose.Types.ObjectId(),
+    workspace: new mongoose.Types.ObjectId(),
+    ...fields,
+  });
+
+// Methods save the document, keep them off the database
+const withoutSave = (schedule: ReturnType<typeof newSchedule>) => {
+  jest.spyOn(schedule, "save").mockImplementation(async function (this: any) {
+    return this;
+  });
+  return schedule;
+};
+
+describe("Schedule model", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it("defaults a new schedule to pending with five retries", () => {
+    const schedule = newSchedule();
+
+    expect(schedule).toMatchObject({
+      completed: false,
+      status: "pending",
+      monitoringStarted: false,
+      retryCount: 0,
+      maxRetries: 5,
+    });
+    expect(schedule.validateSync()).toBeUndefined();
+  });
+
+  it("rejects unknown targets and malformed recurrence times", () => {
+    const error = newSchedule({
+      target: { level: "B3", category: "E999" },
+      recurrence: { kind: "weekly", weekdays: [1], time: "25:00", timezone: "UTC" },
+    }).validateSync();
+
+    expect(Object.keys(error?.errors || {}).sort()).toEqual([
+      "recurrence.time",
+      "target.category",
+      "target.level",
+    ]);
+  });
+
+  it("can retry until maxRetries is used up or the schedule completes", () => {
+    const get = (fields: Record<string, unknown>) => newSchedule(fields).get("canRetry");
+
+    expect(get({ retryCount: 4 })).toBe(true);
+    expect(get({ retryCount: 5 })).toBe(false);
+    expect(get({ retryCount: 1, maxRetries: 1 })).toBe(false);
+    expect(get({ completed: true })).toBe(false);
+  });
+
+  describe("incrementRetry", () => {
+    it("counts the attempt and stamps its time", async () => {
+      jest.useFakeTimers({ now: new Date("2025-10-01T04:32:00Z") });
+      const schedule = withoutSave(newSchedule({ retryCount: 2 }));
+
+      await schedule.incrementRetry();
+
+      expect(schedule.retryCount).toBe(3);
+      expect(schedule.lastAttemptTime).toEqual(new Date("2025-10-01T04:32:00Z"));
+      expect(schedule.save).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("resetRetries", () => {
+    it("clears the retry bookkeeping and the last error", async () => {
+      const schedule = withoutSave(
+        newSchedule({
+          retryCount: 3,
+          lastAttemptTime: new Date(),
+          lastError: "No OID found",
+        })
+      );
+
+      await schedule.resetRetries();
+
+      expect(schedule.retryCount).toBe(0);
+      expect(schedule.lastAttemptTime).toBeUndefined();
+      expect(schedule.lastError).toBeUndefined();
+      expect(schedule.save).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("findReadyForRetry", () => {
+    it("queries failed schedules with retries left whose last attempt is older than the gap", async () => {
+      jest.useFakeTimers({ now: new Date("2025-10-01T05:00:00Z") });
+      const populate = jest.fn().mockResolvedValue([]);
+      const find = jest
+        .spyOn(Schedule, "find")
+        .mockReturnValue({ populate } as any);
+
+      await Schedule.findReadyForRetry(10);
+
+      expect(find).toHaveBeenCalledWith({
+        completed: false,
+        status: "failed",
+        $expr: { $lt: ["$retryCount", "$maxRetries"] },
+        $or: [
+          { lastAttemptTime: { $exists: false } },
+          { lastAttemptTime: { $lt: new Date("2025-10-01T04:50:00Z") } },
+        ],
+      });
+      expect(populate).toHaveBeenCalledWith("createdBy");
+    });
+
+    it("waits two minutes between retries by default", async () => {
+      jest.useFakeTimers({ now: new Date("2025-10-01T05:00:00Z") });
+      const find = jest
+        .spyOn(Schedule, "find")
+        .mockReturnValue({ populate: jest.fn().mockResolvedValue([]) } as any);
+
+      await Schedule.findReadyForRetry();
+
+      expect(find).toHaveBeenCalledWith(
+        expect.objectContaining({
+          $or: [
+            { lastAttemptTime: { $exists: false } },
+            { lastAttemptTime: { $lt: new Date("2025-10-01T04:58:00Z") } },
+          ],
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import fs from "fs";
+import path from "path";
+import axios from "axios";
+import {
+  clearExamCache,
+  examKey,
+  fetchExams,
+  findUpcomingExam,
+  selectUpcoming,
+} from "../api/upcomingExams";
+import { parseExamfinderResponse } from "../api/examfinder";
+
+jest.mock("axios");
+
+const response = JSON.parse(
+  fs.readFileSync(path.resolve(__dirname, "../..", "goethe-api-2025-09-18.json"), "utf8")
+);
+const exams = parseExamfinderResponse(response);
+const get = axios.get as jest.Mock;
+
+describe("selectUpcoming", () => {
+  const now = new Date("2025-10-01T00:00:00Z");
+
+  it("lists exams whose window opens within the period, soonest first", () => {
+    const upcoming = selectUpcoming(exams, { now, withinDays: 14 });
+
+    expect(upcoming.map((e) => [e.locationName, e.bookFrom.toISOString()])).toEqual([
+      ["Kolkata", "2025-10-02T07:30:00.000Z"],
+      ["Kolkata", "2025-10-05T07:30:00.000Z"],
+      ["Chennai", "2025-10-07T03:30:00.000Z"],
+      ["Chennai", "2025-10-09T03:30:00.000Z"],
+      ["Chennai", "2025-10-10T03:30:00.000Z"],
+    ]);
+    expect(upcoming[0].key).toBe(examKey(upcoming[0]));
+  });
+
+  it("filters by level", () => {
+    expect(selectUpcoming(exams, { now, level: "b2" })).toHaveLength(5);
+    expect(selectUpcoming(exams, { now, level: "C1" })).toEqual([]);
+  });
+
+  it("drops windows that already opened", () => {
+    const later = new Date("2025-10-09T12:00:00Z");
+
+    expect(selectUpcoming(exams, { now: later, withinDays: 30 }).map((e) => e.locationName)).toEqual([
+      "Chennai",
+      "New Delhi",
+    ]);
+  });
+});
+
+describe("fetchExams", () => {
+  beforeEach(() => {
+    clearExamCache();
+    get.mockReset();
+  });
+
+  it("loads every category once and caches the result", async () => {
+    get.mockResolvedValue({ data: response });
+
+    const first = await fetchExams();
+    await fetchExams();
+
+    expect(get).toHaveBeenCalledTimes(2);
+    expect(get.mock.calls.map(([url]) => new URL(url).searchParams.get("category"))).toEqual([
+      "E006",
+      "E007",
+    ]);
+    // Both categories returned the same exams, they are listed once
+    expect(first).toHaveLength(exams.length);
+  });
+
+  it("finds an upcoming exam by key", async () => {
+    get.mockResolvedValue({ data: response });
+    const chennai = exams.find((e) => e.locationName === "Chennai")!;
+
+    const found = await findUpcomingExam(examKey(chennai), new Date("2025-10-01T00:00:00Z"));
+    expect(found?.bookFrom).toEqual(new Date("2025-10-07T03:30:00.000Z"));
+
+    expect(await findUpcomingExam(examKey(chennai), new Date("2025-10-08T00:00:00Z"))).toBeNull();
+    expect(await findUpcomingExam("unknown")).toBeNull();
+  });
+});
@@ -0,0 +1,272 @@
+import mongoose from "mongoose";
+import { bot } from "../bot/bot";
+import { adminFlow } from "../bot/flows/admin";
+import { workspaceFlow } from "../bot/flows/workspace";
+import * as workspaces from "../bot/workspaces";
+import { inWorkspace, Membership } from "../bot/workspaces";
+import Account from "../models/accountSchema";
+import Invite from "../models/inviteSchema";
+import Schedule from "../models/scheduleSchema";
+import User from "../models/userSchema";
+import Workspace from "../models/workspaceSchema";
+import { ExamScheduler } from "../schedulers/scheduler";
+
+jest.mock("../bot/bot", () => ({
+  bot: { sendMessage: jest.fn().mockResolvedValue({}) },
+}));
+
+jest.mock("../browsers/prewarmedBrowserPool", () => ({
+  browserPool: {},
+}));
+
+jest.mock("../cluster/runCluster", () => ({
+  runAllAccountsWithPrewarmedBrowsers: jest.fn(),
+}));
+
+const sendMessage = bot.sendMessage as jest.Mock;
+const id = () => new mongoose.Types.ObjectId();
+
+const alice = { _id: id(), telegramId: "1001", timezone: "Europe/Berlin", role: "owner" };
+const bob = { _id: id(), telegramId: "1002", timezone: "Asia/Kolkata", role: "viewer" };
+const carol = { _id: id(), telegramId: "1003", timezone: "UTC", role: "operator" };
+
+// findById(...).select(...).lean() resolving to the workspace
+const mockWorkspace = (members: { user: mongoose.Types.ObjectId; subscribed: boolean }[]) =>
+  jest.spyOn(Workspace, "findById").mockReturnValue({
+    select: () => ({ lean: async () => ({ members }) }),
+  } as any);
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  sendMessage.mockClear();
+});
+
+describe("Workspace.findSubscribers", () => {
+  it("only loads the members who are subscribed", async () => {
+    mockWorkspace([
+      { user: alice._id, subscribed: true },
+      { user: bob._id, subscribed: false },
+      { user: carol._id, subscribed: true },
+    ]);
+    const find = jest.spyOn(User, "find").mockResolvedValue([alice, carol] as any);
+
+    const subscribers = await Workspace.findSubscribers(id());
+
+    expect(subscribers).toEqual([alice, carol]);
+    expect(find).toHaveBeenCalledWith({
+      _id: { $in: [alice._id, carol._id] },
+      role: { $ne: null },
+    });
+  });
+
+  it("doesn't query users when nobody is subscribed", async () => {
+    mockWorkspace([{ user: bob._id, subscribed: false }]);
+    const find = jest.spyOn(User, "find");
+
+    expect(await Workspace.findSubscribers(id())).toEqual([]);
+    expect(find).not.toHaveBeenCalled();
+  });
+});
+
+describe("Workspace.ensureForUser", () => {
+  it("returns the workspace the user is already in", async () => {
+    const existing = { _id: id(), name: "Team" };
+    jest.spyOn(Workspace, "findForUser").mockResolvedValue(existing as any);
+    const create = jest.spyOn(Workspace, "create");
+
+    expect(await Workspace.ensureForUser({ ...alice, username: "alice" } as any)).toBe(existing);
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it("creates a personal workspace for a user without one", async () => {
+    jest.spyOn(Workspace, "findForUser").mockResolvedValue(null);
+    const create = jest
+      .spyOn(Workspace, "create")
+      .mockImplementation(async (doc: any) => doc);
+
+    await Workspace.ensureForUser({ ...alice, username: "alice" } as any);
+
+    expect(create).toHaveBeenCalledWith({
+      name: "alice's workspace",
+      createdBy: alice._id,
+      members: [{ user: alice._id }],
+    });
+  });
+});
+
+describe("inWorkspace", () => {
+  const workspaceId = id();
+  const membership = { user: alice, workspace: { _id: workspaceId } } as unknown as Membership;
+
+  it("matches documents of the member's workspace only", () => {
+    expect(inWorkspace(membership, new mongoose.Types.ObjectId(workspaceId.toString()))).toBe(true);
+    expect(inWorkspace(membership, id())).toBe(false);
+  });
+
+  it("refuses unknown users and documents without a workspace", () => {
+    expect(inWorkspace(null, workspaceId)).toBe(false);
+    expect(inWorkspace(membership, undefined)).toBe(false);
+  });
+});
+
+describe("ExamScheduler notifications", () => {
+  const schedule = { id: "s1", name: "B2 Bangalore", workspace: id() };
+  const notify = (message: string | ((member: any) => string)) =>
+    (new ExamScheduler() as any).notifyMembers(schedule, message) as Promise<void>;
+
+  it("sends to every subscribed member of the schedule's workspace", async () => {
+    const findSubscribers = jest
+      .spyOn(Workspace, "findSubscribers")
+      .mockResolvedValue([alice, carol] as any);
+
+    await notify("⏸️ **Schedule Paused**");
+
+    expect(findSubscribers).toHaveBeenCalledWith(schedule.workspace);
+    expect(sendMessage.mock.calls.map(([chatId]) => chatId)).toEqual(["1001", "1003"]);
+    expect(sendMessage).toHaveBeenCalledWith("1001", "⏸️ **Schedule Paused**", {
+      parse_mode: "Markdown",
+    });
+  });
+
+  it("renders the message for each member's timezone", async () => {
+    jest.spyOn(Workspace, "findSubscribers").mockResolvedValue([alice, bob] as any);
+
+    await notify((member) => `Runs in ${member.timezone}`);
+
+    expect(sendMessage.mock.calls.map(([chatId, text]) => [chatId, text])).toEqual([
+      ["1001", "Runs in Europe/Berlin"],
+      ["1002", "Runs in Asia/Kolkata"],
+    ]);
+  });
+
+  it("keeps notifying the others when one member can't be reached", async () => {
+    jest.spyOn(Workspace, "findSubscribers").mockResolvedValue([alice, carol] as any);
+    sendMessage.mockRejectedValueOnce(new Error("Forbidden: bot was blocked by the user"));
+
+    await expect(notify("🎯 **EXAM FOUND!**")).resolves.toBeUndefined();
+
+    expect(sendMessage).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("member administration", () => {
+  const command = (name: string) =>
+    adminFlow.commands!.find((route) => route.command === name)!.handler;
+  const ctx = { chatId: 1, userId: alice.telegramId };
+  const workspace = {
+    _id: id(),
+    name: "Team",
+    members: [{ user: alice._id }, { user: bob._id }],
+    isMember: (userId: mongoose.Types.ObjectId) =>
+      [alice._id, bob._id].some((member) => member.equals(userId)),
+  };
+
+  beforeEach(() => {
+    jest
+      .spyOn(workspaces, "getMembership")
+      .mockResolvedValue({ user: alice, workspace } as unknown as Membership);
+  });
+
+  it("lists only the members of the owner's workspace", async () => {
+    const find = jest.spyOn(User, "find").mockReturnValue({
+      sort: async () => [alice, bob],
+    } as any);
+
+    await command("users")(ctx);
+
+    expect(find).toHaveBeenCalledWith({
+      _id: { $in: [alice._id, bob._id] },
+      role: { $ne: null },
+    });
+    expect(sendMessage.mock.calls[0][1]).toContain("Members of Team (2)");
+  });
+
+  it("refuses to change the role of someone in another workspace", async () => {
+    const save = jest.fn();
+    jest.spyOn(User, "findOne").mockResolvedValue({ ...carol, save } as any);
+
+    await command("setrole")(ctx, `${carol.telegramId} none`);
+
+    expect(save).not.toHaveBeenCalled();
+    expect(sendMessage.mock.calls[0][1]).toContain("No member of Team");
+  });
+
+  it("changes the role of a member", async () => {
+    const member = { ...bob, save: jest.fn() };
+    jest.spyOn(User, "findOne").mockResolvedValue(member as any);
+
+    await command("setrole")(ctx, `${bob.telegramId} operator`);
+
+    expect(member.role).toBe("operator");
+    expect(member.save).toHaveBeenCalled();
+  });
+});
+
+describe("/join", () => {
+  const join = workspaceFlow.commands!.find((route) => route.command === "join")!.handler;
+  const ctx = { chatId: 1, userId: alice.telegramId };
+  const other = { _id: id(), name: "Other team" };
+
+  const joinAs = async (
+    user: Record<string, unknown>,
+    members: unknown[],
+    counts = { accounts: 0, schedules: 0 },
+    inviteRole = "viewer"
+  ) => {
+    const member: Record<string, any> = { ...user, save: jest.fn() };
+    jest.spyOn(workspaces, "getMembership").mockResolvedValue({
+      user: member,
+      workspace: { _id: id(), name: "Team", members },
+    } as unknown as Membership);
+    jest.spyOn(Account, "countDocuments").mockResolvedValue(counts.accounts);
+    jest.spyOn(Schedule, "countDocuments").mockResolvedValue(counts.schedules);
+    const redeem = jest
+      .spyOn(Invite, "redeem")
+      .mockResolvedValue({ workspace: other._id, role: inviteRole, createdBy: bob._id } as any);
+    const addMember = jest.spyOn(Workspace, "addMember").mockResolvedValue(other as any);
+
+    await join(ctx, "ABCD1234");
+    return { member, redeem, addMember };
+  };
+
+  it("keeps the last member in a workspace that still has accounts or schedules", async () => {
+    const { redeem, addMember } = await joinAs(alice, [{ user: alice._id }], {
+      accounts: 2,
+      schedules: 0,
+    });
+
+    // The invite stays usable once the workspace was handed over
+    expect(redeem).not.toHaveBeenCalled();
+    expect(addMember).not.toHaveBeenCalled();
+    expect(sendMessage.mock.calls[0][1]).toContain("You are the last member of Team");
+  });
+
+  it("lets a member leave a workspace others stay in", async () => {
+    const { addMember } = await joinAs(carol, [{ user: carol._id }, { user: bob._id }], {
+      accounts: 2,
+      schedules: 1,
+    });
+
+    expect(addMember).toHaveBeenCalledWith(other._id, carol._id);
+  });
+
+  it("doesn't take a higher role away", async () => {
+    const { member } = await joinAs(alice, [{ user: alice._id }]);
+
+    expect(member.role).toBe("owner");
+    expect(member.save).toHaveBeenCalled();
+    expect(sendMessage.mock.calls[0][1]).toContain("keep your owner role");
+  });
+
+  it("raises a lower role to the invited one", async () => {
+    const { member } = await joinAs(
+      bob,
+      [{ user: bob._id }, { user: carol._id }],
+      undefined,
+      "operator"
+    );
+
+    expect(member.role).toBe("operator");
+    expect(sendMessage.mock.calls[0][1]).toContain("You joined Other team as operator");
+  });
+});
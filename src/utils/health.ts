@@ -0,0 +1,112 @@
+import fs from "fs";
+
+export type CheckStatus = "ok" | "warn" | "fail";
+
+export interface CheckResult {
+  status: CheckStatus;
+  // Only critical checks make the service unready
+  critical: boolean;
+  details: Record<string, unknown>;
+}
+
+export interface HealthReport {
+  ready: boolean;
+  checks: Record<string, CheckResult>;
+}
+
+// Only the fields the checks read, so tests can pass plain objects
+export interface HealthSources {
+  // mongoose.connection.readyState
+  mongoState: () => number;
+  telegram: { isPolling(): boolean };
+  scheduler: { getStatus(): { isRunning: boolean; activeSessions: number } };
+  browserPool: {
+    getStatus(): { totalBrowsers: number; readyBrowsers: number; warmingBrowsers: number };
+  };
+  chromiumPath: string;
+  now?: () => Date;
+}
+
+// A polling error this recent shows up as a warning
+const TELEGRAM_ERROR_WINDOW_MS = 60 * 1000;
+
+const MONGO_STATES: Record<number, string> = {
+  0: "disconnected",
+  1: "connected",
+  2: "connecting",
+  3: "disconnecting",
+};
+
+const check = (
+  status: CheckStatus,
+  critical: boolean,
+  details: Record<string, unknown>
+): CheckResult => ({ status, critical, details });
+
+/**
+ * Liveness only says the process answers, a supervisor restarts us when it
+ * doesn't. Readiness checks the dependencies a booking needs.
+ */
+export const createHealthChecks = (sources: HealthSources) => {
+  const now = sources.now || (() => new Date());
+  let lastTelegramError: { at: Date; message: string } | null = null;
+
+  const chromiumAvailable = async () => {
+    try {
+      await fs.promises.access(sources.chromiumPath, fs.constants.X_OK);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  const report = async (): Promise<HealthReport> => {
+    const mongoState = sources.mongoState();
+    const scheduler = sources.scheduler.getStatus();
+    const pool = sources.browserPool.getStatus();
+    const polling = sources.telegram.isPolling();
+    const recentTelegramError =
+      lastTelegramError &&
+      now().getTime() - lastTelegramError.at.getTime() < TELEGRAM_ERROR_WINDOW_MS;
+
+    const checks: Record<string, CheckResult> = {
+      mongodb: check(mongoState === 1 ? "ok" : "fail", true, {
+        state: MONGO_STATES[mongoState] || String(mongoState),
+      }),
+      telegram: check(!polling ? "fail" : recentTelegramError ? "warn" : "ok", true, {
+        polling,
+        lastError: lastTelegramError?.message,
+        lastErrorAt: lastTelegramError?.at.toISOString(),
+      }),
+      scheduler: check(scheduler.isRunning ? "ok" : "fail", true, {
+        running: scheduler.isRunning,
+        activeSessions: scheduler.activeSessions,
+      }),
+      // Browsers are only warmed for running schedules, none is normal
+      browserPool: check(
+        pool.warmingBrowsers > 0 && pool.readyBrowsers === 0 ? "warn" : "ok",
+        false,
+        {
+          total: pool.totalBrowsers,
+          ready: pool.readyBrowsers,
+          warming: pool.warmingBrowsers,
+        }
+      ),
+      chromium: (await chromiumAvailable())
+        ? check("ok", true, { path: sources.chromiumPath })
+        : check("fail", true, { path: sources.chromiumPath, error: "not found or not executable" }),
+    };
+
+    return {
+      ready: Object.values(checks).every((c) => !c.critical || c.status !== "fail"),
+      checks,
+    };
+  };
+
+  return {
+    report,
+    recordTelegramError: (error: Error) => {
+      lastTelegramError = { at: now(), message: `${error.name}: ${error.message}` };
+    },
+  };
+};
@@ -0,0 +1,94 @@
+import dotenv from "dotenv";
+
+dotenv.config();
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+/**
+ * Correlation fields carried by child loggers, so the lines of one schedule
+ * or one browser can be picked out when several run at once.
+ */
+export interface LogContext {
+  scheduleId?: string;
+  browserNumber?: number;
+  oid?: string;
+  telegramId?: string;
+  [key: string]: unknown;
+}
+
+export interface Logger {
+  debug(message: string, fields?: Record<string, unknown>): void;
+  info(message: string, fields?: Record<string, unknown>): void;
+  warn(message: string, fields?: Record<string, unknown>): void;
+  error(message: string, fields?: Record<string, unknown>): void;
+  child(context: LogContext): Logger;
+}
+
+export interface LoggerOptions {
+  level?: LogLevel;
+  context?: LogContext;
+  // One JSON line per entry, stdout unless replaced (e.g. in tests)
+  write?: (line: string, level: LogLevel) => void;
+}
+
+const isLevel = (value: string | undefined): value is LogLevel =>
+  (LOG_LEVELS as readonly string[]).includes(value || "");
+
+// Errors don't survive JSON.stringify, everything else is passed through
+const serialize = (value: unknown): unknown => {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+};
+
+const defaultWrite = (line: string, level: LogLevel) => {
+  const stream = level === "error" || level === "warn" ? process.stderr : process.stdout;
+  stream.write(`${line}\n`);
+};
+
+export const createLogger = (options: LoggerOptions = {}): Logger => {
+  const { level = "info", context = {}, write = defaultWrite } = options;
+  const threshold = LOG_LEVELS.indexOf(level);
+
+  const log = (entryLevel: LogLevel, message: string, fields: Record<string, unknown> = {}) => {
+    if (LOG_LEVELS.indexOf(entryLevel) < threshold) return;
+
+    const entry: Record<string, unknown> = {
+      time: new Date().toISOString(),
+      level: entryLevel,
+      msg: message,
+    };
+    for (const [key, value] of Object.entries({ ...context, ...fields })) {
+      if (value !== undefined) entry[key] = serialize(value);
+    }
+
+    let line: string;
+    try {
+      line = JSON.stringify(entry);
+    } catch {
+      // Circular fields (mongoose documents, sockets) shouldn't lose the message
+      line = JSON.stringify({ time: entry.time, level: entryLevel, msg: message, ...context });
+    }
+    write(line, entryLevel);
+  };
+
+  return {
+    debug: (message, fields) => log("debug", message, fields),
+    info: (message, fields) => log("info", message, fields),
+    warn: (message, fields) => log("warn", message, fields),
+    error: (message, fields) => log("error", message, fields),
+    child: (childContext) =>
+      createLogger({ level, write, context: { ...context, ...childContext } }),
+  };
+};
+
+// Jest sets NODE_ENV=test, setting LOG_LEVEL brings the lines back while
+// debugging a test
+const quiet = process.env.NODE_ENV === "test" && !process.env.LOG_LEVEL;
+
+export const logger = createLogger({
+  level: isLevel(process.env.LOG_LEVEL) ? process.env.LOG_LEVEL : "info",
+  write: quiet ? () => {} : defaultWrite,
+});
@@ -0,0 +1,125 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from "prom-client";
+
+/**
+ * Prometheus metrics served on GET /metrics. Counters are bumped where things
+ * happen, gauges read the components' getStatus() when scraped.
+ */
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry, prefix: "goethe_bot_" });
+
+export const examfinderPolls = new Counter({
+  name: "goethe_bot_examfinder_polls_total",
+  help: "examfinder API calls, by result (success, error)",
+  labelNames: ["result"] as const,
+  registers: [metricsRegistry],
+});
+
+export const examfinderPollDuration = new Histogram({
+  name: "goethe_bot_examfinder_poll_duration_seconds",
+  help: "Latency of examfinder API calls",
+  labelNames: ["result"] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2, 5],
+  registers: [metricsRegistry],
+});
+
+export const examfinderSchemaErrors = new Counter({
+  name: "goethe_bot_examfinder_schema_errors_total",
+  help: "examfinder responses that no longer parse",
+  registers: [metricsRegistry],
+});
+
+export const scheduleRunOutcomes = new Counter({
+  name: "goethe_bot_schedule_runs_total",
+  help: "Finished schedule runs, by status (success, failed, timeout, paused, stopped)",
+  labelNames: ["status"] as const,
+  registers: [metricsRegistry],
+});
+
+export const telegramSendFailures = new Counter({
+  name: "goethe_bot_telegram_send_failures_total",
+  help: "Telegram messages that could not be sent",
+  registers: [metricsRegistry],
+});
+
+// Only the fields the gauges read, keeps this module free of imports
+export interface MetricsSources {
+  scheduler: {
+    getStatus(): {
+      activeSessions: number;
+      sessions: { scheduleId: string; status: string; consecutiveErrors?: number }[];
+    };
+  };
+  browserPool: {
+    getStatus(): { totalBrowsers: number; readyBrowsers: number; warmingBrowsers: number };
+  };
+  proxyPool: {
+    getStatus(): { usage: { proxy: string; timesUsed: number }[] };
+  };
+}
+
+/**
+ * Registers the gauges backed by the running scheduler, browser pool and
+ * proxy pool. Called once at startup.
+ */
+export const registerStatusGauges = ({ scheduler, browserPool, proxyPool }: MetricsSources) => {
+  new Gauge({
+    name: "goethe_bot_scheduler_active_sessions",
+    help: "Monitoring sessions currently held by the scheduler",
+    registers: [metricsRegistry],
+    collect() {
+      this.set(scheduler.getStatus().activeSessions);
+    },
+  });
+
+  new Gauge({
+    name: "goethe_bot_scheduler_sessions",
+    help: "Monitoring sessions by status",
+    labelNames: ["status"] as const,
+    registers: [metricsRegistry],
+    collect() {
+      this.reset();
+      for (const session of scheduler.getStatus().sessions) {
+        this.inc({ status: session.status });
+      }
+    },
+  });
+
+  new Gauge({
+    name: "goethe_bot_examfinder_consecutive_errors",
+    help: "Consecutive failed examfinder calls per monitoring session",
+    labelNames: ["schedule_id"] as const,
+    registers: [metricsRegistry],
+    collect() {
+      this.reset();
+      for (const session of scheduler.getStatus().sessions) {
+        this.set({ schedule_id: session.scheduleId }, session.consecutiveErrors || 0);
+      }
+    },
+  });
+
+  new Gauge({
+    name: "goethe_bot_browser_pool_browsers",
+    help: "Prewarmed browsers by state (ready, warming)",
+    labelNames: ["state"] as const,
+    registers: [metricsRegistry],
+    collect() {
+      const status = browserPool.getStatus();
+      this.set({ state: "ready" }, status.readyBrowsers);
+      this.set({ state: "warming" }, status.warmingBrowsers);
+    },
+  });
+
+  new Gauge({
+    name: "goethe_bot_proxy_uses",
+    help: "Browsers assigned to each proxy since the last usage reset",
+    labelNames: ["proxy"] as const,
+    registers: [metricsRegistry],
+    collect() {
+      this.reset();
+      for (const { proxy, timesUsed } of proxyPool.getStatus().usage) {
+        this.set({ proxy }, timesUsed);
+      }
+    },
+  });
+};
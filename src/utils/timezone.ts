@@ -0,0 +1,53 @@
+import { DateTime, IANAZone } from "luxon";
+
+// Most of our users book from India
+export const DEFAULT_TIMEZONE = "Asia/Kolkata";
+
+const INPUT_FORMAT = "yyyy-MM-dd HH:mm";
+
+export const isValidTimezone = (zone: string): boolean =>
+  IANAZone.isValidZone(zone);
+
+/**
+ * Parses "YYYY-MM-DD HH:MM" as a wall-clock time in the given zone. Returns
+ * an error message for malformed input and for times skipped by a DST change.
+ */
+export const parseLocalDateTime = (
+  input: string,
+  zone: string
+): { dateTime: DateTime; error?: undefined } | { dateTime?: undefined; error: string } => {
+  const dateTime = DateTime.fromFormat(input, INPUT_FORMAT, { zone });
+
+  if (!dateTime.isValid) {
+    return { error: dateTime.invalidExplanation || "Please check your input" };
+  }
+
+  // Luxon moves non-existent times forward instead of failing
+  if (dateTime.toFormat(INPUT_FORMAT) !== input) {
+    return { error: `${input} does not exist in ${zone} (clock change)` };
+  }
+
+  return { dateTime };
+};
+
+export const formatLocal = (date: Date | null | undefined, zone: string) =>
+  date
+    ? `${DateTime.fromJSDate(date, { zone }).toFormat(INPUT_FORMAT)} (${zone})`
+    : "Never";
+
+/**
+ * Local time first, UTC in brackets, e.g.
+ * "2025-01-15 19:30 (Asia/Kolkata) / 2025-01-15 14:00 UTC"
+ */
+export const formatLocalAndUtc = (
+  date: Date | null | undefined,
+  zone: string
+) => {
+  if (!date) return "Never";
+  const utc = DateTime.fromJSDate(date, { zone: "utc" }).toFormat(
+    `${INPUT_FORMAT} 'UTC'`
+  );
+  return zone === "UTC" || zone === "Etc/UTC"
+    ? utc
+    : `${formatLocal(date, zone)} / ${utc}`;
+};